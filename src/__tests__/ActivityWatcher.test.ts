@@ -0,0 +1,105 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdirSync, writeFileSync, appendFileSync, rmSync, existsSync, type watch } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { ActivityWatcher } from '../server/ActivityWatcher.js';
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('ActivityWatcher', () => {
+  let testDir: string;
+  let sessionsDir: string;
+  let watcher: ActivityWatcher;
+  let changes: number;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `activity-watcher-test-${Date.now()}`);
+    sessionsDir = join(testDir, 'agents', 'dev', 'sessions');
+    mkdirSync(sessionsDir, { recursive: true });
+    mkdirSync(join(testDir, 'workspaces', 'feature-dev'), { recursive: true });
+    changes = 0;
+    watcher = new ActivityWatcher(testDir, () => { changes++; }, { debounceMs: 50, rescanIntervalMs: 0 });
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should watch the agent, session and workspace directories', () => {
+    watcher.start();
+
+    assert.strictEqual(watcher.getMode(), 'watch');
+    assert.ok(watcher.getWatchedPaths().includes(sessionsDir));
+    assert.ok(watcher.getWatchedPaths().includes(join(testDir, 'workspaces', 'feature-dev')));
+  });
+
+  it('should report a session change within the debounce window', async () => {
+    watcher.start();
+
+    writeFileSync(join(sessionsDir, 'sessions.json'), '{}');
+    await delay(200);
+
+    assert.strictEqual(changes, 1);
+  });
+
+  it('should coalesce a burst of changes into one callback', async () => {
+    watcher.start();
+
+    for (let i = 0; i < 10; i++) {
+      appendFileSync(join(sessionsDir, 'sess-1.jsonl'), `{"type":"message","n":${i}}\n`);
+    }
+    await delay(200);
+
+    assert.strictEqual(changes, 1);
+  });
+
+  it('should ignore unrelated files in session directories', async () => {
+    watcher.start();
+
+    writeFileSync(join(sessionsDir, 'notes.txt'), 'hello');
+    await delay(200);
+
+    assert.strictEqual(changes, 0);
+  });
+
+  it('should start watching directories created after start', async () => {
+    watcher.start();
+
+    const runDir = join(testDir, 'workspaces', 'feature-dev', 'run-1');
+    mkdirSync(runDir);
+    await delay(200);
+
+    assert.ok(watcher.getWatchedPaths().includes(runDir));
+
+    mkdirSync(join(runDir, 'planner'));
+    await delay(200);
+
+    assert.strictEqual(changes, 2);
+  });
+
+  it('should fall back to polling when watching is unavailable', async () => {
+    const failingWatch = (() => {
+      throw Object.assign(new Error('inotify limit reached'), { code: 'ENOSPC' });
+    }) as unknown as typeof watch;
+    watcher = new ActivityWatcher(testDir, () => { changes++; }, { pollIntervalMs: 50, watchFn: failingWatch });
+    const originalError = console.error;
+    console.error = () => {};
+
+    try {
+      watcher.start();
+    } finally {
+      console.error = originalError;
+    }
+    await delay(180);
+
+    assert.strictEqual(watcher.getMode(), 'poll');
+    assert.deepStrictEqual(watcher.getWatchedPaths(), []);
+    assert.ok(changes >= 2);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { AgentIdentityResolver, parseWorkspaceSession } from '../server/AgentIdentity.js';
+
+describe('AgentIdentityResolver', () => {
+  let resolver: AgentIdentityResolver;
+
+  beforeEach(() => {
+    resolver = new AgentIdentityResolver({ developer: ['dev', 'Developer Bot'] });
+  });
+
+  it('should map every source onto the same canonical id', () => {
+    assert.strictEqual(resolver.fromAgentDirectory('developer').agentId, 'agent:developer');
+    assert.strictEqual(resolver.fromWorkspaceSession('feature-dev/run-1/developer')?.agentId, 'agent:developer');
+    assert.strictEqual(resolver.fromDashboardSession({ agent: 'developer' }).agentId, 'agent:developer');
+    assert.strictEqual(resolver.fromDashboardSession({ agentName: 'agent:developer' }).agentId, 'agent:developer');
+    assert.strictEqual(resolver.resolve('agent:developer').agentName, 'developer');
+  });
+
+  it('should resolve configured aliases, including inside workspace paths', () => {
+    assert.deepStrictEqual(resolver.resolve('Developer Bot'), { agentId: 'agent:developer', agentName: 'developer', runKey: null });
+    assert.deepStrictEqual(resolver.resolve('feature-dev/run-1/dev'), {
+      agentId: 'agent:developer',
+      agentName: 'developer',
+      runKey: 'feature-dev/run-1'
+    });
+    assert.strictEqual(resolver.resolve('agent:dev').agentId, 'agent:developer');
+  });
+
+  it('should keep same-named agents in different runs apart by run', () => {
+    const first = resolver.fromWorkspaceSession('feature-dev/run-1/developer');
+    const second = resolver.fromWorkspaceSession('feature-dev/run-2/developer');
+    const otherWorkflow = resolver.fromWorkspaceSession('bugfix/run-1/developer');
+
+    assert.strictEqual(first?.agentId, second?.agentId);
+    assert.strictEqual(first?.agentId, otherWorkflow?.agentId);
+    assert.deepStrictEqual([first?.runKey, second?.runKey, otherWorkflow?.runKey], [
+      'feature-dev/run-1',
+      'feature-dev/run-2',
+      'bugfix/run-1'
+    ]);
+  });
+
+  it('should not merge agents whose names only look alike', () => {
+    resolver.fromWorkspaceSession('feature-dev/run-1/developer');
+    const lookalike = resolver.fromWorkspaceSession('feature-dev/run-1/developer-2');
+
+    assert.strictEqual(lookalike?.agentId, 'agent:developer-2');
+    assert.ok(!resolver.getAliases('agent:developer').includes('feature-dev/run-1/developer-2'));
+  });
+
+  it('should list the references seen for an agent', () => {
+    resolver.fromAgentDirectory('developer');
+    resolver.fromWorkspaceSession('feature-dev/run-1/developer');
+    resolver.fromWorkspaceSession('feature-dev/run-2/developer');
+    resolver.resolve('lookup-only');
+
+    assert.deepStrictEqual(resolver.getAliases('dev'), [
+      'Developer Bot',
+      'dev',
+      'developer',
+      'feature-dev/run-1/developer',
+      'feature-dev/run-2/developer'
+    ]);
+    assert.deepStrictEqual(resolver.getAliases('lookup-only'), []);
+  });
+
+  it('should parse only three-part workspace session paths', () => {
+    assert.deepStrictEqual(parseWorkspaceSession('wf/run-1/dev'), { workflowType: 'wf', runId: 'run-1', agentName: 'dev' });
+    assert.strictEqual(parseWorkspaceSession('wf/run-1'), null);
+    assert.strictEqual(parseWorkspaceSession('wf//dev'), null);
+    assert.strictEqual(resolver.fromWorkspaceSession('developer'), null);
+  });
+});
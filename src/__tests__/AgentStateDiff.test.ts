@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { AgentStateVersions } from '../server/AgentStateDiff.js';
+import { applyAgentPatch, diffAgentState } from '../shared/agentPatch.js';
+import type { AgentState } from '../shared/types.js';
+
+const agentState = (overrides: Partial<AgentState> = {}): AgentState => ({
+  agentId: 'agent:dev',
+  agentName: 'dev',
+  status: 'active',
+  currentModel: 'k2p5',
+  totalTokens: 100,
+  inputTokens: 60,
+  outputTokens: 40,
+  cost: 0,
+  contextPct: 10,
+  lastActivity: '2026-01-01T00:00:00.000Z',
+  sessions: [],
+  toolsUsed: ['exec'],
+  skills: [],
+  ...overrides
+});
+
+describe('AgentStateDiff', () => {
+  describe('diffAgentState', () => {
+    it('should include only changed top-level fields', () => {
+      const base = agentState();
+      const next = agentState({ totalTokens: 150, toolsUsed: ['exec', 'read'] });
+
+      assert.deepStrictEqual(diffAgentState(base, next), {
+        changes: { totalTokens: 150, toolsUsed: ['exec', 'read'] },
+        removed: []
+      });
+      assert.deepStrictEqual(diffAgentState(base, agentState()).changes, {});
+    });
+
+    it('should round-trip through applyAgentPatch, including removed fields', () => {
+      const base = { ...agentState(), extra: 'gone' } as AgentState;
+      const next = agentState({ status: 'idle', cost: 0.25 });
+
+      const patch = diffAgentState(base, next);
+
+      assert.deepStrictEqual(patch.removed, ['extra']);
+      assert.deepStrictEqual(applyAgentPatch(base, patch), next);
+    });
+  });
+
+  describe('AgentStateVersions', () => {
+    it('should send full states until the client acknowledges a base', () => {
+      const versions = new AgentStateVersions();
+
+      const first = versions.nextVersion();
+      assert.strictEqual(versions.encode(agentState(), first), null);
+
+      // Not acknowledged yet, so still no base
+      const second = versions.nextVersion();
+      assert.strictEqual(versions.encode(agentState({ totalTokens: 150 }), second), null);
+
+      versions.acknowledge(first);
+      const third = versions.nextVersion();
+      const patch = versions.encode(agentState({ totalTokens: 200 }), third);
+
+      assert.deepStrictEqual(patch, { version: third, baseVersion: first, changes: { totalTokens: 200 }, removed: [] });
+    });
+
+    it('should use the latest acknowledged state per agent as the base', () => {
+      const versions = new AgentStateVersions();
+      versions.encode(agentState({ totalTokens: 150 }), versions.nextVersion());
+      const later = versions.nextVersion();
+      versions.encode(agentState({ totalTokens: 200 }), later);
+      versions.encode(agentState({ agentId: 'agent:ops', agentName: 'ops' }), versions.nextVersion());
+
+      versions.acknowledge(later);
+
+      const next = versions.nextVersion();
+      assert.strictEqual(versions.encode(agentState({ totalTokens: 200 }), next)?.baseVersion, later);
+      assert.strictEqual(versions.encode(agentState({ agentId: 'agent:ops', agentName: 'ops' }), next), null);
+    });
+
+    it('should ignore acknowledgements of versions never sent and forget bases on reset', () => {
+      const versions = new AgentStateVersions();
+      const version = versions.nextVersion();
+      versions.encode(agentState(), version);
+
+      versions.acknowledge(99);
+      assert.strictEqual(versions.encode(agentState(), versions.nextVersion()), null);
+
+      versions.acknowledge(version);
+      versions.reset();
+      assert.strictEqual(versions.encode(agentState(), versions.nextVersion()), null);
+    });
+  });
+});
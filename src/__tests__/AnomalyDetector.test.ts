@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { ToolCallRecord } from '../server/ToolCallTracker.js';
+import { AnomalyDetector } from '../server/AnomalyDetector.js';
+import type { AgentState } from '../shared/types.js';
+
+function call(toolName: string, args: string | null = null, sessionId = 'sess-1'): ToolCallRecord {
+  return {
+    agentId: 'agent:dev',
+    sessionId,
+    toolName,
+    callId: null,
+    arguments: args,
+    status: 'success',
+    startedAt: null,
+    completedAt: new Date().toISOString(),
+    durationMs: null
+  };
+}
+
+function agent(status: AgentState['status']): AgentState {
+  return {
+    agentId: 'agent:dev',
+    agentName: 'dev',
+    status,
+    currentModel: 'k2p5',
+    totalTokens: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cost: 0,
+    contextPct: 0,
+    lastActivity: '2026-03-01T12:00:00.000Z',
+    sessions: [],
+    toolsUsed: [],
+    skills: []
+  };
+}
+
+describe('AnomalyDetector', () => {
+  it('should flag repeated identical tool calls once per streak', () => {
+    const detector = new AnomalyDetector({ repeatThreshold: 3 });
+
+    const results = [1, 2, 3, 4].map(() => detector.observe(call('read', '{"path":"a.ts"}')));
+
+    assert.deepStrictEqual(results.map(r => r.length), [0, 0, 1, 0]);
+    const [anomaly] = results[2];
+    assert.strictEqual(anomaly.kind, 'repeated_tool_call');
+    assert.strictEqual(anomaly.evidence.repetitions, 3);
+    assert.strictEqual(anomaly.evidence.recentCalls.length, 3);
+  });
+
+  it('should not treat the same tool with different arguments as a loop', () => {
+    const detector = new AnomalyDetector({ repeatThreshold: 3 });
+
+    const results = ['a', 'b', 'c'].map(path => detector.observe(call('read', path)));
+
+    assert.deepStrictEqual(results.flat(), []);
+  });
+
+  it('should re-arm after the streak breaks', () => {
+    const detector = new AnomalyDetector({ repeatThreshold: 2 });
+
+    detector.observe(call('exec'));
+    assert.strictEqual(detector.observe(call('exec')).length, 1);
+    detector.observe(call('read'));
+    detector.observe(call('exec'));
+
+    assert.strictEqual(detector.observe(call('exec')).length, 1);
+  });
+
+  it('should flag oscillating tool sequences with the cycle as evidence', () => {
+    const detector = new AnomalyDetector({ oscillationRepeats: 3 });
+    const sequence = ['edit', 'test', 'edit', 'test', 'edit', 'test'];
+
+    const anomalies = sequence.flatMap(tool => detector.observe(call(tool)));
+
+    assert.strictEqual(anomalies.length, 1);
+    assert.strictEqual(anomalies[0].kind, 'oscillating_tool_sequence');
+    assert.deepStrictEqual(anomalies[0].evidence.cycle, ['edit', 'test']);
+    assert.deepStrictEqual(anomalies[0].evidence.recentCalls.map(c => c.toolName), sequence);
+  });
+
+  it('should keep sessions apart', () => {
+    const detector = new AnomalyDetector({ repeatThreshold: 2 });
+
+    detector.observe(call('exec', null, 'sess-1'));
+
+    assert.deepStrictEqual(detector.observe(call('exec', null, 'sess-2')), []);
+  });
+
+  it('should report a long silence when an agent becomes stalled', () => {
+    const detector = new AnomalyDetector();
+    detector.observe(call('exec'));
+
+    const first = detector.checkSilences([agent('stalled')]);
+    const repeated = detector.checkSilences([agent('stalled')]);
+    detector.checkSilences([agent('active')]);
+    const again = detector.checkSilences([agent('stalled')]);
+
+    assert.strictEqual(first.length, 1);
+    assert.strictEqual(first[0].kind, 'long_silence');
+    assert.strictEqual(first[0].sessionId, 'sess-1');
+    assert.deepStrictEqual(first[0].evidence.recentCalls.map(c => c.toolName), ['exec']);
+    assert.deepStrictEqual(repeated, []);
+    assert.strictEqual(again.length, 1);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { TokenAuthenticator, hasRole, tokenFromRequest } from '../server/Auth.js';
+
+describe('Auth', () => {
+  describe('TokenAuthenticator', () => {
+    const authenticator = new TokenAuthenticator([
+      { token: 'viewer-token', role: 'viewer', name: 'dashboard' },
+      { token: 'admin-token', role: 'admin' }
+    ]);
+
+    it('should be disabled without configured tokens', () => {
+      assert.strictEqual(new TokenAuthenticator().isEnabled(), false);
+      assert.strictEqual(authenticator.isEnabled(), true);
+    });
+
+    it('should return the access a known token grants', () => {
+      assert.strictEqual(authenticator.authenticate('viewer-token')?.role, 'viewer');
+      assert.strictEqual(authenticator.authenticate('viewer-token')?.name, 'dashboard');
+      assert.strictEqual(authenticator.authenticate('admin-token')?.role, 'admin');
+    });
+
+    it('should reject unknown, empty and prefix tokens', () => {
+      assert.strictEqual(authenticator.authenticate('nope'), null);
+      assert.strictEqual(authenticator.authenticate(''), null);
+      assert.strictEqual(authenticator.authenticate(null), null);
+      assert.strictEqual(authenticator.authenticate('admin'), null);
+    });
+
+    it('should ignore entries without a token or with an unknown role', () => {
+      const invalid = new TokenAuthenticator([
+        { token: '', role: 'admin' },
+        { token: 'root', role: 'root' as 'admin' }
+      ]);
+
+      assert.strictEqual(invalid.isEnabled(), false);
+    });
+  });
+
+  describe('hasRole', () => {
+    it('should let admins do everything viewers can', () => {
+      assert.strictEqual(hasRole('admin', 'viewer'), true);
+      assert.strictEqual(hasRole('admin', 'admin'), true);
+      assert.strictEqual(hasRole('viewer', 'viewer'), true);
+      assert.strictEqual(hasRole('viewer', 'admin'), false);
+    });
+  });
+
+  describe('tokenFromRequest', () => {
+    it('should prefer a bearer header over the query parameter', () => {
+      assert.strictEqual(tokenFromRequest('Bearer abc', new URLSearchParams('token=xyz')), 'abc');
+      assert.strictEqual(tokenFromRequest(undefined, new URLSearchParams('token=xyz')), 'xyz');
+      assert.strictEqual(tokenFromRequest('Basic abc', new URLSearchParams()), null);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { BudgetMonitor } from '../server/BudgetMonitor.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = Date.parse('2026-03-01T12:00:00.000Z');
+
+describe('BudgetMonitor', () => {
+  it('should warn when a global budget is approached and alert again when exceeded', () => {
+    const monitor = new BudgetMonitor([{ scope: 'global', window: 'hour', maxTokens: 1000 }]);
+
+    monitor.record('agent:a', 500, NOW);
+    monitor.record('agent:b', 350, NOW);
+    const warning = monitor.check(NOW);
+
+    monitor.record('agent:a', 200, NOW);
+    const exceeded = monitor.check(NOW);
+
+    assert.deepStrictEqual(warning.map(a => [a.level, a.usedTokens, a.target]), [['warning', 850, null]]);
+    assert.deepStrictEqual(exceeded.map(a => [a.level, a.usedPct]), [['exceeded', 105]]);
+  });
+
+  it('should report each level only once', () => {
+    const monitor = new BudgetMonitor([{ scope: 'global', window: 'hour', maxTokens: 100 }]);
+
+    monitor.record('agent:a', 150, NOW);
+    monitor.check(NOW);
+    monitor.record('agent:a', 10, NOW);
+
+    assert.deepStrictEqual(monitor.check(NOW), []);
+  });
+
+  it('should only count usage inside the sliding window', () => {
+    const monitor = new BudgetMonitor([{ scope: 'global', window: 'hour', maxTokens: 100 }]);
+
+    monitor.record('agent:a', 90, NOW - 2 * HOUR_MS);
+    monitor.record('agent:a', 20, NOW);
+
+    assert.deepStrictEqual(monitor.check(NOW), []);
+  });
+
+  it('should re-arm once usage drops out of the window', () => {
+    const monitor = new BudgetMonitor([{ scope: 'global', window: 'hour', maxTokens: 100 }]);
+
+    monitor.record('agent:a', 100, NOW);
+    assert.strictEqual(monitor.check(NOW).length, 1);
+    assert.deepStrictEqual(monitor.check(NOW + 2 * HOUR_MS), []);
+
+    monitor.record('agent:a', 100, NOW + 2 * HOUR_MS);
+    assert.strictEqual(monitor.check(NOW + 2 * HOUR_MS).length, 1);
+  });
+
+  it('should apply untargeted agent budgets to each agent separately', () => {
+    const monitor = new BudgetMonitor([{ scope: 'agent', window: 'day', maxTokens: 100 }]);
+
+    monitor.record('agent:a', 60, NOW);
+    monitor.record('agent:b', 120, NOW);
+
+    assert.deepStrictEqual(monitor.check(NOW).map(a => [a.target, a.level]), [['agent:b', 'exceeded']]);
+  });
+
+  it('should total usage of agents within a workspace run', () => {
+    const monitor = new BudgetMonitor([{ scope: 'workspace', target: 'feature-dev/run-1', window: 'day', maxTokens: 100, warnAtPct: 50 }]);
+
+    monitor.record('agent:planner', 30, NOW, 'feature-dev/run-1');
+    monitor.record('agent:coder', 30, NOW, 'feature-dev/run-1');
+    monitor.record('agent:other', 90, NOW, 'feature-dev/run-2');
+
+    assert.deepStrictEqual(monitor.check(NOW).map(a => [a.target, a.usedTokens, a.level]), [['feature-dev/run-1', 60, 'warning']]);
+  });
+
+  it('should ignore negative deltas', () => {
+    const monitor = new BudgetMonitor([{ scope: 'global', window: 'hour', maxTokens: 100 }]);
+
+    monitor.record('agent:a', -500, NOW);
+    monitor.record('agent:a', 90, NOW);
+
+    assert.strictEqual(monitor.check(NOW)[0].usedTokens, 90);
+  });
+
+  it('should post alerts to the webhook', async () => {
+    const received: unknown[] = [];
+    const server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push(JSON.parse(body));
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(13620, resolve));
+
+    try {
+      const monitor = new BudgetMonitor(
+        [{ id: 'daily', scope: 'global', window: 'day', maxTokens: 10 }],
+        { webhookUrl: 'http://localhost:13620/alerts' }
+      );
+      monitor.record('agent:a', 10, NOW);
+      monitor.check(NOW);
+      await new Promise(resolve => setTimeout(resolve, 200));
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+
+    assert.deepStrictEqual(received.map(a => (a as { budgetId: string }).budgetId), ['daily']);
+  });
+
+  it('should run the command with the alert in its environment', async () => {
+    const output = join(tmpdir(), `budget-alert-${Date.now()}.json`);
+    const monitor = new BudgetMonitor(
+      [{ scope: 'global', window: 'day', maxTokens: 10 }],
+      { command: `printf '%s' "$BUDGET_ALERT" > '${output}'` }
+    );
+
+    try {
+      monitor.record('agent:a', 10, NOW);
+      monitor.check(NOW);
+      for (let i = 0; i < 20 && !existsSync(output); i++) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      assert.strictEqual(JSON.parse(readFileSync(output, 'utf-8')).level, 'exceeded');
+    } finally {
+      rmSync(output, { force: true });
+    }
+  });
+});
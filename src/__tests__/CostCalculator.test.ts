@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { ModelConfig } from '../server/DataCollector.js';
+import { CostCalculator } from '../server/CostCalculator.js';
+import type { SessionCost } from '../shared/types.js';
+
+const k2p5: ModelConfig = {
+  id: 'k2p5',
+  name: 'Kimi K2.5',
+  provider: 'moonshot',
+  reasoning: false,
+  contextWindow: 256000,
+  maxTokens: 8192,
+  cost: { input: 0.6, output: 2.5 }
+};
+
+function session(agentId: string, model: string, cost: number): SessionCost {
+  return { agentId, sessionId: `${agentId}-${model}`, model, inputTokens: 100, outputTokens: 10, cost };
+}
+
+describe('CostCalculator', () => {
+  it('should price tokens per million from the model config', () => {
+    const calculator = new CostCalculator();
+
+    assert.strictEqual(calculator.costOf('k2p5', 1_000_000, 200_000, k2p5), 1.1);
+  });
+
+  it('should prefer the pricing table, provider-qualified keys first', () => {
+    const calculator = new CostCalculator({
+      'k2p5': { input: 1, output: 1 },
+      'moonshot/k2p5': { input: 2, output: 4 }
+    });
+
+    assert.deepStrictEqual(calculator.priceFor('k2p5', k2p5), { input: 2, output: 4 });
+    assert.deepStrictEqual(calculator.priceFor('k2p5'), { input: 1, output: 1 });
+    assert.deepStrictEqual(calculator.priceFor('openrouter/k2p5'), { input: 1, output: 1 });
+  });
+
+  it('should return null for models without a price', () => {
+    const calculator = new CostCalculator();
+
+    assert.strictEqual(calculator.costOf('mystery', 1000, 1000), null);
+  });
+
+  it('should roll session costs up per agent and model', () => {
+    const calculator = new CostCalculator();
+
+    const summary = calculator.summarize([
+      session('agent:a', 'k2p5', 1),
+      session('agent:a', 'claude-sonnet', 3),
+      session('agent:b', 'k2p5', 2)
+    ], ['mystery', 'mystery']);
+
+    assert.strictEqual(summary.totalCost, 6);
+    assert.deepStrictEqual(summary.byAgent.map(a => [a.agentId, a.cost, a.inputTokens]), [['agent:a', 4, 200], ['agent:b', 2, 100]]);
+    assert.deepStrictEqual(summary.byModel.map(m => [m.model, m.cost]), [['k2p5', 3], ['claude-sonnet', 3]]);
+    assert.strictEqual(summary.bySession[0].cost, 3);
+    assert.deepStrictEqual(summary.unpricedModels, ['mystery']);
+  });
+});
@@ -1,9 +1,10 @@
 import { describe, it, beforeEach, afterEach } from 'node:test';
 import assert from 'node:assert';
-import { mkdirSync, writeFileSync, rmSync, existsSync } from 'node:fs';
+import { mkdirSync, writeFileSync, appendFileSync, rmSync, existsSync, utimesSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
-import { DataCollector, type AgentState } from '../server/DataCollector.js';
+import { DataCollector } from '../server/DataCollector.js';
+import type { AgentState } from '../shared/types.js';
 
 describe('DataCollector', () => {
   let testDir: string;
@@ -295,6 +296,67 @@ describe('DataCollector', () => {
     });
   });
 
+  describe('Incremental session tailing', () => {
+    it('should accumulate tools from appended session lines', () => {
+      const sessionsDir = join(testDir, 'agents', 'test-agent', 'sessions');
+      mkdirSync(sessionsDir, { recursive: true });
+      const sessionPath = join(sessionsDir, 'session-1.jsonl');
+
+      writeFileSync(sessionPath, JSON.stringify({ type: 'tool_result', toolName: 'read' }) + '\n');
+      let states = collector.collectAgentStates();
+      assert.deepStrictEqual(states[0].toolsUsed, ['read']);
+
+      appendFileSync(sessionPath, JSON.stringify({ type: 'toolCall', name: 'exec' }) + '\n');
+      states = collector.collectAgentStates();
+      assert.deepStrictEqual(states[0].toolsUsed.sort(), ['exec', 'read']);
+    });
+
+    it('should ignore a partial trailing line until it is completed', () => {
+      const sessionsDir = join(testDir, 'agents', 'test-agent', 'sessions');
+      mkdirSync(sessionsDir, { recursive: true });
+      const sessionPath = join(sessionsDir, 'session-1.jsonl');
+
+      writeFileSync(sessionPath, '{"type":"toolCall","name":"wr');
+      let states = collector.collectAgentStates();
+      assert.deepStrictEqual(states[0].toolsUsed, []);
+
+      appendFileSync(sessionPath, 'ite"}\n');
+      states = collector.collectAgentStates();
+      assert.deepStrictEqual(states[0].toolsUsed, ['write']);
+    });
+
+    it('should drop tools from a truncated session file', () => {
+      const sessionsDir = join(testDir, 'agents', 'test-agent', 'sessions');
+      mkdirSync(sessionsDir, { recursive: true });
+      const sessionPath = join(sessionsDir, 'session-1.jsonl');
+
+      writeFileSync(sessionPath, JSON.stringify({ type: 'toolCall', name: 'exec' }) + '\n');
+      collector.collectAgentStates();
+
+      writeFileSync(sessionPath, '');
+      const states = collector.collectAgentStates();
+      assert.deepStrictEqual(states[0].toolsUsed, []);
+    });
+
+    it('should extend a session timeline with appended lines and restart it after truncation', () => {
+      const sessionsDir = join(testDir, 'agents', 'test-agent', 'sessions');
+      mkdirSync(sessionsDir, { recursive: true });
+      const sessionPath = join(sessionsDir, 'session-1.jsonl');
+
+      writeFileSync(sessionPath, JSON.stringify({ type: 'toolCall', id: 'c1', name: 'exec' }) + '\n');
+      assert.strictEqual(collector.getSessionTimeline('test-agent', 'session-1')?.totalEntries, 1);
+
+      appendFileSync(sessionPath, JSON.stringify({ type: 'tool_result', toolCallId: 'c1', toolName: 'exec' }) + '\n');
+      appendFileSync(sessionPath, JSON.stringify({ type: 'toolCall', id: 'c2', name: 'read' }) + '\n');
+      const extended = collector.getSessionTimeline('test-agent', 'session-1');
+      assert.deepStrictEqual(extended?.entries.map(e => e.kind === 'tool_call' && e.status), ['success', 'pending']);
+
+      writeFileSync(sessionPath, JSON.stringify({ type: 'toolCall', id: 'c3', name: 'write' }) + '\n');
+      const restarted = collector.getSessionTimeline('test-agent', 'session-1');
+      assert.deepStrictEqual(restarted?.entries.map(e => e.kind === 'tool_call' && e.toolName), ['write']);
+    });
+  });
+
   describe('Agent state collection', () => {
     it('should collect agent states from dashboard data', () => {
       // Create dashboard data
@@ -387,6 +449,120 @@ describe('DataCollector', () => {
       assert.strictEqual(states.length, 1);
       assert.deepStrictEqual(states[0].skills, ['github', 'gemini']);
     });
+
+    it('should match dashboard sessions named by agent id or alias to the agent directory', () => {
+      const aliased = new DataCollector(testDir, { agentAliases: { 'test-agent': ['Test Bot'] } });
+      const session = { model: 'k2p5', contextPct: 10, lastActivity: '12:00:00', updatedAt: Date.now(), type: 'cron' };
+      writeFileSync(join(testDir, 'dashboard', 'data.json'), JSON.stringify({
+        sessions: [
+          { ...session, name: 'by-id', agent: 'agent:test-agent', totalTokens: 100 },
+          { ...session, name: 'by-alias', agent: 'Test Bot', totalTokens: 200 },
+          { ...session, name: 'other', agent: 'other-agent', totalTokens: 300 }
+        ]
+      }));
+      mkdirSync(join(testDir, 'agents', 'test-agent'), { recursive: true });
+
+      const [state] = aliased.collectAgentStates();
+
+      assert.strictEqual(state.agentId, 'agent:test-agent');
+      assert.deepStrictEqual(state.sessions.map(s => (s as { name?: string }).name), ['by-id', 'by-alias']);
+      assert.ok(aliased.getIdentityResolver().getAliases('agent:test-agent').includes('Test Bot'));
+    });
+  });
+
+  describe('Agent status', () => {
+    const sessionsDir = () => join(testDir, 'agents', 'dev', 'sessions');
+
+    // An agent the dashboard lists as running, updated just now
+    const writeActiveAgent = (updatedAt = Date.now()) => {
+      mkdirSync(sessionsDir(), { recursive: true });
+      writeFileSync(join(sessionsDir(), 'sessions.json'), JSON.stringify({
+        main: { sessionId: 'sess-1', updatedAt, model: 'k2p5', totalTokens: 100 }
+      }));
+      writeFileSync(join(testDir, 'dashboard', 'data.json'), JSON.stringify({
+        sessions: [{ agent: 'dev', model: 'k2p5', updatedAt, totalTokens: 100, contextPct: 0, lastActivity: '' }],
+        crons: [],
+        tokenUsage: []
+      }));
+    };
+
+    const writeEvents = (events: object[], modifiedAgoMs = 0) => {
+      const path = join(sessionsDir(), 'sess-1.jsonl');
+      writeFileSync(path, events.map(e => JSON.stringify(e)).join('\n') + '\n');
+      const mtime = new Date(Date.now() - modifiedAgoMs);
+      utimesSync(path, mtime, mtime);
+    };
+
+    it('should report active, idle and ended from the default thresholds', () => {
+      writeActiveAgent();
+      assert.strictEqual(collector.collectAgentStates()[0].status, 'active');
+
+      writeActiveAgent(Date.now() - 10 * 60 * 1000);
+      assert.strictEqual(collector.collectAgentStates()[0].status, 'idle');
+
+      writeActiveAgent(Date.now() - 2 * 60 * 60 * 1000);
+      assert.strictEqual(collector.collectAgentStates()[0].status, 'ended');
+    });
+
+    it('should report waiting_for_tool while a tool call has no result', () => {
+      writeActiveAgent();
+      writeEvents([{ type: 'toolCall', id: 'c1', name: 'exec', timestamp: new Date().toISOString() }]);
+
+      assert.strictEqual(collector.collectAgentStates()[0].status, 'waiting_for_tool');
+    });
+
+    it('should ignore unanswered calls in sessions older than the current one', () => {
+      writeActiveAgent();
+      const abandoned = join(sessionsDir(), 'sess-0.jsonl');
+      writeFileSync(abandoned, JSON.stringify({ type: 'toolCall', id: 'c0', name: 'exec' }) + '\n');
+      const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      utimesSync(abandoned, dayAgo, dayAgo);
+      writeEvents([{ type: 'message', message: { role: 'assistant' } }]);
+
+      assert.strictEqual(collector.collectAgentStates()[0].status, 'active');
+    });
+
+    it('should report stalled when an active session stops writing', () => {
+      writeActiveAgent();
+      writeEvents([{ type: 'message', message: { role: 'assistant' } }], 10 * 60 * 1000);
+
+      assert.strictEqual(collector.collectAgentStates()[0].status, 'stalled');
+    });
+
+    it('should report errored when the last event is an error', () => {
+      writeActiveAgent();
+      writeEvents([
+        { type: 'toolCall', id: 'c1', name: 'exec' },
+        { type: 'tool_result', toolCallId: 'c1', toolName: 'exec', isError: true }
+      ]);
+
+      assert.strictEqual(collector.collectAgentStates()[0].status, 'errored');
+    });
+
+    it('should recover from errored once a later event succeeds', () => {
+      writeActiveAgent();
+      writeEvents([{ type: 'error', error: 'rate limited' }]);
+      collector.collectAgentStates();
+
+      appendFileSync(join(sessionsDir(), 'sess-1.jsonl'), JSON.stringify({ type: 'message', message: { role: 'assistant' } }) + '\n');
+
+      assert.strictEqual(collector.collectAgentStates()[0].status, 'active');
+    });
+
+    it('should apply per-agent threshold overrides', () => {
+      writeActiveAgent(Date.now() - 10 * 60 * 1000);
+      const configured = new DataCollector(testDir, {
+        statusThresholds: { stalledMs: 60 * 60 * 1000 },
+        agentStatusThresholds: { dev: { activeMs: 30 * 60 * 1000 } }
+      });
+
+      assert.strictEqual(configured.collectAgentStates()[0].status, 'active');
+      assert.deepStrictEqual(configured.getStatusThresholds('dev'), {
+        activeMs: 30 * 60 * 1000,
+        idleMs: 60 * 60 * 1000,
+        stalledMs: 60 * 60 * 1000
+      });
+    });
   });
 
   describe('State change detection', () => {
@@ -398,6 +574,9 @@ describe('DataCollector', () => {
           status: 'active',
           currentModel: 'k2p5',
           totalTokens: 1000,
+          inputTokens: 0,
+          outputTokens: 0,
+          cost: 0,
           contextPct: 10,
           lastActivity: new Date().toISOString(),
           sessions: [],
@@ -430,6 +609,9 @@ describe('DataCollector', () => {
           status: 'idle',  // Changed from active
           currentModel: 'k2p5',
           totalTokens: 2000,
+          inputTokens: 0,
+          outputTokens: 0,
+          cost: 0,
           contextPct: 10,
           lastActivity: new Date().toISOString(),
           sessions: [],
@@ -447,6 +629,9 @@ describe('DataCollector', () => {
           status: 'active',
           currentModel: 'k2p5',
           totalTokens: 1000,
+          inputTokens: 0,
+          outputTokens: 0,
+          cost: 0,
           contextPct: 10,
           lastActivity: new Date().toISOString(),
           sessions: [],
@@ -472,6 +657,9 @@ describe('DataCollector', () => {
           status: 'active',
           currentModel: 'k2p5',
           totalTokens: 1000,
+          inputTokens: 0,
+          outputTokens: 0,
+          cost: 0,
           contextPct: 10,
           lastActivity: new Date().toISOString(),
           sessions: [],
@@ -500,6 +688,9 @@ describe('DataCollector', () => {
           status: 'active',
           currentModel: 'k2p5',
           totalTokens: 1000,
+          inputTokens: 600,
+          outputTokens: 400,
+          cost: 0,
           contextPct: 10,
           lastActivity: new Date().toISOString(),
           sessions: [],
@@ -515,6 +706,9 @@ describe('DataCollector', () => {
           status: 'active',
           currentModel: 'k2p5',
           totalTokens: 1500,  // Increased by 500
+          inputTokens: 900,
+          outputTokens: 600,
+          cost: 0,
           contextPct: 10,
           lastActivity: new Date().toISOString(),
           sessions: [],
@@ -529,6 +723,8 @@ describe('DataCollector', () => {
       assert.strictEqual(deltas[0].delta, 500);
       assert.strictEqual(deltas[0].previousTokens, 1000);
       assert.strictEqual(deltas[0].currentTokens, 1500);
+      assert.strictEqual(deltas[0].inputDelta, 300);
+      assert.strictEqual(deltas[0].outputDelta, 200);
     });
 
     it('should not report delta when tokens unchanged', () => {
@@ -541,6 +737,9 @@ describe('DataCollector', () => {
           status: 'active',
           currentModel: 'k2p5',
           totalTokens: 1000,
+          inputTokens: 0,
+          outputTokens: 0,
+          cost: 0,
           contextPct: 10,
           lastActivity: new Date().toISOString(),
           sessions: [],
@@ -556,6 +755,9 @@ describe('DataCollector', () => {
           status: 'active',
           currentModel: 'k2p5',
           totalTokens: 1000,  // Unchanged
+          inputTokens: 0,
+          outputTokens: 0,
+          cost: 0,
           contextPct: 10,
           lastActivity: new Date().toISOString(),
           sessions: [],
@@ -577,6 +779,9 @@ describe('DataCollector', () => {
           status: 'active',
           currentModel: 'k2p5',
           totalTokens: 1000,
+          inputTokens: 0,
+          outputTokens: 0,
+          cost: 0,
           contextPct: 10,
           lastActivity: new Date().toISOString(),
           sessions: [],
@@ -602,6 +807,9 @@ describe('DataCollector', () => {
           status: 'active',
           currentModel: 'k2p5',
           totalTokens: 1000,
+          inputTokens: 0,
+          outputTokens: 0,
+          cost: 0,
           contextPct: 10,
           lastActivity: new Date().toISOString(),
           sessions: [],
@@ -617,6 +825,9 @@ describe('DataCollector', () => {
           status: 'active',
           currentModel: 'claude-sonnet',  // Changed model
           totalTokens: 1500,
+          inputTokens: 0,
+          outputTokens: 0,
+          cost: 0,
           contextPct: 10,
           lastActivity: new Date().toISOString(),
           sessions: [],
@@ -642,6 +853,9 @@ describe('DataCollector', () => {
           status: 'active',
           currentModel: 'k2p5',
           totalTokens: 1000,
+          inputTokens: 0,
+          outputTokens: 0,
+          cost: 0,
           contextPct: 10,
           lastActivity: new Date().toISOString(),
           sessions: [],
@@ -657,6 +871,9 @@ describe('DataCollector', () => {
           status: 'active',
           currentModel: 'k2p5',  // Same model
           totalTokens: 1500,
+          inputTokens: 0,
+          outputTokens: 0,
+          cost: 0,
           contextPct: 10,
           lastActivity: new Date().toISOString(),
           sessions: [],
@@ -671,6 +888,161 @@ describe('DataCollector', () => {
     });
   });
 
+  describe('Context window usage', () => {
+    const writeModels = () => {
+      writeFileSync(join(testDir, 'openclaw.json'), JSON.stringify({
+        models: {
+          providers: {
+            moonshot: { models: [{ id: 'k2p5', name: 'Kimi K2.5', reasoning: false, contextWindow: 200000, maxTokens: 8192 }] },
+            anthropic: { models: [{ id: 'claude-sonnet', name: 'Claude Sonnet', reasoning: true, contextWindow: 100000, maxTokens: 8192 }] }
+          }
+        }
+      }));
+    };
+
+    const writeSession = (agentName: string, model: string, totalTokens: number) => {
+      const sessionsDir = join(testDir, 'agents', agentName, 'sessions');
+      mkdirSync(sessionsDir, { recursive: true });
+      writeFileSync(join(sessionsDir, 'sessions.json'), JSON.stringify({
+        main: { sessionId: 'sess-1', updatedAt: Date.now(), model, totalTokens }
+      }));
+    };
+
+    it('should resolve bare, provider-qualified and display-name model ids', () => {
+      writeModels();
+
+      assert.strictEqual(collector.resolveModelConfig('k2p5')?.provider, 'moonshot');
+      assert.strictEqual(collector.resolveModelConfig('anthropic/claude-sonnet')?.contextWindow, 100000);
+      assert.strictEqual(collector.resolveModelConfig('openrouter/k2p5')?.id, 'k2p5');
+      assert.strictEqual(collector.resolveModelConfig('Kimi K2.5')?.id, 'k2p5');
+      assert.strictEqual(collector.resolveModelConfig('gpt-unknown'), null);
+    });
+
+    it('should compute contextPct from session tokens and the model context window', () => {
+      writeModels();
+      writeSession('test-agent', 'moonshot/k2p5', 50000);
+
+      const [state] = collector.collectAgentStates();
+
+      assert.strictEqual(state.contextPct, 25);
+    });
+
+    it('should fall back to the dashboard contextPct for unknown models', () => {
+      writeSession('test-agent', 'mystery-model', 50000);
+      writeFileSync(join(testDir, 'dashboard', 'data.json'), JSON.stringify({
+        sessions: [{ agent: 'test-agent', model: 'mystery-model', totalTokens: 50000, contextPct: 42, updatedAt: Date.now(), lastActivity: new Date().toISOString() }],
+        crons: [],
+        tokenUsage: []
+      }));
+
+      const [state] = collector.collectAgentStates();
+
+      assert.strictEqual(state.contextPct, 42);
+    });
+
+    it('should report the highest threshold crossed', () => {
+      writeModels();
+      writeSession('test-agent', 'claude-sonnet', 50000);
+      collector.takeSnapshot();
+
+      writeSession('test-agent', 'claude-sonnet', 96000);
+      const pressure = collector.detectContextPressure(collector.collectAgentStates());
+
+      assert.strictEqual(pressure.length, 1);
+      assert.strictEqual(pressure[0].threshold, 95);
+      assert.strictEqual(pressure[0].previousPct, 50);
+      assert.strictEqual(pressure[0].contextPct, 96);
+      assert.strictEqual(pressure[0].contextWindow, 100000);
+    });
+
+    it('should not report pressure again while usage stays above a threshold', () => {
+      writeModels();
+      writeSession('test-agent', 'claude-sonnet', 85000);
+      collector.takeSnapshot();
+
+      writeSession('test-agent', 'claude-sonnet', 90000);
+
+      assert.deepStrictEqual(collector.detectContextPressure(collector.collectAgentStates()), []);
+    });
+
+    it('should use configured thresholds', () => {
+      writeModels();
+      writeSession('test-agent', 'claude-sonnet', 60000);
+      const custom = new DataCollector(testDir, { contextPressureThresholds: [50] });
+
+      const pressure = custom.detectContextPressure(custom.collectAgentStates());
+
+      assert.deepStrictEqual(pressure.map(p => p.threshold), [50]);
+    });
+  });
+
+  describe('Cost accounting', () => {
+    const writeSessions = (agentName: string, sessions: Record<string, object>) => {
+      const sessionsDir = join(testDir, 'agents', agentName, 'sessions');
+      mkdirSync(sessionsDir, { recursive: true });
+      writeFileSync(join(sessionsDir, 'sessions.json'), JSON.stringify(sessions));
+    };
+
+    beforeEach(() => {
+      writeFileSync(join(testDir, 'openclaw.json'), JSON.stringify({
+        models: {
+          providers: {
+            moonshot: { models: [{ id: 'k2p5', name: 'Kimi K2.5', contextWindow: 256000, maxTokens: 8192, cost: { input: 1, output: 4 } }] }
+          }
+        }
+      }));
+    });
+
+    it('should sum input, output and cost across an agent\'s sessions', () => {
+      writeSessions('dev', {
+        a: { sessionId: 'sess-a', updatedAt: Date.now(), model: 'k2p5', inputTokens: 1_000_000, outputTokens: 250_000 },
+        b: { sessionId: 'sess-b', updatedAt: Date.now() - 1000, model: 'k2p5', inputTokens: 500_000, outputTokens: 0 }
+      });
+
+      const [state] = collector.collectAgentStates();
+
+      assert.strictEqual(state.inputTokens, 1_500_000);
+      assert.strictEqual(state.outputTokens, 250_000);
+      assert.strictEqual(state.cost, 2.5);
+    });
+
+    it('should break costs down per session and model in snapshots', () => {
+      writeSessions('dev', {
+        a: { sessionId: 'sess-a', updatedAt: Date.now(), model: 'k2p5', inputTokens: 1_000_000, outputTokens: 0 },
+        b: { sessionId: 'sess-b', updatedAt: Date.now(), model: 'mystery', inputTokens: 1000, outputTokens: 1000 }
+      });
+
+      const { costs } = collector.takeSnapshot();
+
+      assert.strictEqual(costs.totalCost, 1);
+      assert.deepStrictEqual(costs.bySession.map(s => [s.sessionId, s.cost]), [['sess-a', 1], ['sess-b', 0]]);
+      assert.deepStrictEqual(costs.byModel.map(m => m.model), ['k2p5', 'mystery']);
+      assert.deepStrictEqual(costs.unpricedModels, ['mystery']);
+    });
+
+    it('should let the pricing option override openclaw.json', () => {
+      writeSessions('dev', {
+        a: { sessionId: 'sess-a', updatedAt: Date.now(), model: 'k2p5', inputTokens: 1_000_000, outputTokens: 0 }
+      });
+      const priced = new DataCollector(testDir, { pricing: { 'moonshot/k2p5': { input: 3, output: 3 } } });
+
+      assert.strictEqual(priced.collectAgentStates()[0].cost, 3);
+    });
+
+    it('should report cost deltas between snapshots', () => {
+      writeSessions('dev', { a: { sessionId: 'sess-a', updatedAt: Date.now(), model: 'k2p5', inputTokens: 1_000_000 } });
+      collector.takeSnapshot();
+
+      writeSessions('dev', { a: { sessionId: 'sess-a', updatedAt: Date.now(), model: 'k2p5', inputTokens: 2_000_000 } });
+      const updates = collector.calculateCostDeltas(collector.collectAgentStates());
+
+      assert.strictEqual(updates.length, 1);
+      assert.strictEqual(updates[0].previousCost, 1);
+      assert.strictEqual(updates[0].currentCost, 2);
+      assert.strictEqual(updates[0].delta, 1);
+    });
+  });
+
   describe('Snapshot functionality', () => {
     it('should take a snapshot of current state', () => {
       // Create dashboard data
@@ -748,6 +1120,9 @@ describe('DataCollector', () => {
           status: 'active',
           currentModel: 'k2p5',
           totalTokens: 1000,
+          inputTokens: 0,
+          outputTokens: 0,
+          cost: 0,
           contextPct: 10,
           lastActivity: new Date().toISOString(),
           sessions: [],
@@ -763,5 +1138,66 @@ describe('DataCollector', () => {
       assert.ok(usage.some(u => u.toolName === 'write'));
       assert.ok(usage.some(u => u.toolName === 'exec'));
     });
+
+    it('should compute call counts, errors, last use and latency from session events', () => {
+      const sessionsDir = join(testDir, 'agents', 'test-agent', 'sessions');
+      mkdirSync(sessionsDir, { recursive: true });
+
+      const lines: string[] = [];
+      const durations = [100, 200, 300, 400, 1000];
+      durations.forEach((duration, i) => {
+        const start = Date.parse('2026-01-01T00:00:00.000Z') + i * 10000;
+        lines.push(JSON.stringify({ type: 'toolCall', id: `exec-${i}`, name: 'exec', timestamp: start }));
+        lines.push(JSON.stringify({
+          type: 'tool_result',
+          toolCallId: `exec-${i}`,
+          isError: i === 4,
+          timestamp: start + duration
+        }));
+      });
+      lines.push(JSON.stringify({ type: 'toolCall', id: 'read-1', name: 'read', timestamp: '2026-01-01T01:00:00.000Z' }));
+      writeFileSync(join(sessionsDir, 'session-1.jsonl'), lines.join('\n') + '\n');
+
+      const states = collector.collectAgentStates();
+      const usage = collector.getToolUsage(states);
+
+      assert.strictEqual(usage.length, 2);
+      assert.strictEqual(usage[0].toolName, 'exec');
+      assert.strictEqual(usage[0].callCount, 5);
+      assert.strictEqual(usage[0].errorCount, 1);
+      assert.strictEqual(usage[0].lastUsed, '2026-01-01T00:00:41.000Z');
+      assert.strictEqual(usage[0].p50LatencyMs, 300);
+      assert.strictEqual(usage[0].p95LatencyMs, 1000);
+
+      // Unanswered call still counts as a use
+      assert.strictEqual(usage[1].toolName, 'read');
+      assert.strictEqual(usage[1].callCount, 1);
+      assert.strictEqual(usage[1].lastUsed, '2026-01-01T01:00:00.000Z');
+      assert.strictEqual(usage[1].p50LatencyMs, null);
+    });
+
+    it('should report zero counts for tools without recorded calls', () => {
+      const usage = collector.getToolUsage([
+        {
+          agentId: 'agent:test-agent',
+          agentName: 'test-agent',
+          status: 'active',
+          currentModel: 'k2p5',
+          totalTokens: 1000,
+          inputTokens: 0,
+          outputTokens: 0,
+          cost: 0,
+          contextPct: 10,
+          lastActivity: new Date().toISOString(),
+          sessions: [],
+          toolsUsed: ['read'],
+          skills: []
+        }
+      ]);
+
+      assert.strictEqual(usage[0].callCount, 0);
+      assert.strictEqual(usage[0].errorCount, 0);
+      assert.strictEqual(usage[0].lastUsed, null);
+    });
   });
 });
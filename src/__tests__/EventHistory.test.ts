@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { AgentEvent } from '../shared/protocol.js';
+import { EventHistory } from '../server/EventHistory.js';
+
+function event(agentId: string): AgentEvent {
+  return {
+    timestamp: new Date().toISOString(),
+    agentId,
+    eventType: 'token_update',
+    payload: { previousTokens: 0, currentTokens: 10, delta: 10, inputDelta: 6, outputDelta: 4 }
+  };
+}
+
+describe('EventHistory', () => {
+  it('should assign monotonically increasing sequence ids', () => {
+    const history = new EventHistory(10);
+
+    const first = history.record(event('a'));
+    const second = history.record(event('b'));
+
+    assert.strictEqual(first.seq, 1);
+    assert.strictEqual(second.seq, 2);
+    assert.strictEqual(history.getLastSeq(), 2);
+  });
+
+  it('should return events after a sequence id', () => {
+    const history = new EventHistory(10);
+    for (const id of ['a', 'b', 'c']) history.record(event(id));
+
+    const missed = history.since(1);
+
+    assert.deepStrictEqual(missed?.map(e => e.agentId), ['b', 'c']);
+  });
+
+  it('should return nothing when the client is up to date', () => {
+    const history = new EventHistory(10);
+    history.record(event('a'));
+
+    assert.deepStrictEqual(history.since(1), []);
+    assert.deepStrictEqual(new EventHistory(10).since(0), []);
+  });
+
+  it('should evict the oldest events beyond capacity', () => {
+    const history = new EventHistory(3);
+    for (const id of ['a', 'b', 'c', 'd', 'e']) history.record(event(id));
+
+    assert.strictEqual(history.getSize(), 3);
+    assert.strictEqual(history.getOldestSeq(), 3);
+    assert.deepStrictEqual(history.since(2)?.map(e => e.agentId), ['c', 'd', 'e']);
+  });
+
+  it('should report a gap when missed events were evicted', () => {
+    const history = new EventHistory(3);
+    for (const id of ['a', 'b', 'c', 'd', 'e']) history.record(event(id));
+
+    assert.strictEqual(history.since(1), null);
+  });
+
+  it('should report a gap for cursors from another server lifetime', () => {
+    const history = new EventHistory(10);
+    for (const id of ['a', 'b', 'c']) history.record(event(id));
+
+    assert.deepStrictEqual(history.since(1, history.getEpoch())?.map(e => e.agentId), ['b', 'c']);
+    assert.strictEqual(history.since(1, new EventHistory(10).getEpoch()), null);
+  });
+
+  it('should report a gap for cursors ahead of the history', () => {
+    const history = new EventHistory(3);
+    history.record(event('a'));
+
+    assert.strictEqual(history.since(5), null);
+  });
+});
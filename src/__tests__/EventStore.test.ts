@@ -0,0 +1,126 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdirSync, writeFileSync, readdirSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { AgentEvent } from '../shared/protocol.js';
+import { EventStore } from '../server/EventStore.js';
+import type { CostSummary } from '../shared/types.js';
+
+const noCosts: CostSummary = { currency: 'USD', totalCost: 0, byAgent: [], byModel: [], bySession: [], unpricedModels: [] };
+
+function event(agentId: string, eventType: AgentEvent['eventType'], timestamp: string): AgentEvent {
+  // The store never looks inside payloads
+  return { timestamp, agentId, eventType, payload: {} } as AgentEvent;
+}
+
+describe('EventStore', () => {
+  let testDir: string;
+  let store: EventStore;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `event-store-test-${Date.now()}`);
+    store = new EventStore({ directory: testDir, retentionDays: 3650 });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('Persistence', () => {
+    it('should write events into daily segments', () => {
+      store.appendEvent(event('agent:a', 'tool_called', '2026-01-01T23:00:00.000Z'));
+      store.appendEvent(event('agent:a', 'tool_called', '2026-01-02T01:00:00.000Z'));
+
+      assert.deepStrictEqual(readdirSync(testDir).sort(), ['events-2026-01-01.jsonl', 'events-2026-01-02.jsonl']);
+    });
+
+    it('should survive a new store instance on the same directory', () => {
+      store.appendEvent(event('agent:a', 'tool_called', '2026-01-01T00:00:00.000Z'));
+
+      const reopened = new EventStore({ directory: testDir, retentionDays: 3650 });
+
+      assert.strictEqual(reopened.queryEvents().length, 1);
+    });
+
+    it('should store and query snapshots', () => {
+      store.appendSnapshot({ timestamp: '2026-01-01T00:00:00.000Z', agents: [], totalSessions: 0, totalTokens: 10, costs: noCosts });
+      store.appendSnapshot({ timestamp: '2026-01-01T01:00:00.000Z', agents: [], totalSessions: 0, totalTokens: 20, costs: noCosts });
+
+      const snapshots = store.querySnapshots({ from: '2026-01-01T00:30:00.000Z' });
+
+      assert.deepStrictEqual(snapshots.map(s => s.totalTokens), [20]);
+    });
+  });
+
+  describe('Queries', () => {
+    beforeEach(() => {
+      store.appendEvent(event('agent:a', 'tool_called', '2026-01-01T22:00:00.000Z'));
+      store.appendEvent(event('agent:b', 'tool_called', '2026-01-01T23:00:00.000Z'));
+      store.appendEvent(event('agent:a', 'token_update', '2026-01-02T02:00:00.000Z'));
+      store.appendEvent(event('agent:a', 'agent_ended', '2026-01-02T06:00:00.000Z'));
+    });
+
+    it('should filter by time range across segments', () => {
+      const events = store.queryEvents({ from: '2026-01-01T22:30:00.000Z', to: '2026-01-02T03:00:00.000Z' });
+
+      assert.deepStrictEqual(events.map(e => e.timestamp), [
+        '2026-01-01T23:00:00.000Z',
+        '2026-01-02T02:00:00.000Z'
+      ]);
+    });
+
+    it('should treat bounds outside the Date range as open-ended', () => {
+      assert.deepStrictEqual(store.queryEvents({ from: 1e17 }), []);
+      assert.deepStrictEqual(store.queryEvents({ to: -1e17 }), []);
+      assert.strictEqual(store.queryEvents({ from: -1e17, to: 1e17 }).length, 4);
+    });
+
+    it('should filter by agent and event type', () => {
+      const events = store.queryEvents({ agentId: 'agent:a', eventTypes: ['tool_called', 'agent_ended'] });
+
+      assert.deepStrictEqual(events.map(e => e.eventType), ['tool_called', 'agent_ended']);
+    });
+
+    it('should keep the most recent results when limited', () => {
+      const events = store.queryEvents({ limit: 2 });
+
+      assert.deepStrictEqual(events.map(e => e.eventType), ['token_update', 'agent_ended']);
+    });
+
+    it('should skip corrupt lines', () => {
+      writeFileSync(join(testDir, 'events-2026-01-03.jsonl'), 'garbage\n{"timestamp":"2026-01-03T00:00:00.000Z","agentId":"agent:c","eventType":"heartbeat","payload":{}}\n');
+
+      const events = store.queryEvents({ agentId: 'agent:c' });
+
+      assert.strictEqual(events.length, 1);
+    });
+  });
+
+  describe('Retention', () => {
+    it('should delete segments older than the retention window', () => {
+      const retained = new EventStore({ directory: testDir, retentionDays: 2 });
+      mkdirSync(testDir, { recursive: true });
+      writeFileSync(join(testDir, 'events-2026-01-01.jsonl'), '');
+      writeFileSync(join(testDir, 'snapshots-2026-01-01.jsonl'), '');
+      writeFileSync(join(testDir, 'events-2026-01-09.jsonl'), '');
+
+      retained.enforceRetention(Date.parse('2026-01-10T00:00:00.000Z'));
+
+      assert.deepStrictEqual(readdirSync(testDir), ['events-2026-01-09.jsonl']);
+    });
+
+    it('should delete the oldest segments when over the size limit', () => {
+      const bounded = new EventStore({ directory: testDir, retentionDays: 3650, maxBytes: 150 });
+      mkdirSync(testDir, { recursive: true });
+      writeFileSync(join(testDir, 'events-2026-01-01.jsonl'), 'x'.repeat(100));
+      writeFileSync(join(testDir, 'events-2026-01-02.jsonl'), 'x'.repeat(100));
+
+      bounded.enforceRetention(Date.parse('2026-01-02T00:00:00.000Z'));
+
+      assert.deepStrictEqual(readdirSync(testDir), ['events-2026-01-02.jsonl']);
+    });
+  });
+});
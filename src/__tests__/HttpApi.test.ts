@@ -0,0 +1,265 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { createServer, type Server } from 'node:http';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { WebSocketServer } from 'ws';
+import WebSocket from 'ws';
+import { AgentActivityStreamer } from '../server/AgentActivityStreamer.js';
+import type { AgentEvent } from '../shared/protocol.js';
+import { EventStore } from '../server/EventStore.js';
+import { HttpApi } from '../server/HttpApi.js';
+
+describe('HttpApi', () => {
+  const TEST_PORT = 13603;
+  const BASE_URL = `http://localhost:${TEST_PORT}`;
+  let testDir: string;
+  let streamer: AgentActivityStreamer;
+  let server: Server;
+  let wss: WebSocketServer;
+
+  before(async () => {
+    testDir = join(tmpdir(), `http-api-test-${Date.now()}`);
+    const sessionsDir = join(testDir, 'agents', 'dev', 'sessions');
+    mkdirSync(sessionsDir, { recursive: true });
+    writeFileSync(join(sessionsDir, 'sessions.json'), JSON.stringify({
+      main: { sessionId: 'sess-1', updatedAt: Date.now(), model: 'k2p5', totalTokens: 1200 },
+      old: { sessionId: 'sess-0', updatedAt: Date.now() - 60000, model: 'k2p5', totalTokens: 300 }
+    }));
+    writeFileSync(join(sessionsDir, 'sess-1.jsonl'), [
+      { type: 'message', timestamp: '2026-01-01T00:00:00.000Z', message: { role: 'user', content: 'list files' } },
+      { type: 'toolCall', id: 'c1', name: 'exec', timestamp: '2026-01-01T00:00:01.000Z' },
+      { type: 'tool_result', toolCallId: 'c1', toolName: 'exec', timestamp: '2026-01-01T00:00:02.500Z' }
+    ].map(event => JSON.stringify(event)).join('\n') + '\n');
+    writeFileSync(join(testDir, 'openclaw.json'), JSON.stringify({
+      models: {
+        providers: {
+          moonshot: {
+            models: [{ id: 'k2p5', name: 'Kimi K2.5', reasoning: false, contextWindow: 256000, maxTokens: 8192 }]
+          }
+        }
+      }
+    }));
+
+    streamer = new AgentActivityStreamer(testDir, {
+      eventStore: new EventStore({ directory: join(testDir, 'history') })
+    });
+    const api = new HttpApi(streamer);
+    server = createServer((req, res) => api.handleRequest(req, res));
+    wss = new WebSocketServer({ server });
+    wss.on('connection', (ws) => {
+      streamer.addClient(ws);
+    });
+
+    await new Promise<void>((resolve) => server.listen(TEST_PORT, resolve));
+  });
+
+  after(async () => {
+    streamer.stop();
+    wss.close();
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should report health', async () => {
+    const res = await fetch(`${BASE_URL}/api/health`);
+    const body = await res.json();
+
+    assert.strictEqual(res.status, 200);
+    assert.strictEqual(body.status, 'ok');
+    assert.strictEqual(typeof body.connectedClients, 'number');
+  });
+
+  it('should return the current snapshot', async () => {
+    const body = await (await fetch(`${BASE_URL}/api/snapshot`)).json();
+
+    assert.strictEqual(body.agents.length, 1);
+    assert.strictEqual(body.totalTokens, 1200);
+  });
+
+  it('should return a single agent by id or name', async () => {
+    const byId = await (await fetch(`${BASE_URL}/api/agents/${encodeURIComponent('agent:dev')}`)).json();
+    const byName = await (await fetch(`${BASE_URL}/api/agents/dev`)).json();
+
+    assert.strictEqual(byId.agentId, 'agent:dev');
+    assert.strictEqual(byName.currentModel, 'k2p5');
+    assert.deepStrictEqual(byId.aliases, ['dev']);
+  });
+
+  it('should answer 404 for unknown agents and routes', async () => {
+    const agent = await fetch(`${BASE_URL}/api/agents/nobody`);
+    const route = await fetch(`${BASE_URL}/api/nothing`);
+
+    assert.strictEqual(agent.status, 404);
+    assert.ok((await agent.json()).error);
+    assert.strictEqual(route.status, 404);
+    await route.body?.cancel();
+  });
+
+  it('should reject non-GET methods', async () => {
+    const res = await fetch(`${BASE_URL}/api/snapshot`, { method: 'POST' });
+
+    assert.strictEqual(res.status, 405);
+    await res.body?.cancel();
+  });
+
+  it('should list agent sessions newest first', async () => {
+    const sessions = await (await fetch(`${BASE_URL}/api/agents/dev/sessions`)).json();
+
+    assert.deepStrictEqual(sessions.map((s: { sessionId: string }) => s.sessionId), ['sess-1', 'sess-0']);
+  });
+
+  it('should return a session timeline and 404 for sessions without a log', async () => {
+    const timeline = await (await fetch(`${BASE_URL}/api/agents/dev/sessions/sess-1/timeline`)).json();
+    const missing = await fetch(`${BASE_URL}/api/agents/dev/sessions/sess-0/timeline`);
+
+    assert.strictEqual(timeline.sessionId, 'sess-1');
+    assert.deepStrictEqual(timeline.entries.map((e: { kind: string }) => e.kind), ['message', 'tool_call']);
+    assert.strictEqual(timeline.entries[1].durationMs, 1500);
+    assert.strictEqual(missing.status, 404);
+    await missing.body?.cancel();
+  });
+
+  it('should page through a session timeline from the newest entries', async () => {
+    const timelinePath = `${BASE_URL}/api/agents/dev/sessions/sess-1/timeline`;
+    const latest = await (await fetch(`${timelinePath}?limit=1`)).json();
+    const earlier = await (await fetch(`${timelinePath}?before=${latest.offset}&limit=1`)).json();
+
+    assert.deepStrictEqual([latest.offset, latest.totalEntries], [1, 2]);
+    assert.deepStrictEqual(latest.entries.map((e: { kind: string }) => e.kind), ['tool_call']);
+    assert.deepStrictEqual([earlier.offset, earlier.entries[0].preview], [0, 'list files']);
+  });
+
+  it('should redact secrets in responses read from the session logs', async () => {
+    const sessionsDir = join(testDir, 'agents', 'dev', 'sessions');
+    const secret = 'abcdef0123456789abcdef';
+    writeFileSync(join(sessionsDir, 'sess-2.jsonl'), [
+      { type: 'message', timestamp: '2026-01-01T00:00:00.000Z', message: { role: 'user', content: `use Bearer ${secret}` } },
+      {
+        type: 'toolCall',
+        id: 'c1',
+        name: 'exec',
+        arguments: { command: `curl -H 'Authorization: Bearer ${secret}' https://example.com` },
+        timestamp: '2026-01-01T00:00:01.000Z'
+      }
+    ].map(event => JSON.stringify(event)).join('\n') + '\n');
+
+    const res = await fetch(`${BASE_URL}/api/agents/dev/sessions/sess-2/timeline`);
+    const text = await res.text();
+
+    assert.strictEqual(res.status, 200);
+    assert.ok(!text.includes(secret));
+    const timeline = JSON.parse(text);
+    assert.strictEqual(timeline.entries[0].preview, 'use Bearer [REDACTED]');
+    assert.match(timeline.entries[1].arguments, /Bearer \[REDACTED\]/);
+    assert.strictEqual(timeline.sessionId, 'sess-2');
+  });
+
+  it('should return token history for a window and reject unknown windows', async () => {
+    const history = await (await fetch(`${BASE_URL}/api/tokens/history?window=15m&agentId=dev`)).json();
+    const invalid = await fetch(`${BASE_URL}/api/tokens/history?window=1w`);
+
+    assert.strictEqual(history.window, '15m');
+    assert.strictEqual(history.bucketMs, 30000);
+    assert.strictEqual(history.aggregate.length, 30);
+    assert.strictEqual(invalid.status, 400);
+    await invalid.body?.cancel();
+  });
+
+  it('should list models from openclaw.json with their provider', async () => {
+    const models = await (await fetch(`${BASE_URL}/api/models`)).json();
+
+    assert.strictEqual(models.length, 1);
+    assert.strictEqual(models[0].id, 'k2p5');
+    assert.strictEqual(models[0].provider, 'moonshot');
+    assert.strictEqual(models[0].contextWindow, 256000);
+  });
+
+  it('should return the cost breakdown', async () => {
+    const costs = await (await fetch(`${BASE_URL}/api/costs`)).json();
+
+    assert.strictEqual(costs.currency, 'USD');
+    assert.deepStrictEqual(costs.bySession.map((s: { sessionId: string }) => s.sessionId).sort(), ['sess-0', 'sess-1']);
+  });
+
+  it('should query persisted events', async () => {
+    for (const agentId of ['agent:dev', 'agent:ops']) {
+      streamer.broadcast({ timestamp: new Date().toISOString(), agentId, eventType: 'tool_called', payload: {} } as AgentEvent);
+    }
+
+    const events = await (await fetch(`${BASE_URL}/api/events?agentId=agent:dev&eventType=tool_called`)).json();
+
+    assert.strictEqual(events.length, 1);
+    assert.strictEqual(events[0].agentId, 'agent:dev');
+  });
+
+  it('should answer 400 for malformed path escapes', async () => {
+    const res = await fetch(`${BASE_URL}/api/agents/%E0%A4%A`);
+
+    assert.strictEqual(res.status, 400);
+  });
+
+  it('should answer event queries with out-of-range bounds', async () => {
+    const res = await fetch(`${BASE_URL}/api/events?from=100000000000000000`);
+
+    assert.strictEqual(res.status, 200);
+    assert.deepStrictEqual(await res.json(), []);
+  });
+
+  it('should accept WebSocket upgrades on the same port', async () => {
+    const ws = new WebSocket(`ws://localhost:${TEST_PORT}/ws`);
+
+    const message = await new Promise<AgentEvent>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('Timeout')), 1000);
+      ws.on('message', (data) => {
+        clearTimeout(timeout);
+        resolve(JSON.parse(data.toString()));
+      });
+      ws.on('error', reject);
+    });
+
+    assert.strictEqual(message.eventType, 'snapshot');
+    ws.close();
+  });
+
+  describe('with access tokens', () => {
+    const AUTH_PORT = TEST_PORT + 1;
+    let authStreamer: AgentActivityStreamer;
+    let authServer: Server;
+
+    before(async () => {
+      authStreamer = new AgentActivityStreamer(testDir, {
+        accessTokens: [{ token: 'viewer-token', role: 'viewer' }]
+      });
+      const api = new HttpApi(authStreamer);
+      authServer = createServer((req, res) => api.handleRequest(req, res));
+      await new Promise<void>((resolve) => authServer.listen(AUTH_PORT, resolve));
+    });
+
+    after(async () => {
+      authStreamer.stop();
+      await new Promise((resolve) => authServer.close(resolve));
+    });
+
+    it('should answer 401 without a valid token', async () => {
+      const missing = await fetch(`http://localhost:${AUTH_PORT}/api/snapshot`);
+      const wrong = await fetch(`http://localhost:${AUTH_PORT}/api/snapshot`, { headers: { Authorization: 'Bearer wrong' } });
+
+      assert.strictEqual(missing.status, 401);
+      assert.strictEqual(wrong.status, 401);
+    });
+
+    it('should accept a bearer header or token parameter', async () => {
+      const header = await fetch(`http://localhost:${AUTH_PORT}/api/agents`, { headers: { Authorization: 'Bearer viewer-token' } });
+      const query = await fetch(`http://localhost:${AUTH_PORT}/api/agents?token=viewer-token`);
+
+      assert.strictEqual(header.status, 200);
+      assert.strictEqual(query.status, 200);
+    });
+
+    it('should leave health open', async () => {
+      assert.strictEqual((await fetch(`http://localhost:${AUTH_PORT}/api/health`)).status, 200);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdirSync, writeFileSync, appendFileSync, renameSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { JsonlTailer } from '../server/JsonlTailer.js';
+
+describe('JsonlTailer', () => {
+  let testDir: string;
+  let filePath: string;
+  let tailer: JsonlTailer<{ n: number; text?: string }>;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `jsonl-tailer-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    filePath = join(testDir, 'session.jsonl');
+    tailer = new JsonlTailer();
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('Incremental reads', () => {
+    it('should read all complete lines on first read', () => {
+      writeFileSync(filePath, '{"n":1}\n{"n":2}\n');
+
+      const { records, reset } = tailer.read(filePath);
+
+      assert.deepStrictEqual(records, [{ n: 1 }, { n: 2 }]);
+      assert.strictEqual(reset, false);
+    });
+
+    it('should only return newly appended lines', () => {
+      writeFileSync(filePath, '{"n":1}\n');
+      tailer.read(filePath);
+
+      appendFileSync(filePath, '{"n":2}\n{"n":3}\n');
+      const { records } = tailer.read(filePath);
+
+      assert.deepStrictEqual(records, [{ n: 2 }, { n: 3 }]);
+    });
+
+    it('should return nothing when file is unchanged', () => {
+      writeFileSync(filePath, '{"n":1}\n');
+      tailer.read(filePath);
+
+      const { records } = tailer.read(filePath);
+
+      assert.strictEqual(records.length, 0);
+    });
+
+    it('should skip invalid JSON lines', () => {
+      writeFileSync(filePath, '{"n":1}\nnot json\n{"n":2}\n');
+
+      const { records } = tailer.read(filePath);
+
+      assert.deepStrictEqual(records, [{ n: 1 }, { n: 2 }]);
+    });
+
+    it('should return empty results for non-existent file', () => {
+      const { records, reset } = tailer.read(join(testDir, 'missing.jsonl'));
+
+      assert.strictEqual(records.length, 0);
+      assert.strictEqual(reset, false);
+    });
+  });
+
+  describe('Partial trailing lines', () => {
+    it('should hold back a partial trailing line until it is completed', () => {
+      writeFileSync(filePath, '{"n":1}\n{"n":');
+
+      const first = tailer.read(filePath);
+      assert.deepStrictEqual(first.records, [{ n: 1 }]);
+
+      appendFileSync(filePath, '2}\n');
+      const second = tailer.read(filePath);
+      assert.deepStrictEqual(second.records, [{ n: 2 }]);
+    });
+
+    it('should consume a complete object without trailing newline exactly once', () => {
+      writeFileSync(filePath, '{"n":1}');
+
+      const first = tailer.read(filePath);
+      assert.deepStrictEqual(first.records, [{ n: 1 }]);
+
+      appendFileSync(filePath, '\n{"n":2}\n');
+      const second = tailer.read(filePath);
+      assert.deepStrictEqual(second.records, [{ n: 2 }]);
+    });
+
+    it('should reassemble lines split across read chunks', () => {
+      const smallTailer = new JsonlTailer<{ n: number; text?: string }>(4);
+      writeFileSync(filePath, '{"n":1,"text":"héllo wörld"}\n{"n":2}\n');
+
+      const { records } = smallTailer.read(filePath);
+
+      assert.deepStrictEqual(records, [{ n: 1, text: 'héllo wörld' }, { n: 2 }]);
+    });
+  });
+
+  describe('Truncation and rotation', () => {
+    it('should re-read from the start after truncation', () => {
+      writeFileSync(filePath, '{"n":1}\n{"n":2}\n');
+      tailer.read(filePath);
+
+      writeFileSync(filePath, '{"n":3}\n');
+      const { records, reset } = tailer.read(filePath);
+
+      assert.strictEqual(reset, true);
+      assert.deepStrictEqual(records, [{ n: 3 }]);
+    });
+
+    it('should re-read from the start after rotation', () => {
+      writeFileSync(filePath, '{"n":1}\n');
+      tailer.read(filePath);
+
+      const rotatedPath = join(testDir, 'session.jsonl.new');
+      writeFileSync(rotatedPath, '{"n":10}\n{"n":11}\n');
+      renameSync(rotatedPath, filePath);
+      const { records, reset } = tailer.read(filePath);
+
+      assert.strictEqual(reset, true);
+      assert.deepStrictEqual(records, [{ n: 10 }, { n: 11 }]);
+    });
+
+    it('should start over after clear()', () => {
+      writeFileSync(filePath, '{"n":1}\n');
+      tailer.read(filePath);
+
+      tailer.clear();
+      const { records } = tailer.read(filePath);
+
+      assert.deepStrictEqual(records, [{ n: 1 }]);
+      assert.strictEqual(tailer.getOffset(filePath), 8);
+    });
+  });
+});
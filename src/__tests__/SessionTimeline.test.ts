@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { SessionTimelineBuilder, buildSessionTimeline } from '../server/SessionTimeline.js';
+import type { TimelineToolCall } from '../shared/types.js';
+
+describe('buildSessionTimeline', () => {
+  it('should pair tool calls with their results and record durations', () => {
+    const timeline = buildSessionTimeline('agent:dev', 'sess-1', [
+      { type: 'toolCall', id: 'c1', name: 'exec', arguments: { cmd: 'ls' }, timestamp: '2026-01-01T00:00:00.000Z' },
+      { type: 'toolCall', id: 'c2', name: 'read', timestamp: '2026-01-01T00:00:01.000Z' },
+      { type: 'tool_result', toolCallId: 'c2', toolName: 'read', isError: true, timestamp: '2026-01-01T00:00:01.200Z' },
+      { type: 'tool_result', toolCallId: 'c1', toolName: 'exec', timestamp: '2026-01-01T00:00:03.000Z' }
+    ]);
+
+    const calls = timeline.entries as TimelineToolCall[];
+    assert.deepStrictEqual(calls.map(c => [c.toolName, c.status, c.durationMs]), [
+      ['exec', 'success', 3000],
+      ['read', 'error', 200]
+    ]);
+    assert.strictEqual(timeline.startedAt, '2026-01-01T00:00:00.000Z');
+    assert.strictEqual(timeline.endedAt, '2026-01-01T00:00:03.000Z');
+  });
+
+  it('should keep unanswered calls pending and orphan results as their own entries', () => {
+    const timeline = buildSessionTimeline('agent:dev', 'sess-1', [
+      { type: 'tool_result', toolCallId: 'old', toolName: 'write', timestamp: '2026-01-01T00:00:00.000Z' },
+      { type: 'toolCall', id: 'c1', name: 'exec', timestamp: '2026-01-01T00:00:01.000Z' }
+    ]);
+
+    const [orphan, pending] = timeline.entries as TimelineToolCall[];
+    assert.strictEqual(orphan.toolName, 'write');
+    assert.strictEqual(orphan.startedAt, null);
+    assert.strictEqual(pending.status, 'pending');
+    assert.strictEqual(pending.completedAt, null);
+  });
+
+  it('should complete calls whose results arrive in a later batch', () => {
+    const builder = new SessionTimelineBuilder('agent:dev', 'sess-1');
+    builder.ingest([{ type: 'toolCall', id: 'c1', name: 'exec', timestamp: '2026-01-01T00:00:00.000Z' }]);
+    const before = builder.getTimeline().entries[0] as TimelineToolCall;
+
+    builder.ingest([{ type: 'tool_result', toolCallId: 'c1', toolName: 'exec', timestamp: '2026-01-01T00:00:02.000Z' }]);
+    const after = builder.getTimeline();
+
+    assert.strictEqual(before.status, 'pending');
+    assert.deepStrictEqual(after.entries.map(e => e.kind === 'tool_call' && [e.status, e.durationMs]), [['success', 2000]]);
+    assert.strictEqual(after.endedAt, '2026-01-01T00:00:02.000Z');
+  });
+
+  it('should return the newest entries before a cursor', () => {
+    const events = Array.from({ length: 5 }, (_, i) => ({
+      type: 'message',
+      timestamp: `2026-01-01T00:00:0${i}.000Z`,
+      message: { role: 'user', content: `m${i}` }
+    }));
+
+    const latest = buildSessionTimeline('agent:dev', 'sess-1', events, { limit: 2 });
+    const earlier = buildSessionTimeline('agent:dev', 'sess-1', events, { before: latest.offset, limit: 2 });
+
+    assert.deepStrictEqual([latest.offset, latest.totalEntries], [3, 5]);
+    assert.deepStrictEqual(latest.entries.map(e => e.kind === 'message' && e.preview), ['m3', 'm4']);
+    assert.deepStrictEqual(earlier.entries.map(e => e.kind === 'message' && e.preview), ['m1', 'm2']);
+    assert.strictEqual(latest.startedAt, '2026-01-01T00:00:00.000Z');
+  });
+
+  it('should record model switches and message previews in order', () => {
+    const timeline = buildSessionTimeline('agent:dev', 'sess-1', [
+      { type: 'model_change', modelId: 'k2p5', timestamp: '2026-01-01T00:00:00.000Z' },
+      { type: 'message', timestamp: '2026-01-01T00:00:01.000Z', message: { role: 'user', content: 'hello\n  there' } },
+      {
+        type: 'message',
+        timestamp: '2026-01-01T00:00:02.000Z',
+        message: { role: 'assistant', model: 'opus', content: [{ type: 'text', text: 'x'.repeat(300) }] }
+      },
+      { type: 'message', timestamp: '2026-01-01T00:00:03.000Z', message: { role: 'assistant', model: 'opus', content: 'again' } }
+    ]);
+
+    assert.deepStrictEqual(timeline.entries.map(e => e.kind), ['model_switch', 'message', 'model_switch', 'message', 'message']);
+    assert.deepStrictEqual(timeline.entries[2], {
+      kind: 'model_switch',
+      timestamp: '2026-01-01T00:00:02.000Z',
+      previousModel: 'k2p5',
+      model: 'opus'
+    });
+    const [, greeting, , long] = timeline.entries;
+    assert.strictEqual(greeting.kind === 'message' && greeting.preview, 'hello there');
+    assert.strictEqual(long.kind === 'message' && long.preview.length, 201);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { TokenHistory, isTokenHistoryWindow } from '../server/TokenHistory.js';
+
+describe('TokenHistory', () => {
+  const NOW = Date.UTC(2026, 0, 1, 12, 0, 0);
+  const MINUTE = 60 * 1000;
+  let history: TokenHistory;
+
+  beforeEach(() => {
+    history = new TokenHistory();
+  });
+
+  it('should return one point per bucket for each window', () => {
+    assert.strictEqual(history.query('15m', undefined, NOW).aggregate.length, 30);
+    assert.strictEqual(history.query('1h', undefined, NOW).aggregate.length, 60);
+    assert.strictEqual(history.query('24h', undefined, NOW).aggregate.length, 96);
+  });
+
+  it('should report rates in tokens per minute', () => {
+    history.record({ agentId: 'agent:a', time: NOW - 10 * 1000, total: 300, input: 200, output: 100 });
+
+    const fine = history.query('15m', undefined, NOW);
+    const coarse = history.query('24h', undefined, NOW);
+
+    // 300 tokens in a 30 second bucket, and in a 15 minute bucket
+    const bucket = fine.aggregate.find(point => point.total > 0);
+    assert.deepStrictEqual(bucket && [bucket.timestamp, bucket.total, bucket.input, bucket.output], [
+      new Date(NOW - 30 * 1000).toISOString(), 600, 400, 200
+    ]);
+    assert.strictEqual(coarse.aggregate.find(point => point.total > 0)?.total, 20);
+  });
+
+  it('should sum agents into the aggregate and filter by agent', () => {
+    history.record({ agentId: 'agent:a', time: NOW - 2 * MINUTE, total: 100 });
+    history.record({ agentId: 'agent:b', time: NOW - 2 * MINUTE, total: 50 });
+
+    const all = history.query('1h', undefined, NOW);
+    const one = history.query('1h', ['agent:b'], NOW);
+
+    assert.deepStrictEqual(Object.keys(all.agents).sort(), ['agent:a', 'agent:b']);
+    assert.strictEqual(all.aggregate.reduce((sum, point) => sum + point.total, 0), 150);
+    assert.deepStrictEqual(Object.keys(one.agents), ['agent:b']);
+    assert.strictEqual(one.aggregate.reduce((sum, point) => sum + point.total, 0), 50);
+  });
+
+  it('should ignore negative deltas and drop usage older than a day', () => {
+    history.record({ agentId: 'agent:a', time: NOW - MINUTE, total: -500 });
+    history.record({ agentId: 'agent:b', time: NOW - 25 * 60 * MINUTE, total: 100 });
+
+    assert.deepStrictEqual(history.query('24h', undefined, NOW).agents, {});
+  });
+
+  it('should drop old buckets as new ones are recorded, without a query', () => {
+    history.record({ agentId: 'agent:a', time: NOW - 25 * 60 * MINUTE, total: 100 });
+    history.record({ agentId: 'agent:b', time: NOW, total: 50 });
+
+    const usage = (history as unknown as { usage: Map<string, unknown> }).usage;
+    assert.deepStrictEqual([...usage.keys()], ['agent:b']);
+  });
+
+  it('should recognise supported windows', () => {
+    assert.ok(isTokenHistoryWindow('24h'));
+    assert.ok(!isTokenHistoryWindow('7d'));
+    assert.ok(!isTokenHistoryWindow('toString'));
+  });
+});
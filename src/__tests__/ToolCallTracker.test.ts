@@ -0,0 +1,148 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { ToolCallTracker } from '../server/ToolCallTracker.js';
+
+describe('ToolCallTracker', () => {
+  let tracker: ToolCallTracker;
+
+  beforeEach(() => {
+    tracker = new ToolCallTracker({ maxArgumentLength: 20 });
+  });
+
+  describe('Call/result pairing', () => {
+    it('should pair toolCall and tool_result events by id', () => {
+      const records = tracker.ingest('agent:a', 'sess-1', [
+        { type: 'toolCall', id: 'call-1', name: 'exec', arguments: { cmd: 'ls' }, timestamp: '2026-01-01T00:00:00.000Z' },
+        { type: 'toolCall', id: 'call-2', name: 'read', timestamp: '2026-01-01T00:00:01.000Z' },
+        { type: 'tool_result', toolCallId: 'call-2', toolName: 'read', timestamp: '2026-01-01T00:00:01.500Z' },
+        { type: 'tool_result', toolCallId: 'call-1', toolName: 'exec', timestamp: '2026-01-01T00:00:03.000Z' }
+      ]);
+
+      assert.strictEqual(records.length, 2);
+      assert.strictEqual(records[0].callId, 'call-2');
+      assert.strictEqual(records[0].toolName, 'read');
+      assert.strictEqual(records[0].durationMs, 500);
+      assert.strictEqual(records[1].callId, 'call-1');
+      assert.strictEqual(records[1].toolName, 'exec');
+      assert.strictEqual(records[1].durationMs, 3000);
+      assert.strictEqual(records[1].arguments, '{"cmd":"ls"}');
+      assert.strictEqual(records[1].status, 'success');
+    });
+
+    it('should pair calls and results read in separate batches', () => {
+      const first = tracker.ingest('agent:a', 'sess-1', [
+        { type: 'toolCall', id: 'call-1', name: 'exec', timestamp: 1000 }
+      ]);
+      assert.strictEqual(first.length, 0);
+      assert.strictEqual(tracker.getPendingCalls('agent:a').length, 1);
+
+      const second = tracker.ingest('agent:a', 'sess-1', [
+        { type: 'tool_result', toolCallId: 'call-1', timestamp: 1250 }
+      ]);
+      assert.strictEqual(second.length, 1);
+      assert.strictEqual(second[0].toolName, 'exec');
+      assert.strictEqual(second[0].durationMs, 250);
+      assert.strictEqual(tracker.getPendingCalls('agent:a').length, 0);
+    });
+
+    it('should pair message.tool_calls with tool-role messages', () => {
+      const records = tracker.ingest('agent:a', 'sess-1', [
+        {
+          type: 'message',
+          timestamp: 1000,
+          message: {
+            role: 'assistant',
+            tool_calls: [
+              { id: 'c1', function: { name: 'read', arguments: '{"path":"a"}' } },
+              { id: 'c2', name: 'exec' }
+            ]
+          }
+        },
+        { type: 'message', timestamp: 1100, message: { role: 'tool', tool_call_id: 'c1' } },
+        { type: 'message', timestamp: 1400, message: { role: 'toolResult', toolCallId: 'c2', isError: true } }
+      ]);
+
+      assert.strictEqual(records.length, 2);
+      assert.strictEqual(records[0].toolName, 'read');
+      assert.strictEqual(records[0].arguments, '{"path":"a"}');
+      assert.strictEqual(records[0].durationMs, 100);
+      assert.strictEqual(records[1].toolName, 'exec');
+      assert.strictEqual(records[1].status, 'error');
+      assert.strictEqual(records[1].durationMs, 400);
+    });
+
+    it('should fall back to tool name when the result has no id', () => {
+      const records = tracker.ingest('agent:a', 'sess-1', [
+        { type: 'toolCall', name: 'write', timestamp: 1000 },
+        { type: 'tool_result', toolName: 'write', timestamp: 1200 }
+      ]);
+
+      assert.strictEqual(records.length, 1);
+      assert.strictEqual(records[0].durationMs, 200);
+    });
+
+    it('should not pair calls across sessions', () => {
+      tracker.ingest('agent:a', 'sess-1', [{ type: 'toolCall', id: 'c1', name: 'exec', timestamp: 1000 }]);
+
+      const records = tracker.ingest('agent:a', 'sess-2', [
+        { type: 'tool_result', toolCallId: 'c1', toolName: 'exec', timestamp: 2000 }
+      ]);
+
+      assert.strictEqual(records.length, 1);
+      assert.strictEqual(records[0].startedAt, null);
+      assert.strictEqual(records[0].durationMs, null);
+      assert.strictEqual(tracker.getPendingCalls().length, 1);
+    });
+  });
+
+  describe('Result details', () => {
+    it('should mark results with errors as error status', () => {
+      const records = tracker.ingest('agent:a', 'sess-1', [
+        { type: 'toolCall', id: 'c1', name: 'exec' },
+        { type: 'tool_result', toolCallId: 'c1', error: 'command not found' },
+        { type: 'toolCall', id: 'c2', name: 'exec' },
+        { type: 'tool_result', toolCallId: 'c2', status: 'error' }
+      ]);
+
+      assert.deepStrictEqual(records.map(r => r.status), ['error', 'error']);
+    });
+
+    it('should truncate long arguments', () => {
+      const records = tracker.ingest('agent:a', 'sess-1', [
+        { type: 'toolCall', id: 'c1', name: 'exec', arguments: 'x'.repeat(100) },
+        { type: 'tool_result', toolCallId: 'c1' }
+      ]);
+
+      assert.strictEqual(records[0].arguments, `${'x'.repeat(20)}…`);
+    });
+
+    it('should report orphan results without duration', () => {
+      const records = tracker.ingest('agent:a', 'sess-1', [
+        { type: 'tool_result', toolName: 'read', timestamp: 1000 }
+      ]);
+
+      assert.strictEqual(records.length, 1);
+      assert.strictEqual(records[0].toolName, 'read');
+      assert.strictEqual(records[0].durationMs, null);
+    });
+
+    it('should ignore timestamps outside the Date range', () => {
+      const records = tracker.ingest('agent:a', 'sess-1', [
+        { type: 'toolCall', id: 'c1', name: 'exec', timestamp: 1e17 },
+        { type: 'tool_result', toolCallId: 'c1', timestamp: 2000 }
+      ]);
+
+      assert.strictEqual(records.length, 1);
+      assert.strictEqual(records[0].startedAt, null);
+      assert.strictEqual(records[0].durationMs, null);
+    });
+
+    it('should drop pending calls when a session is reset', () => {
+      tracker.ingest('agent:a', 'sess-1', [{ type: 'toolCall', id: 'c1', name: 'exec' }]);
+
+      tracker.resetSession('agent:a', 'sess-1');
+
+      assert.strictEqual(tracker.getPendingCalls().length, 0);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { AgentIdentityResolver } from '../server/AgentIdentity.js';
+import { WorkspaceRunTracker } from '../server/WorkspaceRuns.js';
+
+describe('WorkspaceRunTracker', () => {
+  const T0 = Date.UTC(2026, 0, 1, 12, 0, 0);
+  let tracker: WorkspaceRunTracker;
+
+  const sessions = (...paths: [string, number][]) => new Map(paths);
+
+  beforeEach(() => {
+    tracker = new WorkspaceRunTracker();
+  });
+
+  it('should group agents under their run and workflow type', () => {
+    const changes = tracker.update(sessions(
+      ['feature-dev/run-1/planner', T0],
+      ['feature-dev/run-1/developer', T0 + 1000],
+      ['bugfix/run-7/developer', T0 + 2000]
+    ), T0 + 5000);
+
+    assert.deepStrictEqual(changes.map(c => [c.type, c.run.runKey]), [
+      ['started', 'feature-dev/run-1'],
+      ['started', 'bugfix/run-7']
+    ]);
+    const [bugfix, featureDev] = tracker.getRuns();
+    assert.strictEqual(bugfix.workflowType, 'bugfix');
+    assert.strictEqual(featureDev.startedAt, new Date(T0).toISOString());
+    assert.deepStrictEqual(featureDev.agents.map(a => [a.agentId, a.sessionId]), [
+      ['agent:planner', 'feature-dev/run-1/planner'],
+      ['agent:developer', 'feature-dev/run-1/developer']
+    ]);
+  });
+
+  it('should end agents that disappear and the run with its last agent', () => {
+    tracker.update(sessions(['feature-dev/run-1/planner', T0], ['feature-dev/run-1/developer', T0]), T0);
+
+    const partial = tracker.update(sessions(['feature-dev/run-1/developer', T0]), T0 + 60000);
+    assert.deepStrictEqual(partial.map(c => c.type), ['updated']);
+    assert.strictEqual(partial[0].run.agents[0].status, 'ended');
+    assert.strictEqual(partial[0].run.status, 'active');
+
+    const final = tracker.update(sessions(), T0 + 120000);
+    assert.deepStrictEqual(final.map(c => c.type), ['ended']);
+    assert.strictEqual(final[0].run.endedAt, new Date(T0 + 120000).toISOString());
+    assert.deepStrictEqual(tracker.update(sessions(), T0 + 180000), []);
+  });
+
+  it('should attribute tokens to the newest active run with the agent', () => {
+    tracker.update(sessions(['feature-dev/run-1/developer', T0], ['feature-dev/run-2/developer', T0 + 1000]), T0 + 1000);
+
+    const run = tracker.recordTokens('agent:developer', 250);
+    tracker.recordTokens('agent:developer', -100);
+
+    assert.strictEqual(run?.runKey, 'feature-dev/run-2');
+    assert.strictEqual(run?.agents[0].totalTokens, 250);
+    assert.strictEqual(tracker.recordTokens('agent:reviewer', 10), null);
+    assert.deepStrictEqual(tracker.getRuns().map(r => r.totalTokens), [250, 0]);
+  });
+
+  it('should hand out copies that later updates do not change', () => {
+    const [change] = tracker.update(sessions(['feature-dev/run-1/developer', T0]), T0);
+    tracker.recordTokens('agent:developer', 100);
+
+    assert.strictEqual(change.run.totalTokens, 0);
+    assert.strictEqual(change.run.agents[0].totalTokens, 0);
+  });
+
+  it('should keep only the most recent ended runs', () => {
+    const small = new WorkspaceRunTracker(new AgentIdentityResolver(), 1);
+    small.update(sessions(['wf/run-1/a', T0]), T0);
+    small.update(sessions(['wf/run-2/a', T0 + 1000]), T0 + 1000);
+    small.update(sessions(), T0 + 2000);
+
+    assert.deepStrictEqual(small.getRuns().map(r => r.runKey), ['wf/run-2']);
+  });
+
+  it('should resolve workspace agents through configured aliases', () => {
+    const aliased = new WorkspaceRunTracker(new AgentIdentityResolver({ developer: ['dev'] }));
+    aliased.update(sessions(['feature-dev/run-1/dev', T0]), T0);
+
+    assert.strictEqual(aliased.recordTokens('agent:developer', 10)?.agents[0].agentName, 'developer');
+  });
+});
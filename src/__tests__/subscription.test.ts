@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { AgentEvent, AgentEventType } from '../shared/protocol.js';
+import { isEmptyFilter, matchesFilter, mergeFilter, removeFromFilter } from '../shared/subscription.js';
+
+// Filters only read the payload fields they match on, so fixtures carry just those
+function event(overrides: { agentId?: string; eventType?: AgentEventType; payload?: object } = {}): AgentEvent {
+  return {
+    timestamp: new Date().toISOString(),
+    agentId: 'agent:dev',
+    eventType: 'token_update',
+    payload: {},
+    ...overrides
+  } as AgentEvent;
+}
+
+describe('SubscriptionFilter', () => {
+  describe('Filter updates', () => {
+    it('should merge subscribe values without duplicates', () => {
+      const filter = mergeFilter({ agentIds: ['agent:a'] }, { agentIds: ['agent:a', 'agent:b'], models: ['k2p5'] });
+
+      assert.deepStrictEqual(filter, { agentIds: ['agent:a', 'agent:b'], models: ['k2p5'] });
+    });
+
+    it('should remove unsubscribe values and drop empty dimensions', () => {
+      const filter = removeFromFilter(
+        { agentIds: ['agent:a', 'agent:b'], models: ['k2p5'] },
+        { agentIds: ['agent:a'], models: ['k2p5'] }
+      );
+
+      assert.deepStrictEqual(filter, { agentIds: ['agent:b'] });
+    });
+
+    it('should clear the filter when unsubscribing without values', () => {
+      const filter = removeFromFilter({ agentIds: ['agent:a'] });
+
+      assert.ok(isEmptyFilter(filter));
+    });
+  });
+
+  describe('Event matching', () => {
+    it('should match everything with an empty filter', () => {
+      assert.ok(matchesFilter(event(), {}));
+    });
+
+    it('should always deliver control events', () => {
+      assert.ok(matchesFilter(event({ agentId: 'system', eventType: 'heartbeat' }), { agentIds: ['agent:a'] }));
+      assert.ok(matchesFilter(event({ agentId: 'system', eventType: 'snapshot' }), { eventTypes: ['tool_called'] }));
+    });
+
+    it('should match system data events on event type and workspace', () => {
+      const run = event({ agentId: 'system', eventType: 'workspace_run_started', payload: { workspace: 'bugfix/run-9' } });
+
+      assert.ok(!matchesFilter(run, { eventTypes: ['tool_called'] }));
+      assert.ok(!matchesFilter(run, { workspaces: ['feature-dev'] }));
+      assert.ok(matchesFilter(run, { workspaces: ['bugfix'] }));
+      assert.ok(matchesFilter(run, { agentIds: ['agent:a'] }));
+    });
+
+    it('should filter by agentId and eventType', () => {
+      const filter = { agentIds: ['agent:dev'], eventTypes: ['tool_called' as const] };
+
+      assert.ok(matchesFilter(event({ eventType: 'tool_called' }), filter));
+      assert.ok(!matchesFilter(event({ eventType: 'token_update' }), filter));
+      assert.ok(!matchesFilter(event({ agentId: 'agent:ops', eventType: 'tool_called' }), filter));
+    });
+
+    it('should filter by model from payload or agent context', () => {
+      const filter = { models: ['k2p5'] };
+
+      assert.ok(matchesFilter(event({ eventType: 'model_switched', payload: { currentModel: 'k2p5' } }), filter));
+      assert.ok(matchesFilter(event(), filter, { model: 'k2p5' }));
+      assert.ok(!matchesFilter(event(), filter, { model: 'claude-sonnet' }));
+      assert.ok(!matchesFilter(event(), filter));
+    });
+
+    it('should filter by workspace including nested runs', () => {
+      const filter = { workspaces: ['feature-dev'] };
+
+      assert.ok(matchesFilter(event({ eventType: 'agent_started', payload: { workspace: 'feature-dev/run-1' } }), filter));
+      assert.ok(matchesFilter(event(), filter, { workspace: 'feature-dev' }));
+      assert.ok(!matchesFilter(event(), filter, { workspace: 'feature-dev-2/run-1' }));
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parseMessage, validateAgentEvent, validateClientMessage } from '../shared/validation.js';
+
+const tokenUpdate = (payload: Record<string, unknown> = {}) => ({
+  timestamp: '2026-01-01T00:00:00.000Z',
+  agentId: 'agent:dev',
+  eventType: 'token_update',
+  payload: { previousTokens: 100, currentTokens: 150, delta: 50, inputDelta: 30, outputDelta: 20, ...payload },
+  seq: 3
+});
+
+describe('validation', () => {
+  describe('validateAgentEvent', () => {
+    it('should accept a well-formed event', () => {
+      const result = validateAgentEvent(tokenUpdate());
+
+      assert.ok(result.ok);
+      assert.strictEqual(result.value.eventType, 'token_update');
+    });
+
+    it('should allow fields the schema does not list', () => {
+      assert.ok(validateAgentEvent(tokenUpdate({ cacheDelta: 5 })).ok);
+    });
+
+    it('should report the path of a mistyped payload field', () => {
+      assert.deepStrictEqual(validateAgentEvent(tokenUpdate({ delta: '50' })), {
+        ok: false,
+        error: 'token_update.payload.delta: expected number'
+      });
+    });
+
+    it('should reject unknown event types and broken envelopes', () => {
+      assert.deepStrictEqual(validateAgentEvent({ ...tokenUpdate(), eventType: 'token_updated' }), {
+        ok: false,
+        error: 'event.eventType: unknown event type token_updated'
+      });
+      assert.strictEqual(validateAgentEvent({ ...tokenUpdate(), seq: '3' }).ok, false);
+      assert.strictEqual(validateAgentEvent(null).ok, false);
+    });
+
+    it('should check events nested in a batch', () => {
+      const batch = (events: unknown[]) => ({
+        timestamp: '2026-01-01T00:00:00.000Z',
+        agentId: 'system',
+        eventType: 'batch',
+        payload: { events }
+      });
+
+      assert.ok(validateAgentEvent(batch([tokenUpdate(), tokenUpdate()])).ok);
+      assert.deepStrictEqual(validateAgentEvent(batch([tokenUpdate(), tokenUpdate({ currentTokens: null })])), {
+        ok: false,
+        error: 'token_update.payload.currentTokens: expected number'
+      });
+    });
+
+    it('should require the protocol version on snapshots', () => {
+      const snapshot = {
+        timestamp: '2026-01-01T00:00:00.000Z',
+        agentId: 'system',
+        eventType: 'snapshot',
+        payload: {
+          clientId: 'client_1',
+          connectedClients: 1,
+          lastSeq: 0,
+          epoch: 'e1',
+          snapshot: { timestamp: '2026-01-01T00:00:00.000Z', agents: [], totalTokens: 0 },
+          workspaceRuns: []
+        }
+      };
+
+      assert.strictEqual(validateAgentEvent(snapshot).ok, false);
+      assert.ok(validateAgentEvent({ ...snapshot, payload: { ...snapshot.payload, protocolVersion: 1 } }).ok);
+    });
+  });
+
+  describe('validateClientMessage', () => {
+    it('should accept every well-formed message type', () => {
+      const messages = [
+        { type: 'ping' },
+        { type: 'subscribe', filter: { agentIds: ['agent:dev'] } },
+        { type: 'unsubscribe' },
+        { type: 'resume', lastSeq: 4 },
+        { type: 'query_history', query: { agentId: 'agent:dev' } },
+        { type: 'auth', token: 'secret' },
+        { type: 'ack', version: 2 }
+      ];
+
+      for (const message of messages) {
+        assert.ok(validateClientMessage(message).ok, message.type);
+      }
+    });
+
+    it('should reject unknown types and missing fields', () => {
+      assert.deepStrictEqual(validateClientMessage({ type: 'drop_tables' }), {
+        ok: false,
+        error: 'message.type: unknown message type drop_tables'
+      });
+      assert.deepStrictEqual(validateClientMessage({ type: 'ack', version: '2' }), {
+        ok: false,
+        error: 'ack.version: expected number'
+      });
+      assert.deepStrictEqual(validateClientMessage({ type: 'subscribe', filter: { agentIds: 'agent:dev' } }), {
+        ok: false,
+        error: 'subscribe.filter.agentIds: expected array'
+      });
+    });
+
+    it('should check history query bounds, limits and filters', () => {
+      const query = (fields: Record<string, unknown>) => validateClientMessage({ type: 'query_history', query: fields });
+
+      assert.ok(query({ from: '2026-01-01T00:00:00.000Z', to: Date.now(), limit: 5000, eventTypes: ['token_update'] }).ok);
+      assert.deepStrictEqual(query({ from: 1e17 }), {
+        ok: false,
+        error: 'query_history.query.from: expected ISO timestamp or epoch milliseconds'
+      });
+      assert.strictEqual(query({ to: 'yesterday' }).ok, false);
+      assert.deepStrictEqual(query({ limit: 0 }), {
+        ok: false,
+        error: 'query_history.query.limit: expected integer from 1 to 5000'
+      });
+      assert.strictEqual(query({ limit: 5001 }).ok, false);
+      assert.strictEqual(query({ limit: 2.5 }).ok, false);
+      assert.strictEqual(query({ agentId: 7 }).ok, false);
+      assert.deepStrictEqual(query({ eventTypes: ['token_update', 3] }), {
+        ok: false,
+        error: 'query_history.query.eventTypes[1]: expected string'
+      });
+    });
+  });
+
+  describe('parseMessage', () => {
+    it('should parse and validate in one step', () => {
+      assert.deepStrictEqual(parseMessage('{"type":"ping"}', validateClientMessage), { ok: true, value: { type: 'ping' } });
+      assert.deepStrictEqual(parseMessage('{"type":', validateClientMessage), { ok: false, error: 'not valid JSON' });
+    });
+  });
+});
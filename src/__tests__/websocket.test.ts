@@ -1,8 +1,46 @@
-import { describe, it, before, after } from 'node:test';
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
 import assert from 'node:assert';
+import { mkdirSync, writeFileSync, appendFileSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
 import { WebSocketServer } from 'ws';
 import WebSocket from 'ws';
-import { AgentActivityStreamer, type AgentEvent } from '../server/AgentActivityStreamer.js';
+import { AgentActivityStreamer, parseConnectOptions } from '../server/AgentActivityStreamer.js';
+import { EventStore } from '../server/EventStore.js';
+import {
+  CLOSE_PROTOCOL_MISMATCH,
+  CLOSE_SLOW_CONSUMER,
+  CLOSE_UNAUTHORIZED,
+  PROTOCOL_VERSION,
+  type AgentEvent,
+  type AgentEventType,
+  type EventPayloads
+} from '../shared/protocol.js';
+import { validateAgentEvent } from '../shared/validation.js';
+
+const toolCall = (agentId: string, payload: Partial<EventPayloads['tool_called']> = {}): AgentEvent => ({
+  timestamp: new Date().toISOString(),
+  agentId,
+  eventType: 'tool_called',
+  payload: {
+    sessionId: 'sess-1',
+    toolName: 'exec',
+    callId: null,
+    arguments: null,
+    status: 'success',
+    startedAt: null,
+    durationMs: null,
+    ...payload
+  }
+});
+
+/**
+ * Assert a received event's type and return its payload typed accordingly
+ */
+function payloadOf<T extends AgentEventType>(event: AgentEvent, eventType: T): EventPayloads[T] {
+  assert.strictEqual(event.eventType, eventType);
+  return event.payload as EventPayloads[T];
+}
 
 describe('WebSocket Server', () => {
   let wss: WebSocketServer;
@@ -118,12 +156,7 @@ describe('WebSocket Server', () => {
       });
 
       // Broadcast a test event
-      const testEvent: AgentEvent = {
-        timestamp: new Date().toISOString(),
-        agentId: 'test-agent',
-        eventType: 'tool_called',
-        payload: { tool: 'test-tool', args: {} }
-      };
+      const testEvent = toolCall('test-agent', { toolName: 'test-tool' });
 
       streamer.broadcast(testEvent);
 
@@ -140,6 +173,71 @@ describe('WebSocket Server', () => {
       ws2.close();
     });
 
+    it('should send a snapshot event on connection', async () => {
+      const ws = new WebSocket(`ws://localhost:${TEST_PORT}`);
+
+      const message = await new Promise<AgentEvent>((resolve, reject) => {
+        const timeout = setTimeout(() => reject(new Error('Timeout')), 1000);
+        ws.on('message', (data) => {
+          clearTimeout(timeout);
+          resolve(JSON.parse(data.toString()));
+        });
+        ws.on('error', reject);
+      });
+
+      assert.strictEqual(message.eventType, 'snapshot');
+      assert.strictEqual(message.agentId, 'system');
+      const snapshot = message.payload.snapshot as { agents: unknown[]; totalSessions: number; totalTokens: number };
+      assert.ok(Array.isArray(snapshot.agents));
+      assert.strictEqual(typeof snapshot.totalSessions, 'number');
+      assert.strictEqual(typeof snapshot.totalTokens, 'number');
+
+      ws.close();
+    });
+
+    it('should send a fresh snapshot when requested', async () => {
+      const ws = new WebSocket(`ws://localhost:${TEST_PORT}`);
+      const messages: AgentEvent[] = [];
+      ws.on('message', (data) => {
+        messages.push(JSON.parse(data.toString()));
+      });
+
+      await new Promise<void>((resolve, reject) => {
+        ws.on('open', resolve);
+        ws.on('error', reject);
+      });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      ws.send(JSON.stringify({ type: 'get_snapshot' }));
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      assert.strictEqual(messages.filter(m => m.eventType === 'snapshot').length, 2);
+
+      ws.close();
+    });
+
+    it('should answer ping messages with a pong heartbeat', async () => {
+      const ws = new WebSocket(`ws://localhost:${TEST_PORT}`);
+      const messages: AgentEvent[] = [];
+      ws.on('message', (data) => {
+        messages.push(JSON.parse(data.toString()));
+      });
+
+      await new Promise<void>((resolve, reject) => {
+        ws.on('open', resolve);
+        ws.on('error', reject);
+      });
+
+      ws.send(JSON.stringify({ type: 'ping' }));
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const pong = messages.find(m => m.eventType === 'heartbeat');
+      assert.ok(pong);
+      assert.strictEqual(pong.payload.type, 'pong');
+
+      ws.close();
+    });
+
     it('should send welcome message on connection', async () => {
       const ws = new WebSocket(`ws://localhost:${TEST_PORT}`);
       
@@ -260,7 +358,7 @@ describe('WebSocket Server', () => {
         timestamp: new Date().toISOString(),
         agentId: 'system',
         eventType: 'heartbeat',
-        payload: { test: true }
+        payload: { uptime: 1 }
       });
 
       await new Promise(resolve => setTimeout(resolve, 100));
@@ -324,13 +422,1076 @@ describe('AgentActivityStreamer', () => {
         streamer.broadcast({
           timestamp: new Date().toISOString(),
           agentId: 'test',
-          eventType: eventType as AgentEvent['eventType'],
+          eventType,
           payload: {}
-        });
+        } as AgentEvent);
       }
 
       // If we get here, all event types worked
       assert.ok(true);
     });
   });
+
+  describe('DataCollector integration', () => {
+    let testDir: string;
+    let streamer: AgentActivityStreamer;
+    let sent: AgentEvent[];
+
+    const writeAgentSession = (agentName: string, model: string, totalTokens: number) => {
+      const sessionsDir = join(testDir, 'agents', agentName, 'sessions');
+      mkdirSync(sessionsDir, { recursive: true });
+      writeFileSync(
+        join(sessionsDir, 'sessions.json'),
+        JSON.stringify({
+          main: { sessionId: 'sess-1', updatedAt: Date.now(), model, totalTokens }
+        })
+      );
+    };
+
+    const poll = () => {
+      (streamer as unknown as { pollAgentActivities: () => void }).pollAgentActivities();
+    };
+
+    beforeEach(() => {
+      testDir = join(tmpdir(), `streamer-test-${Date.now()}`);
+      mkdirSync(join(testDir, 'agents'), { recursive: true });
+      streamer = new AgentActivityStreamer(testDir);
+      sent = [];
+
+      const mockWs = {
+        readyState: 1,
+        send: (data: string) => { sent.push(JSON.parse(data)); },
+        on: () => {},
+        ping: () => {},
+        terminate: () => {}
+      } as unknown as WebSocket;
+
+      streamer.addClient(mockWs);
+      sent = [];
+    });
+
+    afterEach(() => {
+      if (existsSync(testDir)) {
+        rmSync(testDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should broadcast agent_started for newly discovered agents', () => {
+      writeAgentSession('test-agent', 'k2p5', 1000);
+
+      poll();
+
+      const started = sent.filter(e => e.eventType === 'agent_started');
+      assert.strictEqual(started.length, 1);
+      assert.strictEqual(started[0].agentId, 'agent:test-agent');
+      assert.strictEqual(started[0].payload.previousState, null);
+    });
+
+    it('should broadcast token_update when token count changes', () => {
+      writeAgentSession('test-agent', 'k2p5', 1000);
+      poll();
+      sent = [];
+
+      writeAgentSession('test-agent', 'k2p5', 1500);
+      poll();
+
+      const updates = sent.filter(e => e.eventType === 'token_update');
+      assert.strictEqual(updates.length, 1);
+      assert.strictEqual(updates[0].agentId, 'agent:test-agent');
+      assert.strictEqual(updates[0].payload.delta, 500);
+      assert.strictEqual(updates[0].payload.currentTokens, 1500);
+    });
+
+    it('should broadcast agent_updated with the full state when fields change', () => {
+      writeAgentSession('test-agent', 'k2p5', 1000);
+      poll();
+      sent = [];
+
+      writeAgentSession('test-agent', 'k2p5', 2000);
+      poll();
+
+      const updates = sent.filter(e => e.eventType === 'agent_updated');
+      assert.strictEqual(updates.length, 1);
+      const agent = updates[0].payload.agent as { agentId: string; totalTokens: number };
+      assert.strictEqual(agent.agentId, 'agent:test-agent');
+      assert.strictEqual(agent.totalTokens, 2000);
+    });
+
+    it('should broadcast model_switched when model changes', () => {
+      writeAgentSession('test-agent', 'k2p5', 1000);
+      poll();
+      sent = [];
+
+      writeAgentSession('test-agent', 'claude-sonnet', 1000);
+      poll();
+
+      const switches = sent.filter(e => e.eventType === 'model_switched');
+      assert.strictEqual(switches.length, 1);
+      assert.strictEqual(switches[0].payload.previousModel, 'k2p5');
+      assert.strictEqual(switches[0].payload.currentModel, 'claude-sonnet');
+    });
+
+    it('should broadcast tool_called for calls completed after the first poll', () => {
+      writeAgentSession('test-agent', 'k2p5', 1000);
+      const sessionPath = join(testDir, 'agents', 'test-agent', 'sessions', 'sess-1.jsonl');
+      writeFileSync(
+        sessionPath,
+        JSON.stringify({ type: 'toolCall', id: 'old', name: 'read', timestamp: 1000 }) + '\n' +
+        JSON.stringify({ type: 'tool_result', toolCallId: 'old', timestamp: 1100 }) + '\n'
+      );
+
+      // Calls already on disk when the streamer starts are history, not live activity
+      streamer = new AgentActivityStreamer(testDir);
+      poll();
+      streamer.addClient({
+        readyState: 1,
+        send: (data: string) => { sent.push(JSON.parse(data)); },
+        on: () => {},
+        ping: () => {},
+        terminate: () => {}
+      } as unknown as WebSocket);
+      assert.strictEqual(sent.filter(e => e.eventType === 'tool_called').length, 0);
+      sent = [];
+
+      appendFileSync(
+        sessionPath,
+        JSON.stringify({ type: 'toolCall', id: 'c1', name: 'exec', arguments: { cmd: 'ls' }, timestamp: 2000 }) + '\n' +
+        JSON.stringify({ type: 'tool_result', toolCallId: 'c1', isError: true, timestamp: 2750 }) + '\n'
+      );
+      poll();
+
+      const calls = sent.filter(e => e.eventType === 'tool_called');
+      assert.strictEqual(calls.length, 1);
+      assert.strictEqual(calls[0].agentId, 'agent:test-agent');
+      assert.strictEqual(calls[0].payload.toolName, 'exec');
+      assert.strictEqual(calls[0].payload.callId, 'c1');
+      assert.strictEqual(calls[0].payload.sessionId, 'sess-1');
+      assert.strictEqual(calls[0].payload.arguments, '{"cmd":"ls"}');
+      assert.strictEqual(calls[0].payload.status, 'error');
+      assert.strictEqual(calls[0].payload.durationMs, 750);
+    });
+
+    it('should treat calls in a session file discovered after the first poll as history', () => {
+      writeAgentSession('test-agent', 'k2p5', 1000);
+      poll();
+      sent = [];
+
+      // A new agent shows up with a backlog of finished calls
+      writeAgentSession('late-agent', 'k2p5', 500);
+      const sessionPath = join(testDir, 'agents', 'late-agent', 'sessions', 'sess-1.jsonl');
+      writeFileSync(
+        sessionPath,
+        JSON.stringify({ type: 'toolCall', id: 'old', name: 'read', timestamp: 1000 }) + '\n' +
+        JSON.stringify({ type: 'tool_result', toolCallId: 'old', timestamp: 1100 }) + '\n'
+      );
+      poll();
+      assert.strictEqual(sent.filter(e => e.eventType === 'tool_called').length, 0);
+
+      appendFileSync(
+        sessionPath,
+        JSON.stringify({ type: 'toolCall', id: 'c1', name: 'exec', timestamp: 2000 }) + '\n' +
+        JSON.stringify({ type: 'tool_result', toolCallId: 'c1', timestamp: 2100 }) + '\n'
+      );
+      poll();
+
+      const calls = sent.filter(e => e.eventType === 'tool_called');
+      assert.deepStrictEqual(calls.map(e => [e.agentId, payloadOf(e, 'tool_called').callId]), [['agent:late-agent', 'c1']]);
+    });
+
+    it('should broadcast agent_anomaly when an agent repeats the same tool call', () => {
+      writeAgentSession('test-agent', 'k2p5', 1000);
+      const sessionPath = join(testDir, 'agents', 'test-agent', 'sessions', 'sess-1.jsonl');
+      writeFileSync(sessionPath, '');
+      streamer = new AgentActivityStreamer(testDir, { anomalyDetection: { repeatThreshold: 3 } });
+      poll();
+      streamer.addClient({
+        readyState: 1,
+        send: (data: string) => { sent.push(JSON.parse(data)); },
+        on: () => {},
+        ping: () => {},
+        terminate: () => {}
+      } as unknown as WebSocket);
+      sent = [];
+
+      for (const id of ['c1', 'c2', 'c3']) {
+        appendFileSync(
+          sessionPath,
+          JSON.stringify({ type: 'toolCall', id, name: 'read', arguments: { path: 'a.ts' } }) + '\n' +
+          JSON.stringify({ type: 'tool_result', toolCallId: id }) + '\n'
+        );
+      }
+      poll();
+
+      const anomalies = sent.filter(e => e.eventType === 'agent_anomaly');
+      assert.strictEqual(anomalies.length, 1);
+      assert.strictEqual(anomalies[0].agentId, 'agent:test-agent');
+      assert.strictEqual(anomalies[0].payload.kind, 'repeated_tool_call');
+      assert.strictEqual((anomalies[0].payload.evidence as { recentCalls: unknown[] }).recentCalls.length, 3);
+    });
+
+    it('should include collected agents in snapshots sent to new clients', () => {
+      writeAgentSession('test-agent', 'k2p5', 1000);
+      poll();
+
+      const received: AgentEvent[] = [];
+      streamer.addClient({
+        readyState: 1,
+        send: (data: string) => { received.push(JSON.parse(data)); },
+        on: () => {},
+        ping: () => {},
+        terminate: () => {}
+      } as unknown as WebSocket);
+
+      assert.strictEqual(received.length, 1);
+      assert.strictEqual(received[0].eventType, 'snapshot');
+      const snapshot = received[0].payload.snapshot as { agents: Array<{ agentId: string }>; totalTokens: number };
+      assert.deepStrictEqual(snapshot.agents.map(a => a.agentId), ['agent:test-agent']);
+      assert.strictEqual(snapshot.totalTokens, 1000);
+    });
+
+    it('should only deliver events matching a client subscription', () => {
+      streamer.handleClientMessage('client-1', JSON.stringify({
+        type: 'subscribe',
+        filter: { agentIds: ['agent:watched'] }
+      }));
+      assert.strictEqual(sent[sent.length - 1].eventType, 'subscription_updated');
+      sent = [];
+
+      writeAgentSession('watched', 'k2p5', 1000);
+      writeAgentSession('ignored', 'k2p5', 1000);
+      poll();
+
+      assert.ok(sent.length > 0);
+      assert.ok(sent.every(e => e.agentId === 'agent:watched'));
+
+      streamer.handleClientMessage('client-1', JSON.stringify({ type: 'unsubscribe' }));
+      sent = [];
+      writeAgentSession('ignored', 'k2p5', 2000);
+      poll();
+
+      assert.ok(sent.some(e => e.agentId === 'agent:ignored'));
+    });
+
+    it('should filter snapshot agents by subscription', () => {
+      writeAgentSession('watched', 'k2p5', 1000);
+      writeAgentSession('ignored', 'claude-sonnet', 1000);
+      poll();
+      sent = [];
+
+      streamer.handleClientMessage('client-1', JSON.stringify({ type: 'subscribe', filter: { models: ['k2p5'] } }));
+      streamer.handleClientMessage('client-1', JSON.stringify({ type: 'get_snapshot' }));
+
+      const snapshot = payloadOf(sent.find(e => e.eventType === 'snapshot')!, 'snapshot').snapshot;
+      assert.deepStrictEqual(snapshot.agents.map(a => a.agentId), ['agent:watched']);
+      assert.deepStrictEqual(snapshot.costs.byAgent.map(a => a.agentId), ['agent:watched']);
+      assert.deepStrictEqual(snapshot.costs.bySession.map(s => s.agentId), ['agent:watched']);
+      assert.deepStrictEqual(snapshot.costs.byModel.map(m => m.model), ['k2p5']);
+    });
+
+    it('should not broadcast anything when nothing changed', () => {
+      writeAgentSession('test-agent', 'k2p5', 1000);
+      poll();
+      sent = [];
+
+      poll();
+
+      assert.strictEqual(sent.length, 0);
+    });
+
+    it('should broadcast context_pressure when an agent crosses a threshold', () => {
+      writeFileSync(join(testDir, 'openclaw.json'), JSON.stringify({
+        models: { providers: { moonshot: { models: [{ id: 'k2p5', contextWindow: 10000 }] } } }
+      }));
+      writeAgentSession('test-agent', 'k2p5', 5000);
+      poll();
+      sent = [];
+
+      writeAgentSession('test-agent', 'k2p5', 8500);
+      poll();
+
+      const pressure = sent.filter(e => e.eventType === 'context_pressure');
+      assert.strictEqual(pressure.length, 1);
+      assert.strictEqual(pressure[0].payload.threshold, 80);
+      assert.strictEqual(pressure[0].payload.contextPct, 85);
+    });
+
+    it('should broadcast cost_update with the running total when spend changes', () => {
+      const sessionsDir = join(testDir, 'agents', 'test-agent', 'sessions');
+      const writeUsage = (inputTokens: number) => {
+        mkdirSync(sessionsDir, { recursive: true });
+        writeFileSync(join(sessionsDir, 'sessions.json'), JSON.stringify({
+          main: { sessionId: 'sess-1', updatedAt: Date.now(), model: 'k2p5', inputTokens, outputTokens: 0 }
+        }));
+      };
+      streamer = new AgentActivityStreamer(testDir, { pricing: { k2p5: { input: 2, output: 8 } } });
+      streamer.addClient({
+        readyState: 1,
+        send: (data: string) => { sent.push(JSON.parse(data)); },
+        on: () => {},
+        ping: () => {},
+        terminate: () => {}
+      } as unknown as WebSocket);
+      writeUsage(1_000_000);
+      poll();
+      sent = [];
+
+      writeUsage(1_500_000);
+      poll();
+
+      const update = sent.find(e => e.eventType === 'cost_update');
+      assert.ok(update);
+      assert.strictEqual(update.payload.previousCost, 2);
+      assert.strictEqual(update.payload.currentCost, 3);
+      assert.strictEqual(update.payload.totalCost, 3);
+    });
+
+    it('should broadcast budget_alert when token usage exceeds an agent budget', () => {
+      streamer = new AgentActivityStreamer(testDir, {
+        budgets: [{ scope: 'agent', target: 'agent:test-agent', window: 'hour', maxTokens: 1000 }]
+      });
+      streamer.addClient({
+        readyState: 1,
+        send: (data: string) => { sent.push(JSON.parse(data)); },
+        on: () => {},
+        ping: () => {},
+        terminate: () => {}
+      } as unknown as WebSocket);
+      writeAgentSession('test-agent', 'k2p5', 1000);
+      poll();
+      sent = [];
+
+      writeAgentSession('test-agent', 'k2p5', 2200);
+      poll();
+
+      const alerts = sent.filter(e => e.eventType === 'budget_alert');
+      assert.strictEqual(alerts.length, 1);
+      assert.strictEqual(alerts[0].agentId, 'agent:test-agent');
+      assert.strictEqual(alerts[0].payload.level, 'exceeded');
+      assert.strictEqual(alerts[0].payload.usedTokens, 1200);
+    });
+
+    it('should only send workspace-filtered clients the runs of their workspace', () => {
+      mkdirSync(join(testDir, 'workspaces', 'feature-dev', 'run-1', 'developer'), { recursive: true });
+      poll();
+
+      const received: AgentEvent[] = [];
+      streamer.addClient({
+        readyState: 1,
+        send: (data: string) => { received.push(JSON.parse(data)); },
+        on: () => {},
+        ping: () => {},
+        terminate: () => {}
+      } as unknown as WebSocket, { filter: { workspaces: ['bugfix'] } });
+      mkdirSync(join(testDir, 'workspaces', 'bugfix', 'run-9', 'tester'), { recursive: true });
+      poll();
+
+      assert.deepStrictEqual(payloadOf(received[0], 'snapshot').workspaceRuns, []);
+      const runEvents = received.filter(e => e.eventType.startsWith('workspace_run_'));
+      assert.deepStrictEqual(runEvents.map(e => payloadOf(e, 'workspace_run_started').workspace), ['bugfix/run-9']);
+    });
+
+    it('should send workspace budget alerts only to clients subscribed to that workspace', () => {
+      streamer = new AgentActivityStreamer(testDir, {
+        budgets: [{ scope: 'workspace', window: 'hour', maxTokens: 1000 }]
+      });
+      const subscriber = (workspace: string) => {
+        const received: AgentEvent[] = [];
+        streamer.addClient({
+          readyState: 1,
+          send: (data: string) => { received.push(JSON.parse(data)); },
+          on: () => {},
+          ping: () => {},
+          terminate: () => {}
+        } as unknown as WebSocket, { filter: { workspaces: [workspace] } });
+        return received;
+      };
+      const featureDev = subscriber('feature-dev');
+      const bugfix = subscriber('bugfix');
+      mkdirSync(join(testDir, 'workspaces', 'bugfix', 'run-9', 'tester'), { recursive: true });
+      writeAgentSession('tester', 'k2p5', 1000);
+      poll();
+      writeAgentSession('tester', 'k2p5', 2200);
+      poll();
+
+      assert.ok(!featureDev.some(e => e.eventType === 'budget_alert'));
+      const alerts = bugfix.filter(e => e.eventType === 'budget_alert');
+      assert.strictEqual(alerts.length, 1);
+      assert.strictEqual(payloadOf(alerts[0], 'budget_alert').workspace, 'bugfix/run-9');
+    });
+
+    it('should hold back budget alerts and run events from clients subscribed to other event types', () => {
+      streamer = new AgentActivityStreamer(testDir, {
+        budgets: [{ scope: 'global', window: 'hour', maxTokens: 1000 }]
+      });
+      const received: AgentEvent[] = [];
+      streamer.addClient({
+        readyState: 1,
+        send: (data: string) => { received.push(JSON.parse(data)); },
+        on: () => {},
+        ping: () => {},
+        terminate: () => {}
+      } as unknown as WebSocket, { filter: { eventTypes: ['tool_called'] } });
+      streamer.addClient({
+        readyState: 1,
+        send: (data: string) => { sent.push(JSON.parse(data)); },
+        on: () => {},
+        ping: () => {},
+        terminate: () => {}
+      } as unknown as WebSocket);
+      writeAgentSession('test-agent', 'k2p5', 1000);
+      poll();
+      writeAgentSession('test-agent', 'k2p5', 2200);
+      mkdirSync(join(testDir, 'workspaces', 'feature-dev', 'run-1', 'developer'), { recursive: true });
+      poll();
+
+      // The unfiltered client shows both kinds were broadcast
+      assert.ok(sent.some(e => e.eventType === 'budget_alert'));
+      assert.ok(sent.some(e => e.eventType === 'workspace_run_started'));
+      assert.deepStrictEqual(received.map(e => e.eventType), ['snapshot']);
+    });
+
+    it('should track workspace runs separately when they share an agent name', () => {
+      mkdirSync(join(testDir, 'workspaces', 'feature-dev', 'run-1', 'developer'), { recursive: true });
+      mkdirSync(join(testDir, 'workspaces', 'feature-dev', 'run-2', 'developer'), { recursive: true });
+      poll();
+
+      // One agent, so one start however many runs it joins
+      const started = sent.filter(e => e.eventType === 'agent_started');
+      assert.deepStrictEqual(started.map(e => e.agentId), ['agent:developer']);
+      assert.strictEqual(sent.filter(e => e.eventType === 'workspace_run_started').length, 2);
+
+      writeAgentSession('developer', 'k2p5', 1000);
+      poll();
+      sent = [];
+      writeAgentSession('developer', 'k2p5', 1400);
+      poll();
+
+      const updated = sent.find(e => e.eventType === 'workspace_run_updated');
+      const runs = streamer.getWorkspaceRuns();
+      assert.strictEqual(runs.reduce((sum, run) => sum + run.totalTokens, 0), 400);
+      assert.strictEqual((updated?.payload.run as { totalTokens: number }).totalTokens, 400);
+
+      // Leaving one run does not end an agent that is still working in another
+      rmSync(join(testDir, 'workspaces', 'feature-dev', 'run-1'), { recursive: true, force: true });
+      sent = [];
+      poll();
+
+      const ended = sent.filter(e => e.eventType === 'workspace_run_ended');
+      assert.deepStrictEqual(ended.map(e => e.payload.workspace), ['feature-dev/run-1']);
+      assert.ok(!sent.some(e => e.eventType === 'agent_ended'));
+
+      rmSync(join(testDir, 'workspaces', 'feature-dev', 'run-2'), { recursive: true, force: true });
+      sent = [];
+      poll();
+
+      const agentEnded = sent.filter(e => e.eventType === 'agent_ended');
+      assert.deepStrictEqual(agentEnded.map(e => e.agentId), ['agent:developer']);
+      assert.strictEqual((agentEnded[0].payload.agent as { agentId: string }).agentId, 'agent:developer');
+    });
+
+    it('should not restart an agent that joins a second run while active in the first', () => {
+      mkdirSync(join(testDir, 'workspaces', 'feature-dev', 'run-1', 'developer'), { recursive: true });
+      poll();
+      mkdirSync(join(testDir, 'workspaces', 'bugfix', 'run-7', 'developer'), { recursive: true });
+      sent = [];
+      poll();
+
+      assert.deepStrictEqual(sent.filter(e => e.eventType === 'workspace_run_started').map(e => e.payload.workspace), ['bugfix/run-7']);
+      assert.ok(!sent.some(e => e.eventType === 'agent_started' || e.eventType === 'agent_ended'));
+
+      // Both runs end in the same poll: one agent_ended
+      rmSync(join(testDir, 'workspaces'), { recursive: true, force: true });
+      mkdirSync(join(testDir, 'workspaces'));
+      sent = [];
+      poll();
+
+      assert.deepStrictEqual(sent.filter(e => e.eventType === 'agent_ended').map(e => e.agentId), ['agent:developer']);
+    });
+
+    it('should react to session changes without waiting for a poll in watch mode', async () => {
+      const watching = new AgentActivityStreamer(testDir, { mode: 'watch', watchDebounceMs: 20 });
+      const received: AgentEvent[] = [];
+      watching.addClient({
+        readyState: 1,
+        send: (data: string) => { received.push(JSON.parse(data)); },
+        on: () => {},
+        ping: () => {},
+        terminate: () => {}
+      } as unknown as WebSocket);
+      watching.start();
+      received.length = 0;
+
+      try {
+        writeAgentSession('test-agent', 'k2p5', 1000);
+        await new Promise(resolve => setTimeout(resolve, 300));
+      } finally {
+        watching.stop();
+      }
+
+      assert.strictEqual(watching.getActivityMode(), 'watch');
+      assert.ok(received.some(e => e.eventType === 'agent_started' && e.agentId === 'agent:test-agent'));
+    });
+  });
+
+  describe('Event history and replay', () => {
+    const mockClient = (received: AgentEvent[]) => ({
+      readyState: 1,
+      send: (data: string) => { received.push(JSON.parse(data)); },
+      on: () => {},
+      ping: () => {},
+      terminate: () => {}
+    } as unknown as WebSocket);
+
+    const tokenEvent = (agentId: string): AgentEvent => ({
+      timestamp: new Date().toISOString(),
+      agentId,
+      eventType: 'token_update',
+      payload: { previousTokens: 0, currentTokens: 10, delta: 10, inputDelta: 6, outputDelta: 4 }
+    });
+    const heartbeat = (): AgentEvent => ({ timestamp: new Date().toISOString(), agentId: 'system', eventType: 'heartbeat', payload: {} });
+
+    it('should assign sequence ids to broadcast events but not heartbeats', () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-history');
+      const received: AgentEvent[] = [];
+      streamer.addClient(mockClient(received));
+      received.length = 0;
+
+      streamer.broadcast(tokenEvent('agent:a'));
+      streamer.broadcast(heartbeat());
+      streamer.broadcast(tokenEvent('agent:b'));
+
+      assert.deepStrictEqual(received.map(e => e.seq), [1, undefined, 2]);
+    });
+
+    it('should replay missed events to a resuming client', () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-history');
+      for (const id of ['agent:a', 'agent:b', 'agent:c']) streamer.broadcast(tokenEvent(id));
+
+      const received: AgentEvent[] = [];
+      streamer.addClient(mockClient(received), { resumeFrom: 1 });
+
+      assert.deepStrictEqual(received.map(e => e.agentId), ['agent:b', 'agent:c']);
+      assert.deepStrictEqual(received.map(e => e.seq), [2, 3]);
+    });
+
+    it('should ask the client to resync when the gap is too large', () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-history', { historySize: 2 });
+      for (const id of ['agent:a', 'agent:b', 'agent:c', 'agent:d']) streamer.broadcast(tokenEvent(id));
+
+      const received: AgentEvent[] = [];
+      const clientId = streamer.addClient(mockClient(received));
+      received.length = 0;
+      streamer.handleClientMessage(clientId, JSON.stringify({ type: 'resume', lastSeq: 1 }));
+
+      assert.deepStrictEqual(received.map(e => e.eventType), ['resync_required', 'snapshot']);
+      assert.strictEqual(payloadOf(received[0], 'resync_required').oldestSeq, 3);
+      assert.strictEqual(payloadOf(received[1], 'snapshot').lastSeq, 4);
+    });
+
+    it('should ask the client to resync when its cursor is from before a restart', () => {
+      const previous = new AgentActivityStreamer('/tmp/test-openclaw-history');
+      const before: AgentEvent[] = [];
+      previous.addClient(mockClient(before));
+      const { epoch } = payloadOf(before[0], 'snapshot');
+      previous.broadcast(tokenEvent('agent:a'));
+
+      // The restarted server has already passed the old cursor with events the client never saw
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-history');
+      for (const id of ['agent:b', 'agent:c']) streamer.broadcast(tokenEvent(id));
+      const received: AgentEvent[] = [];
+      streamer.addClient(mockClient(received), { resumeFrom: 1, epoch });
+
+      assert.deepStrictEqual(received.map(e => e.eventType), ['resync_required', 'snapshot']);
+      assert.strictEqual(payloadOf(received[0], 'resync_required').reason, 'server_restarted');
+      assert.notStrictEqual(payloadOf(received[1], 'snapshot').epoch, epoch);
+    });
+
+    it('should persist broadcast events and answer history queries', () => {
+      const storeDir = join(tmpdir(), `streamer-store-test-${Date.now()}`);
+      try {
+        const streamer = new AgentActivityStreamer('/tmp/test-openclaw-history', {
+          eventStore: new EventStore({ directory: storeDir })
+        });
+        streamer.broadcast(tokenEvent('agent:a'));
+        streamer.broadcast(tokenEvent('agent:b'));
+        streamer.broadcast(heartbeat());
+
+        assert.strictEqual(streamer.queryHistory({}).length, 2);
+
+        const received: AgentEvent[] = [];
+        const clientId = streamer.addClient(mockClient(received));
+        received.length = 0;
+        streamer.handleClientMessage(clientId, JSON.stringify({ type: 'query_history', query: { agentId: 'agent:b' } }));
+
+        assert.strictEqual(received[0].eventType, 'history_result');
+        const events = received[0].payload.events as AgentEvent[];
+        assert.deepStrictEqual(events.map(e => [e.agentId, e.seq]), [['agent:b', 2]]);
+      } finally {
+        rmSync(storeDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject history queries with out-of-range bounds and limits', () => {
+      const storeDir = join(tmpdir(), `streamer-store-range-test-${Date.now()}`);
+      try {
+        const streamer = new AgentActivityStreamer('/tmp/test-openclaw-history', {
+          eventStore: new EventStore({ directory: storeDir })
+        });
+        streamer.broadcast(tokenEvent('agent:a'));
+
+        const received: AgentEvent[] = [];
+        const clientId = streamer.addClient(mockClient(received));
+        received.length = 0;
+        streamer.handleClientMessage(clientId, JSON.stringify({ type: 'query_history', query: { from: 1e17 } }));
+        streamer.handleClientMessage(clientId, JSON.stringify({ type: 'query_history', query: { limit: -5 } }));
+        streamer.handleClientMessage(clientId, JSON.stringify({ type: 'query_history', query: {} }));
+
+        assert.deepStrictEqual(received.map(e => e.eventType), ['protocol_error', 'protocol_error', 'history_result']);
+        assert.match(payloadOf(received[0], 'protocol_error').error, /query_history\.query\.from/);
+        assert.strictEqual(payloadOf(received[2], 'history_result').events.length, 1);
+        assert.strictEqual(payloadOf(received[2], 'history_result').query.limit, 500);
+      } finally {
+        rmSync(storeDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should restore token history from persisted token_update events', () => {
+      const storeDir = join(tmpdir(), `streamer-token-history-test-${Date.now()}`);
+      try {
+        const eventStore = new EventStore({ directory: storeDir });
+        eventStore.appendEvent({
+          timestamp: new Date().toISOString(),
+          agentId: 'agent:a',
+          eventType: 'token_update',
+          payload: { previousTokens: 0, currentTokens: 600, delta: 600, inputDelta: 450, outputDelta: 150 }
+        });
+
+        const streamer = new AgentActivityStreamer('/tmp/test-openclaw-history', { eventStore });
+        const history = streamer.getTokenHistory('15m');
+        const busiest = history.aggregate.find(point => point.total > 0);
+
+        assert.deepStrictEqual(Object.keys(history.agents), ['agent:a']);
+        assert.deepStrictEqual(busiest && [busiest.total, busiest.input, busiest.output], [1200, 900, 300]);
+      } finally {
+        rmSync(storeDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should parse resume cursor and filter from the connect URL', () => {
+      assert.deepStrictEqual(parseConnectOptions('/ws?protocol=1&lastSeq=42&agent=agent:a,agent:b'), {
+        protocolVersion: 1,
+        resumeFrom: 42,
+        filter: { agentIds: ['agent:a', 'agent:b'] }
+      });
+      assert.deepStrictEqual(parseConnectOptions('/ws?protocol=1&lastSeq=7&epoch=e1'), { protocolVersion: 1, resumeFrom: 7, epoch: 'e1' });
+      assert.deepStrictEqual(parseConnectOptions('/ws?protocol=1&lastSeq=abc'), { protocolVersion: 1 });
+      assert.deepStrictEqual(parseConnectOptions(undefined), { protocolVersion: null });
+    });
+  });
+
+  describe('Authentication', () => {
+    const tokens = [
+      { token: 'viewer-token', role: 'viewer' as const },
+      { token: 'admin-token', role: 'admin' as const }
+    ];
+
+    const mockClient = (received: AgentEvent[], closed: number[] = []) => ({
+      readyState: 1,
+      send: (data: string) => { received.push(JSON.parse(data)); },
+      close: (code: number) => { closed.push(code); },
+      on: () => {},
+      ping: () => {},
+      terminate: () => {}
+    } as unknown as WebSocket);
+
+    it('should read the token from the connect URL', () => {
+      assert.deepStrictEqual(parseConnectOptions('/ws?protocol=1&token=abc&lastSeq=2'), { protocolVersion: 1, resumeFrom: 2, token: 'abc' });
+    });
+
+    it('should admit a client with a valid token in the URL', () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-auth', { accessTokens: tokens });
+      const received: AgentEvent[] = [];
+      streamer.addClient(mockClient(received), { token: 'viewer-token' });
+
+      assert.deepStrictEqual(received.map(e => e.eventType), ['snapshot']);
+    });
+
+    it('should close with 4401 on an invalid token', () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-auth', { accessTokens: tokens });
+      const received: AgentEvent[] = [];
+      const closed: number[] = [];
+      streamer.addClient(mockClient(received, closed), { token: 'wrong' });
+
+      assert.deepStrictEqual(closed, [CLOSE_UNAUTHORIZED]);
+      assert.strictEqual(received.length, 0);
+      assert.strictEqual(streamer.getClientCount(), 0);
+    });
+
+    it('should hold back events until the first message authenticates', () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-auth', { accessTokens: tokens });
+      const received: AgentEvent[] = [];
+      const clientId = streamer.addClient(mockClient(received));
+      streamer.broadcast({
+        timestamp: new Date().toISOString(),
+        agentId: 'agent:a',
+        eventType: 'token_update',
+        payload: { previousTokens: 0, currentTokens: 10, delta: 10, inputDelta: 6, outputDelta: 4 }
+      });
+      assert.strictEqual(received.length, 0);
+
+      streamer.handleClientMessage(clientId, JSON.stringify({ type: 'auth', token: 'admin-token' }));
+
+      assert.deepStrictEqual(received.map(e => e.eventType), ['authenticated', 'snapshot']);
+      assert.strictEqual(payloadOf(received[0], 'authenticated').role, 'admin');
+      streamer.removeClient(clientId);
+    });
+
+    it('should close a client whose first message is not a valid auth message', () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-auth', { accessTokens: tokens });
+      const closed: number[] = [];
+      const clientId = streamer.addClient(mockClient([], closed));
+
+      streamer.handleClientMessage(clientId, JSON.stringify({ type: 'get_snapshot' }));
+
+      assert.deepStrictEqual(closed, [CLOSE_UNAUTHORIZED]);
+      assert.strictEqual(streamer.getClientCount(), 0);
+    });
+
+    it('should close a client that does not authenticate in time', async () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-auth', { accessTokens: tokens, authTimeoutMs: 20 });
+      const closed: number[] = [];
+      streamer.addClient(mockClient([], closed));
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      assert.deepStrictEqual(closed, [CLOSE_UNAUTHORIZED]);
+      assert.strictEqual(streamer.getClientCount(), 0);
+    });
+
+    it('should only let admins run admin commands', () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-auth', { accessTokens: tokens });
+      const viewerEvents: AgentEvent[] = [];
+      const adminEvents: AgentEvent[] = [];
+      const viewer = streamer.addClient(mockClient(viewerEvents), { token: 'viewer-token' });
+      const admin = streamer.addClient(mockClient(adminEvents), { token: 'admin-token' });
+      viewerEvents.length = 0;
+      adminEvents.length = 0;
+
+      streamer.handleClientMessage(viewer, JSON.stringify({ type: 'clear_cache' }));
+      assert.deepStrictEqual(viewerEvents.map(e => e.payload), [{ command: 'clear_cache', ok: false, error: 'Admin role required' }]);
+
+      viewerEvents.length = 0;
+      streamer.handleClientMessage(admin, JSON.stringify({ type: 'resync' }));
+
+      // Everyone gets the fresh snapshot; only the admin gets the result
+      assert.deepStrictEqual(viewerEvents.map(e => e.eventType), ['snapshot']);
+      assert.deepStrictEqual(adminEvents.map(e => e.eventType), ['snapshot', 'command_result']);
+      assert.deepStrictEqual(adminEvents[1].payload, { command: 'resync', ok: true });
+    });
+  });
+
+  describe('Redaction', () => {
+    it('should redact payloads before they are sent or recorded', () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-redaction', { redaction: { patterns: ['internal-[0-9]+'] } });
+      const received: AgentEvent[] = [];
+      streamer.addClient({
+        readyState: 1,
+        send: (data: string) => { received.push(JSON.parse(data)); },
+        on: () => {},
+        ping: () => {},
+        terminate: () => {}
+      } as unknown as WebSocket);
+      received.length = 0;
+
+      const event = toolCall('agent:dev', { arguments: 'AWS_SECRET_ACCESS_KEY=wJalrXUtnFEMI host internal-42' });
+      const payload = payloadOf(event, 'tool_called');
+      streamer.broadcast(event);
+
+      assert.strictEqual(payloadOf(received[0], 'tool_called').arguments, 'AWS_SECRET_ACCESS_KEY=[REDACTED] host [REDACTED]');
+      assert.strictEqual(payload.arguments, 'AWS_SECRET_ACCESS_KEY=wJalrXUtnFEMI host internal-42');
+
+      // A resuming client replays the redacted copy
+      const replayed: AgentEvent[] = [];
+      streamer.addClient({
+        readyState: 1,
+        send: (data: string) => { replayed.push(JSON.parse(data)); },
+        on: () => {},
+        ping: () => {},
+        terminate: () => {}
+      } as unknown as WebSocket, { resumeFrom: 0 });
+      assert.strictEqual(payloadOf(replayed[0], 'tool_called').arguments, 'AWS_SECRET_ACCESS_KEY=[REDACTED] host [REDACTED]');
+    });
+  });
+
+  describe('Backpressure', () => {
+    const slowClient = (received: AgentEvent[], closed: number[] = []) => ({
+      readyState: 1,
+      bufferedAmount: 0,
+      send: (data: string) => { received.push(JSON.parse(data)); },
+      close: (code: number) => { closed.push(code); },
+      on: () => {},
+      ping: () => {},
+      terminate: () => {}
+    });
+
+    const tokenUpdate = (agentId: string, previousTokens: number, currentTokens: number): AgentEvent => ({
+      timestamp: new Date().toISOString(),
+      agentId,
+      eventType: 'token_update',
+      payload: { previousTokens, currentTokens, delta: currentTokens - previousTokens, inputDelta: 0, outputDelta: 0 }
+    });
+
+    it('should coalesce token updates and drop heartbeats while a client is congested', () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-backpressure', { backpressureBytes: 1000 });
+      const received: AgentEvent[] = [];
+      const ws = slowClient(received);
+      streamer.addClient(ws as unknown as WebSocket);
+      received.length = 0;
+
+      ws.bufferedAmount = 5000;
+      streamer.broadcast(tokenUpdate('agent:a', 100, 150));
+      streamer.broadcast(tokenUpdate('agent:a', 150, 200));
+      streamer.broadcast({ timestamp: new Date().toISOString(), agentId: 'system', eventType: 'heartbeat', payload: {} });
+      streamer.broadcast(toolCall('agent:a'));
+
+      // Everything else still goes out
+      assert.deepStrictEqual(received.map(e => e.eventType), ['tool_called']);
+      assert.strictEqual(streamer.getClientMetrics()[0].congested, true);
+      assert.strictEqual(streamer.getClientMetrics()[0].deferredEvents, 1);
+
+      ws.bufferedAmount = 0;
+      streamer.broadcast(toolCall('agent:b'));
+
+      const coalesced = received.find(e => e.eventType === 'token_update');
+      assert.ok(coalesced);
+      assert.strictEqual(coalesced.seq, undefined);
+      assert.deepStrictEqual(
+        { previous: coalesced.payload.previousTokens, current: coalesced.payload.currentTokens, delta: coalesced.payload.delta },
+        { previous: 100, current: 200, delta: 100 }
+      );
+      const [metrics] = streamer.getClientMetrics();
+      assert.strictEqual(metrics.congested, false);
+      assert.strictEqual(metrics.deferredEvents, 0);
+      // The superseded token update and the heartbeat
+      assert.strictEqual(metrics.droppedEvents, 2);
+    });
+
+    it('should disconnect a client that exceeds the buffer limit', () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-backpressure', {
+        backpressureBytes: 1000,
+        maxBufferedBytes: 10000
+      });
+      const closed: number[] = [];
+      const ws = slowClient([], closed);
+      streamer.addClient(ws as unknown as WebSocket);
+
+      ws.bufferedAmount = 20000;
+      streamer.broadcast(tokenUpdate('agent:a', 100, 150));
+
+      assert.deepStrictEqual(closed, [CLOSE_SLOW_CONSUMER]);
+      assert.strictEqual(streamer.getClientCount(), 0);
+    });
+
+    it('should disconnect a client that stays congested too long', async () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-backpressure', {
+        backpressureBytes: 1000,
+        slowClientTimeoutMs: 20
+      });
+      const closed: number[] = [];
+      const ws = slowClient([], closed);
+      streamer.addClient(ws as unknown as WebSocket);
+
+      ws.bufferedAmount = 5000;
+      streamer.broadcast(tokenUpdate('agent:a', 100, 150));
+      assert.strictEqual(streamer.getClientCount(), 1);
+
+      await new Promise(resolve => setTimeout(resolve, 30));
+      streamer.broadcast(tokenUpdate('agent:a', 150, 200));
+
+      assert.deepStrictEqual(closed, [CLOSE_SLOW_CONSUMER]);
+      assert.strictEqual(streamer.getClientCount(), 0);
+    });
+  });
+
+  describe('Batching and agent patches', () => {
+    const frameClient = (frames: AgentEvent[]) => ({
+      readyState: 1,
+      send: (data: string) => { frames.push(JSON.parse(data)); },
+      on: () => {},
+      ping: () => {},
+      terminate: () => {}
+    } as unknown as WebSocket);
+
+    const agentUpdate = (totalTokens: number): AgentEvent => ({
+      timestamp: new Date().toISOString(),
+      agentId: 'agent:dev',
+      eventType: 'agent_updated',
+      payload: {
+        agent: {
+          agentId: 'agent:dev',
+          agentName: 'dev',
+          status: 'active',
+          currentModel: 'k2p5',
+          totalTokens,
+          inputTokens: 0,
+          outputTokens: 0,
+          cost: 0,
+          contextPct: 0,
+          lastActivity: '',
+          sessions: [],
+          toolsUsed: [],
+          skills: []
+        }
+      }
+    });
+
+    it('should parse the protocol options from the connect URL', () => {
+      assert.deepStrictEqual(parseConnectOptions('/ws?protocol=1&batch=250&deltas=1'), { protocolVersion: 1, batchMs: 250, agentDeltas: true });
+      assert.deepStrictEqual(parseConnectOptions('/ws?protocol=1&batch=1'), { protocolVersion: 1, batchMs: 10 });
+      assert.deepStrictEqual(parseConnectOptions('/ws?protocol=1&batch=abc&deltas=0'), { protocolVersion: 1 });
+    });
+
+    it('should send queued events as one batch frame per interval', async () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-batching');
+      const frames: AgentEvent[] = [];
+      const clientId = streamer.addClient(frameClient(frames), { batchMs: 20 });
+      frames.length = 0;
+
+      for (const id of ['agent:a', 'agent:b', 'agent:c']) {
+        streamer.broadcast(toolCall(id));
+      }
+      assert.strictEqual(frames.length, 0);
+
+      await new Promise(resolve => setTimeout(resolve, 40));
+
+      assert.deepStrictEqual(frames.map(f => f.eventType), ['batch']);
+      const events = payloadOf(frames[0], 'batch').events;
+      assert.deepStrictEqual(events.map(e => e.agentId), ['agent:a', 'agent:b', 'agent:c']);
+      assert.deepStrictEqual(events.map(e => e.seq), [1, 2, 3]);
+      streamer.removeClient(clientId);
+    });
+
+    it('should flush the batch before a direct reply', () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-batching');
+      const frames: AgentEvent[] = [];
+      const clientId = streamer.addClient(frameClient(frames), { batchMs: 1000 });
+      frames.length = 0;
+
+      streamer.broadcast(toolCall('agent:a'));
+      streamer.handleClientMessage(clientId, JSON.stringify({ type: 'get_snapshot' }));
+
+      assert.deepStrictEqual(frames.map(f => f.eventType), ['batch', 'snapshot']);
+      streamer.removeClient(clientId);
+    });
+
+    it('should send agent states as patches against the acknowledged version', () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-batching');
+      const frames: AgentEvent[] = [];
+      const fullStates: AgentEvent[] = [];
+      const clientId = streamer.addClient(frameClient(frames), { agentDeltas: true });
+      streamer.addClient(frameClient(fullStates));
+      frames.length = 0;
+      fullStates.length = 0;
+
+      streamer.broadcast(agentUpdate(100));
+      const first = payloadOf(frames[0], 'agent_updated');
+      assert.ok(first.agent, 'Nothing acknowledged yet, so the full state is sent');
+      streamer.handleClientMessage(clientId, JSON.stringify({ type: 'ack', version: first.stateVersion }));
+
+      streamer.broadcast(agentUpdate(150));
+      const patched = payloadOf(frames[1], 'agent_updated');
+      assert.strictEqual(patched.agent, undefined);
+      assert.deepStrictEqual(patched.agentPatch, {
+        version: Number(first.stateVersion) + 1,
+        baseVersion: first.stateVersion,
+        changes: { totalTokens: 150 },
+        removed: []
+      });
+
+      // Clients that did not opt in keep receiving full states
+      assert.strictEqual(payloadOf(fullStates[1], 'agent_updated').agent?.totalTokens, 150);
+    });
+  });
+
+  describe('Protocol', () => {
+    const mockClient = (received: AgentEvent[], closed: number[] = []) => ({
+      readyState: 1,
+      send: (data: string) => { received.push(JSON.parse(data)); },
+      close: (code: number) => { closed.push(code); },
+      on: () => {},
+      ping: () => {},
+      terminate: () => {}
+    } as unknown as WebSocket);
+
+    it('should read the protocol version from the connect URL', () => {
+      assert.deepStrictEqual(parseConnectOptions('/ws?protocol=1'), { protocolVersion: 1 });
+      assert.deepStrictEqual(parseConnectOptions('/ws?protocol=next'), { protocolVersion: -1 });
+      assert.deepStrictEqual(parseConnectOptions('/ws'), { protocolVersion: null });
+    });
+
+    it('should explain and close with 4426 for a client that announces no protocol version', () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-protocol');
+      const received: AgentEvent[] = [];
+      const closed: number[] = [];
+      streamer.addClient(mockClient(received, closed), parseConnectOptions('/ws?agent=agent:a'));
+
+      assert.deepStrictEqual(received.map(e => e.eventType), ['protocol_error']);
+      assert.match(payloadOf(received[0], 'protocol_error').error, /No protocol version announced/);
+      assert.deepStrictEqual(closed, [CLOSE_PROTOCOL_MISMATCH]);
+    });
+
+    it('should announce the protocol version in the snapshot', () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-protocol');
+      const received: AgentEvent[] = [];
+      const clientId = streamer.addClient(mockClient(received), { protocolVersion: PROTOCOL_VERSION });
+
+      assert.strictEqual(payloadOf(received[0], 'snapshot').protocolVersion, PROTOCOL_VERSION);
+      assert.ok(validateAgentEvent(received[0]).ok);
+      streamer.removeClient(clientId);
+    });
+
+    it('should explain and close with 4426 for another protocol version', () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-protocol');
+      const received: AgentEvent[] = [];
+      const closed: number[] = [];
+      streamer.addClient(mockClient(received, closed), { protocolVersion: PROTOCOL_VERSION + 1 });
+
+      assert.deepStrictEqual(received.map(e => e.eventType), ['protocol_error']);
+      assert.match(payloadOf(received[0], 'protocol_error').error, /not supported/);
+      assert.deepStrictEqual(closed, [CLOSE_PROTOCOL_MISMATCH]);
+      assert.strictEqual(streamer.getClientCount(), 0);
+    });
+
+    it('should answer a malformed message with a protocol error', () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-protocol');
+      const received: AgentEvent[] = [];
+      const clientId = streamer.addClient(mockClient(received));
+      received.length = 0;
+
+      streamer.handleClientMessage(clientId, JSON.stringify({ type: 'resume', lastSeq: 'latest' }));
+      streamer.handleClientMessage(clientId, 'not json');
+
+      assert.deepStrictEqual(received.map(e => payloadOf(e, 'protocol_error').error), [
+        'Invalid message: resume.lastSeq: expected number',
+        'Invalid message: not valid JSON'
+      ]);
+      assert.strictEqual(streamer.getClientCount(), 1);
+      streamer.removeClient(clientId);
+    });
+
+    it('should only send events that pass validation', () => {
+      const streamer = new AgentActivityStreamer('/tmp/test-openclaw-protocol');
+      const received: AgentEvent[] = [];
+      const clientId = streamer.addClient(mockClient(received));
+      streamer.broadcast(toolCall('agent:dev'));
+      streamer.handleClientMessage(clientId, JSON.stringify({ type: 'subscribe', filter: { agentIds: ['agent:dev'] } }));
+      streamer.handleClientMessage(clientId, JSON.stringify({ type: 'ping' }));
+
+      assert.deepStrictEqual(received.map(e => e.eventType), ['snapshot', 'tool_called', 'subscription_updated', 'heartbeat']);
+      for (const event of received) {
+        assert.ok(validateAgentEvent(event).ok, event.eventType);
+      }
+      streamer.removeClient(clientId);
+    });
+  });
 });
@@ -0,0 +1,106 @@
+import React from 'react';
+import type { AgentState } from '../shared/types.js';
+
+const STATUS_COLORS: Record<AgentState['status'], string> = {
+  active: '#16a34a',
+  waiting_for_tool: '#2563eb',
+  idle: '#ca8a04',
+  stalled: '#ea580c',
+  errored: '#dc2626',
+  ended: '#6b7280'
+};
+
+/**
+ * Render an ISO timestamp as a short relative time; pass other strings through
+ */
+function formatLastActivity(lastActivity: string): string {
+  const time = Date.parse(lastActivity);
+  if (!lastActivity || Number.isNaN(time)) {
+    return lastActivity || '—';
+  }
+
+  const seconds = Math.max(0, Math.round((Date.now() - time) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return new Date(time).toLocaleString();
+}
+
+/**
+ * Format a USD amount, keeping sub-cent spend visible
+ */
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+}
+
+interface AgentCardProps {
+  agent: AgentState;
+  selected?: boolean;
+  onSelect?: (agentId: string) => void;
+}
+
+function AgentCard({ agent, selected = false, onSelect }: AgentCardProps): React.ReactElement {
+  const contextPct = Math.min(100, Math.max(0, agent.contextPct));
+
+  return (
+    <div
+      onClick={onSelect ? () => onSelect(agent.agentId) : undefined}
+      style={{
+        border: `1px solid ${selected ? '#2563eb' : '#e5e7eb'}`,
+        borderRadius: 8,
+        padding: '1rem',
+        background: '#fff',
+        cursor: onSelect ? 'pointer' : undefined,
+        opacity: agent.status === 'ended' ? 0.6 : 1
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <strong>{agent.agentName}</strong>
+        <span style={{
+          color: '#fff',
+          background: STATUS_COLORS[agent.status] ?? '#6b7280',
+          borderRadius: 999,
+          padding: '0.1rem 0.6rem',
+          fontSize: '0.75rem'
+        }}>
+          {agent.status.replace(/_/g, ' ')}
+        </span>
+      </div>
+
+      <dl style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '0.25rem 0.75rem', margin: '0.75rem 0', fontSize: '0.875rem' }}>
+        <dt style={{ color: '#6b7280' }}>Model</dt>
+        <dd style={{ margin: 0 }}>{agent.currentModel}</dd>
+        <dt style={{ color: '#6b7280' }}>Tokens</dt>
+        <dd style={{ margin: 0 }}>{agent.totalTokens.toLocaleString()}</dd>
+        <dt style={{ color: '#6b7280' }}>Cost</dt>
+        <dd style={{ margin: 0 }} title={`${agent.inputTokens.toLocaleString()} in / ${agent.outputTokens.toLocaleString()} out`}>
+          {formatCost(agent.cost)}
+        </dd>
+        <dt style={{ color: '#6b7280' }}>Last activity</dt>
+        <dd style={{ margin: 0 }}>{formatLastActivity(agent.lastActivity)}</dd>
+      </dl>
+
+      <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>Context {contextPct.toFixed(1)}%</div>
+      <div style={{ height: 6, background: '#f3f4f6', borderRadius: 3, overflow: 'hidden', margin: '0.25rem 0 0.75rem' }}>
+        <div style={{
+          width: `${contextPct}%`,
+          height: '100%',
+          background: contextPct >= 80 ? '#dc2626' : '#2563eb'
+        }} />
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.25rem' }}>
+        {agent.toolsUsed.length === 0 && (
+          <span style={{ fontSize: '0.75rem', color: '#9ca3af' }}>No tools used</span>
+        )}
+        {agent.toolsUsed.map(tool => (
+          <span key={tool} style={{ fontSize: '0.75rem', background: '#eef2ff', borderRadius: 4, padding: '0.1rem 0.4rem' }}>
+            {tool}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default AgentCard;
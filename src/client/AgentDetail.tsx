@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import SessionWaterfall from './SessionWaterfall';
+import { useApi } from './useApi';
+import type { AgentDetails, AgentSessionInfo, AgentState, SessionTimeline } from '../shared/types.js';
+
+const TIMELINE_REFRESH_MS = 3000;
+
+/**
+ * Sessions of one agent; selecting a session shows its live event waterfall
+ */
+function AgentDetail({ agent, onClose }: { agent: AgentState; onClose: () => void }): React.ReactElement {
+  const agentPath = `/api/agents/${encodeURIComponent(agent.agentId)}`;
+  const details = useApi<AgentDetails>(agentPath);
+  const sessions = useApi<AgentSessionInfo[]>(`${agentPath}/sessions`);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const timeline = useApi<SessionTimeline>(
+    sessionId ? `${agentPath}/sessions/${encodeURIComponent(sessionId)}/timeline` : null,
+    TIMELINE_REFRESH_MS
+  );
+
+  // Open the most recent session by default
+  useEffect(() => {
+    setSessionId(null);
+  }, [agent.agentId]);
+  useEffect(() => {
+    if (!sessionId && sessions.data?.length) {
+      setSessionId(sessions.data[0].sessionId);
+    }
+  }, [sessionId, sessions.data]);
+
+  return (
+    <section style={{ border: '1px solid #e5e7eb', borderRadius: 8, background: '#fff', padding: '1rem', marginBottom: '1rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+        <h2 style={{ margin: 0, fontSize: '1.1rem' }}>{agent.agentName} sessions</h2>
+        <button type="button" onClick={onClose}>Close</button>
+      </div>
+      {details.data?.aliases.length ? (
+        <p style={{ color: '#6b7280', fontSize: '0.8rem', margin: '0.25rem 0 0' }}>
+          Also known as {details.data.aliases.join(', ')}
+        </p>
+      ) : null}
+
+      {sessions.error && <p style={{ color: '#dc2626' }}>{sessions.error}</p>}
+      {sessions.data?.length === 0 && <p style={{ color: '#9ca3af' }}>No sessions recorded.</p>}
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.25rem', margin: '0.75rem 0' }}>
+        {sessions.data?.map(session => (
+          <button
+            key={session.sessionId}
+            type="button"
+            onClick={() => setSessionId(session.sessionId)}
+            style={{ fontWeight: session.sessionId === sessionId ? 'bold' : 'normal' }}
+            title={`${session.model} · ${session.totalTokens.toLocaleString()} tokens`}
+          >
+            {session.label || session.sessionId}
+            <span style={{ color: '#6b7280' }}> · {new Date(session.updatedAt).toLocaleString()}</span>
+          </button>
+        ))}
+      </div>
+
+      {timeline.error && <p style={{ color: '#dc2626' }}>{timeline.error}</p>}
+      {timeline.loading && !timeline.data && <p style={{ color: '#9ca3af' }}>Loading timeline…</p>}
+      {timeline.data && <SessionWaterfall timeline={timeline.data} />}
+    </section>
+  );
+}
+
+export default AgentDetail;
@@ -1,10 +1,82 @@
-import React from 'react';
+import React, { useState } from 'react';
+import AgentCard, { formatCost } from './AgentCard';
+import AgentDetail from './AgentDetail';
+import TokenCharts from './TokenCharts';
+import WorkspaceTree from './WorkspaceTree';
+import { filterFromLocation, useAgentStream, type ConnectionStatus, type StreamProtocol } from './useAgentStream';
+import type { AgentState } from '../shared/types.js';
+
+const CONNECTION_LABELS: Record<ConnectionStatus, string> = {
+  connecting: 'Connecting…',
+  open: 'Live',
+  reconnecting: 'Reconnecting…',
+  unauthorized: 'Access denied: add a valid ?token= to the URL',
+  incompatible: 'Dashboard and server versions differ: reload the page'
+};
+
+// Problems first so they are not lost at the bottom of a long grid
+const STATUS_ORDER: Record<AgentState['status'], number> = {
+  errored: 0,
+  stalled: 1,
+  waiting_for_tool: 2,
+  active: 3,
+  idle: 4,
+  ended: 5
+};
+
+const URL_FILTER = filterFromLocation();
+// Batch frames and patch agent states; busy multi-agent runs otherwise send a frame per change
+const STREAM_PROTOCOL: StreamProtocol = { batchMs: 250, agentDeltas: true };
 
 function App(): React.ReactElement {
+  const { agents, runs, status, requestSnapshot, subscribe } = useAgentStream(URL_FILTER, STREAM_PROTOCOL);
+  const [selectedAgentId, setSelectedAgentId] = useState<string | null>(null);
+  const selectedAgent = selectedAgentId ? agents[selectedAgentId] : undefined;
+
+  const totalCost = Object.values(agents).reduce((sum, agent) => sum + (agent.cost || 0), 0);
+  const sortedAgents = Object.values(agents).sort((a, b) =>
+    STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || a.agentName.localeCompare(b.agentName)
+  );
+
   return (
-    <div style={{ padding: '2rem', fontFamily: 'system-ui, sans-serif' }}>
-      <h1>Agent Activity Visualizer</h1>
-      <p>Real-time OpenClaw agent activity dashboard</p>
+    <div style={{ padding: '2rem', fontFamily: 'system-ui, sans-serif', background: '#f9fafb', minHeight: '100vh' }}>
+      <header style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+        <div>
+          <h1 style={{ margin: 0 }}>Agent Activity Visualizer</h1>
+          <p style={{ color: '#6b7280' }}>Real-time OpenClaw agent activity dashboard</p>
+        </div>
+        <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'baseline' }}>
+          <span title="Spend across all visible agents">{formatCost(totalCost)}</span>
+          <span style={{ color: status === 'open' ? '#16a34a' : '#ca8a04' }}>
+            ● {CONNECTION_LABELS[status]}
+          </span>
+          <button type="button" onClick={requestSnapshot} disabled={status !== 'open'}>
+            Refresh
+          </button>
+        </div>
+      </header>
+
+      <TokenCharts agents={agents} subscribe={subscribe} filter={URL_FILTER} />
+      <WorkspaceTree runs={runs} />
+
+      {selectedAgent && (
+        <AgentDetail agent={selectedAgent} onClose={() => setSelectedAgentId(null)} />
+      )}
+
+      {sortedAgents.length === 0 ? (
+        <p style={{ color: '#9ca3af' }}>No agent activity yet.</p>
+      ) : (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))', gap: '1rem' }}>
+          {sortedAgents.map(agent => (
+            <AgentCard
+              key={agent.agentId}
+              agent={agent}
+              selected={agent.agentId === selectedAgentId}
+              onSelect={agentId => setSelectedAgentId(current => current === agentId ? null : agentId)}
+            />
+          ))}
+        </div>
+      )}
     </div>
   );
 }
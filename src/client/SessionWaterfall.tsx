@@ -0,0 +1,104 @@
+import React from 'react';
+import type { SessionTimeline, TimelineEntry } from '../shared/types.js';
+
+const TOOL_COLORS = {
+  pending: '#2563eb',
+  success: '#16a34a',
+  error: '#dc2626'
+} as const;
+
+function formatTime(timestamp: string | null): string {
+  return timestamp ? new Date(timestamp).toLocaleTimeString() : '—';
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '';
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function describe(entry: TimelineEntry): string {
+  switch (entry.kind) {
+    case 'message':
+      return `${entry.role}: ${entry.preview}`;
+    case 'tool_call':
+      return `${entry.toolName}${entry.arguments ? ` ${entry.arguments}` : ''}`;
+    case 'model_switch':
+      return entry.previousModel ? `model ${entry.previousModel} → ${entry.model}` : `model ${entry.model}`;
+  }
+}
+
+/**
+ * Chronological waterfall of a session: tool calls are bars spanning their duration,
+ * messages and model switches are markers
+ */
+function SessionWaterfall({ timeline }: { timeline: SessionTimeline }): React.ReactElement {
+  // A page that starts mid-session is scaled from its own first entry
+  const start = Date.parse((timeline.offset > 0 ? timeline.entries[0]?.timestamp : timeline.startedAt) ?? '');
+  const end = Date.parse(timeline.endedAt ?? '');
+  const span = Number.isFinite(start) && Number.isFinite(end) ? Math.max(1, end - start) : 1;
+
+  const offsetPct = (timestamp: string | null): number => {
+    const time = Date.parse(timestamp ?? '');
+    return Number.isFinite(time) && Number.isFinite(start) ? ((time - start) / span) * 100 : 0;
+  };
+
+  if (timeline.entries.length === 0) {
+    return <p style={{ color: '#9ca3af' }}>This session has no events yet.</p>;
+  }
+
+  return (
+    <div style={{ fontSize: '0.8rem', fontFamily: 'ui-monospace, monospace' }}>
+      {timeline.offset > 0 && (
+        <p style={{ color: '#9ca3af', margin: '0 0 0.25rem' }}>
+          Latest {timeline.entries.length.toLocaleString()} of {timeline.totalEntries.toLocaleString()} events
+        </p>
+      )}
+      {timeline.entries.map((entry, index) => {
+        const left = offsetPct(entry.timestamp);
+        let bar: React.ReactElement;
+
+        if (entry.kind === 'tool_call') {
+          // Pending calls run to the end of the session so far
+          const right = entry.status === 'pending' ? 100 : offsetPct(entry.completedAt ?? entry.timestamp);
+          bar = (
+            <div style={{
+              position: 'absolute',
+              left: `${left}%`,
+              width: `${Math.max(0.5, right - left)}%`,
+              top: 3,
+              bottom: 3,
+              borderRadius: 2,
+              background: TOOL_COLORS[entry.status]
+            }} />
+          );
+        } else {
+          bar = (
+            <div style={{
+              position: 'absolute',
+              left: `${left}%`,
+              top: 2,
+              bottom: 2,
+              width: 2,
+              background: entry.kind === 'model_switch' ? '#9333ea' : '#6b7280'
+            }} />
+          );
+        }
+
+        return (
+          <div key={timeline.offset + index} style={{ display: 'grid', gridTemplateColumns: '6rem 1fr 14rem 4rem', gap: '0.5rem', alignItems: 'center', padding: '0.1rem 0' }}>
+            <span style={{ color: '#6b7280' }}>{formatTime(entry.timestamp)}</span>
+            <span title={describe(entry)} style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {describe(entry)}
+            </span>
+            <div style={{ position: 'relative', height: 14, background: '#f3f4f6', borderRadius: 2 }}>{bar}</div>
+            <span style={{ textAlign: 'right', color: entry.kind === 'tool_call' && entry.status === 'error' ? '#dc2626' : '#6b7280' }}>
+              {entry.kind === 'tool_call' ? formatDuration(entry.durationMs) || entry.status : ''}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default SessionWaterfall;
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { advanceSeries, applyTokenUpdate } from './tokenSeries';
+import type { AgentStream } from './useAgentStream';
+import { useApi } from './useApi';
+import { isEmptyFilter, type SubscriptionFilter } from '../shared/subscription.js';
+import type { AgentState, TokenHistorySeries, TokenHistoryWindow, TokenRatePoint } from '../shared/types.js';
+
+const WINDOWS: TokenHistoryWindow[] = ['15m', '1h', '24h'];
+const INPUT_COLOR = '#2563eb';
+const OUTPUT_COLOR = '#16a34a';
+const TOTAL_COLOR = '#111827';
+
+interface ChartProps {
+  points: TokenRatePoint[];
+  height: number;
+  breakdown?: boolean;
+}
+
+/**
+ * SVG path through evenly spaced values scaled into a width x height box
+ */
+function linePath(values: number[], max: number, width: number, height: number): string {
+  const step = values.length > 1 ? width / (values.length - 1) : width;
+  return values
+    .map((value, index) => `${index === 0 ? 'M' : 'L'}${(index * step).toFixed(1)},${(height - (value / max) * height).toFixed(1)}`)
+    .join(' ');
+}
+
+function areaPath(lower: number[], upper: number[], max: number, width: number, height: number): string {
+  const top = linePath(upper, max, width, height);
+  const bottom = linePath([...lower].reverse(), max, width, height).replace(/^M/, 'L');
+  return `${top} ${bottom} Z`;
+}
+
+/**
+ * Token rate chart; with a breakdown, input and output are stacked under the total line
+ */
+function RateChart({ points, height, breakdown = false }: ChartProps): React.ReactElement {
+  const width = 600;
+  const totals = points.map(point => point.total);
+  const max = Math.max(1, ...totals, ...points.map(point => point.input + point.output));
+  const zeros = points.map(() => 0);
+  const inputs = points.map(point => point.input);
+  const stacked = points.map(point => point.input + point.output);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" style={{ width: '100%', height, display: 'block' }}>
+      {breakdown && (
+        <>
+          <path d={areaPath(zeros, inputs, max, width, height)} fill={INPUT_COLOR} fillOpacity={0.35} />
+          <path d={areaPath(inputs, stacked, max, width, height)} fill={OUTPUT_COLOR} fillOpacity={0.35} />
+        </>
+      )}
+      <path d={linePath(totals, max, width, height)} fill="none" stroke={TOTAL_COLOR} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+}
+
+function peakRate(points: TokenRatePoint[]): number {
+  return Math.max(0, ...points.map(point => point.total));
+}
+
+function averageRate(points: TokenRatePoint[]): number {
+  return points.length ? points.reduce((sum, point) => sum + point.total, 0) / points.length : 0;
+}
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate).toLocaleString()}/min`;
+}
+
+interface TokenChartsProps {
+  agents: Record<string, AgentState>;
+  subscribe: AgentStream['subscribe'];
+  filter: SubscriptionFilter;
+}
+
+/**
+ * History for the same agents the stream delivers: everything when unfiltered,
+ * otherwise the agents the filtered dashboard shows, once it knows them
+ */
+function historyPath(range: TokenHistoryWindow, filter: SubscriptionFilter, agentIds: string): string | null {
+  if (isEmptyFilter(filter)) return `/api/tokens/history?window=${range}`;
+  return agentIds ? `/api/tokens/history?window=${range}&agentId=${encodeURIComponent(agentIds)}` : null;
+}
+
+/**
+ * Aggregate and per-agent token rate charts over a selectable window. The REST
+ * history fills the window in; streamed token updates keep it live from there.
+ */
+function TokenCharts({ agents, subscribe, filter }: TokenChartsProps): React.ReactElement {
+  const [range, setRange] = useState<TokenHistoryWindow>('1h');
+  const agentIds = Object.keys(agents).sort().join(',');
+  const history = useApi<TokenHistorySeries>(historyPath(range, filter, agentIds));
+  const [series, setSeries] = useState<TokenHistorySeries | null>(null);
+
+  useEffect(() => {
+    setSeries(history.data);
+  }, [history.data]);
+
+  useEffect(() => subscribe(event => {
+    if (event.eventType === 'token_update') {
+      setSeries(current => current && applyTokenUpdate(current, event));
+    }
+  }), [subscribe]);
+
+  // Keep the window sliding while nothing is being used
+  const bucketMs = series?.bucketMs;
+  useEffect(() => {
+    if (!bucketMs) return;
+    const timer = setInterval(() => {
+      setSeries(current => current && advanceSeries(current, Date.now()));
+    }, bucketMs);
+    return () => clearInterval(timer);
+  }, [bucketMs]);
+
+  return (
+    <section style={{ border: '1px solid #e5e7eb', borderRadius: 8, background: '#fff', padding: '1rem', marginBottom: '1rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+        <h2 style={{ margin: 0, fontSize: '1.1rem' }}>Token usage</h2>
+        <div style={{ display: 'flex', gap: '0.25rem' }}>
+          {WINDOWS.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setRange(option)}
+              style={{ fontWeight: option === range ? 'bold' : 'normal' }}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {history.error && <p style={{ color: '#dc2626' }}>{history.error}</p>}
+      {series && (
+        <>
+          <div style={{ display: 'flex', gap: '1rem', fontSize: '0.8rem', color: '#6b7280', margin: '0.5rem 0' }}>
+            <span>Peak {formatRate(peakRate(series.aggregate))}</span>
+            <span>Average {formatRate(averageRate(series.aggregate))}</span>
+            <span style={{ color: INPUT_COLOR }}>■ input</span>
+            <span style={{ color: OUTPUT_COLOR }}>■ output</span>
+            <span style={{ color: TOTAL_COLOR }}>— total</span>
+          </div>
+          <RateChart points={series.aggregate} height={120} breakdown />
+
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))', gap: '0.75rem', marginTop: '1rem' }}>
+            {Object.entries(series.agents).map(([agentId, points]) => (
+              <div key={agentId}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.8rem' }}>
+                  <span>{agents[agentId]?.agentName ?? agentId}</span>
+                  <span style={{ color: '#6b7280' }}>peak {formatRate(peakRate(points))}</span>
+                </div>
+                <RateChart points={points} height={40} breakdown />
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
+export default TokenCharts;
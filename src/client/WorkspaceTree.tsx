@@ -0,0 +1,84 @@
+import React from 'react';
+import type { RunsByKey } from './runReducer';
+import type { WorkspaceRun } from '../shared/types.js';
+
+const STATUS_COLORS: Record<WorkspaceRun['status'], string> = {
+  active: '#16a34a',
+  ended: '#6b7280'
+};
+
+/**
+ * Elapsed time between two ISO timestamps, or until now for open ranges
+ */
+function formatElapsed(startedAt: string, endedAt: string | null): string {
+  const ms = Math.max(0, (endedAt ? Date.parse(endedAt) : Date.now()) - Date.parse(startedAt));
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return `${Math.floor(ms / 1000)}s`;
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function StatusDot({ status }: { status: WorkspaceRun['status'] }): React.ReactElement {
+  return <span style={{ color: STATUS_COLORS[status] }} title={status}>●</span>;
+}
+
+function RunNode({ run }: { run: WorkspaceRun }): React.ReactElement {
+  return (
+    <details open={run.status === 'active'} style={{ marginLeft: '1rem' }}>
+      <summary style={{ cursor: 'pointer' }}>
+        <StatusDot status={run.status} /> {run.runId}
+        <span style={{ color: '#6b7280' }}>
+          {' '}· {run.agents.length} agent{run.agents.length === 1 ? '' : 's'}
+          {' '}· {run.totalTokens.toLocaleString()} tokens
+          {' '}· {new Date(run.startedAt).toLocaleString()} ({formatElapsed(run.startedAt, run.endedAt)})
+        </span>
+      </summary>
+      <ul style={{ listStyle: 'none', margin: 0, paddingLeft: '1.5rem' }}>
+        {run.agents.map(agent => (
+          <li key={agent.sessionId}>
+            <StatusDot status={agent.status} /> {agent.agentName}
+            <span style={{ color: '#6b7280' }}>
+              {' '}· {agent.totalTokens.toLocaleString()} tokens · {formatElapsed(agent.startedAt, agent.endedAt)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+/**
+ * Collapsible workflowType → run → agent tree of workspace runs
+ */
+function WorkspaceTree({ runs }: { runs: RunsByKey }): React.ReactElement | null {
+  const byWorkflow = new Map<string, WorkspaceRun[]>();
+  for (const run of Object.values(runs)) {
+    byWorkflow.set(run.workflowType, [...(byWorkflow.get(run.workflowType) ?? []), run]);
+  }
+  if (byWorkflow.size === 0) return null;
+
+  const workflows = Array.from(byWorkflow.entries()).sort(([a], [b]) => a.localeCompare(b));
+
+  return (
+    <section style={{ border: '1px solid #e5e7eb', borderRadius: 8, background: '#fff', padding: '1rem', marginBottom: '1rem', fontSize: '0.875rem' }}>
+      <h2 style={{ margin: '0 0 0.5rem', fontSize: '1.1rem' }}>Workspace runs</h2>
+      {workflows.map(([workflowType, workflowRuns]) => {
+        const sorted = [...workflowRuns].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+        const active = sorted.filter(run => run.status === 'active').length;
+        return (
+          <details key={workflowType} open={active > 0}>
+            <summary style={{ cursor: 'pointer', fontWeight: 'bold' }}>
+              {workflowType}
+              <span style={{ color: '#6b7280', fontWeight: 'normal' }}>
+                {' '}· {active} active of {sorted.length} run{sorted.length === 1 ? '' : 's'}
+              </span>
+            </summary>
+            {sorted.map(run => <RunNode key={run.runKey} run={run} />)}
+          </details>
+        );
+      })}
+    </section>
+  );
+}
+
+export default WorkspaceTree;
@@ -0,0 +1,57 @@
+import { carriesAgentState, type AgentEvent } from '../shared/protocol.js';
+import { applyAgentPatch } from '../shared/agentPatch.js';
+import type { AgentState } from '../shared/types.js';
+
+/** Versioned agent states the client holds, the bases the server patches against */
+export type AgentStateBases = Map<string, Map<number, AgentState>>;
+
+export interface ResolvedEvent {
+  event: AgentEvent;
+  /** State version to acknowledge, if the event carried one */
+  version: number | null;
+}
+
+/**
+ * Turn an event carrying an agent patch back into one carrying the full state,
+ * remembering every versioned state as a future base. Returns null when a patch
+ * refers to a base the client no longer has; only a fresh snapshot helps then.
+ */
+export function resolveAgentPatch(event: AgentEvent, bases: AgentStateBases): ResolvedEvent | null {
+  if (event.eventType === 'snapshot') {
+    const version = event.payload.stateVersion;
+    if (version === undefined) return { event, version: null };
+    bases.clear();
+    for (const agent of event.payload.snapshot.agents) {
+      bases.set(agent.agentId, new Map([[version, agent]]));
+    }
+    return { event, version };
+  }
+
+  if (!carriesAgentState(event)) return { event, version: null };
+
+  const { agentPatch: patch, ...payload } = event.payload;
+  if (!patch) {
+    if (!payload.agent || payload.stateVersion === undefined) return { event, version: null };
+    remember(bases, payload.agent, payload.stateVersion);
+    return { event, version: payload.stateVersion };
+  }
+
+  const versions = bases.get(event.agentId);
+  const base = versions?.get(patch.baseVersion);
+  if (!versions || !base) return null;
+
+  // The server never patches against anything older than the base it just used
+  for (const version of versions.keys()) {
+    if (version < patch.baseVersion) versions.delete(version);
+  }
+  const agent = applyAgentPatch(base, patch);
+  remember(bases, agent, patch.version);
+
+  return { event: { ...event, payload: { ...payload, agent } } as AgentEvent, version: patch.version };
+}
+
+function remember(bases: AgentStateBases, agent: AgentState, version: number): void {
+  const versions = bases.get(agent.agentId) ?? new Map<number, AgentState>();
+  versions.set(version, agent);
+  bases.set(agent.agentId, versions);
+}
@@ -0,0 +1,119 @@
+import type { AgentEvent, AgentLifecyclePayload } from '../shared/protocol.js';
+import type { AgentState } from '../shared/types.js';
+
+export type AgentsById = Record<string, AgentState>;
+
+/**
+ * Apply a streamed AgentEvent to the agent map, updating cards in place
+ */
+export function agentsReducer(agents: AgentsById, event: AgentEvent): AgentsById {
+  if (event.eventType === 'snapshot') {
+    return Object.fromEntries(event.payload.snapshot.agents.map(agent => [agent.agentId, agent]));
+  }
+
+  if (event.agentId === 'system') {
+    return agents;
+  }
+
+  const existing = agents[event.agentId];
+
+  switch (event.eventType) {
+    case 'agent_started':
+    case 'agent_state_changed':
+    case 'agent_updated': {
+      const payload: AgentLifecyclePayload = event.payload;
+      const agent = payload.agent;
+      if (agent) {
+        return { ...agents, [event.agentId]: agent };
+      }
+      // Workspace sessions only announce themselves; show a placeholder card
+      return {
+        ...agents,
+        [event.agentId]: {
+          ...(existing ?? placeholderAgent(event.agentId, payload.agentName)),
+          status: payload.currentState ?? 'active',
+          lastActivity: event.timestamp
+        }
+      };
+    }
+
+    case 'agent_ended': {
+      // An agent that left its workspace runs may still be live in its own sessions
+      const agent = event.payload.agent;
+      if (agent) {
+        return { ...agents, [event.agentId]: agent };
+      }
+      if (!existing) return agents;
+      return {
+        ...agents,
+        [event.agentId]: { ...existing, status: 'ended' }
+      };
+    }
+
+    case 'token_update':
+      if (!existing) return agents;
+      return {
+        ...agents,
+        [event.agentId]: { ...existing, totalTokens: event.payload.currentTokens || existing.totalTokens }
+      };
+
+    case 'model_switched':
+      if (!existing) return agents;
+      return {
+        ...agents,
+        [event.agentId]: { ...existing, currentModel: event.payload.currentModel || existing.currentModel }
+      };
+
+    case 'cost_update':
+      if (!existing) return agents;
+      return {
+        ...agents,
+        [event.agentId]: {
+          ...existing,
+          cost: event.payload.currentCost || 0,
+          inputTokens: event.payload.inputTokens || existing.inputTokens,
+          outputTokens: event.payload.outputTokens || existing.outputTokens
+        }
+      };
+
+    case 'context_pressure':
+      if (!existing) return agents;
+      return {
+        ...agents,
+        [event.agentId]: { ...existing, contextPct: event.payload.contextPct || existing.contextPct }
+      };
+
+    case 'tool_called': {
+      if (!existing) return agents;
+      const toolName = event.payload.toolName;
+      const toolsUsed = toolName && !existing.toolsUsed.includes(toolName)
+        ? [...existing.toolsUsed, toolName]
+        : existing.toolsUsed;
+      return {
+        ...agents,
+        [event.agentId]: { ...existing, toolsUsed, lastActivity: event.timestamp }
+      };
+    }
+
+    default:
+      return agents;
+  }
+}
+
+function placeholderAgent(agentId: string, agentName?: string): AgentState {
+  return {
+    agentId,
+    agentName: agentName ?? agentId.replace(/^agent:/, ''),
+    status: 'active',
+    currentModel: 'unknown',
+    totalTokens: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cost: 0,
+    contextPct: 0,
+    lastActivity: '',
+    sessions: [],
+    toolsUsed: [],
+    skills: []
+  };
+}
@@ -0,0 +1,24 @@
+import type { AgentEvent } from '../shared/protocol.js';
+import type { WorkspaceRun } from '../shared/types.js';
+
+export type RunsByKey = Record<string, WorkspaceRun>;
+
+/**
+ * Apply a streamed AgentEvent to the workspace run map
+ */
+export function runsReducer(runs: RunsByKey, event: AgentEvent): RunsByKey {
+  switch (event.eventType) {
+    case 'snapshot':
+      return Object.fromEntries(event.payload.workspaceRuns.map(run => [run.runKey, run]));
+
+    case 'workspace_run_started':
+    case 'workspace_run_updated':
+    case 'workspace_run_ended': {
+      const run = event.payload.run;
+      return { ...runs, [run.runKey]: run };
+    }
+
+    default:
+      return runs;
+  }
+}
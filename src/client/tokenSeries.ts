@@ -0,0 +1,73 @@
+import type { AgentEvent } from '../shared/protocol.js';
+import type { TokenHistorySeries, TokenRatePoint } from '../shared/types.js';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Slide a series forward so its last bucket covers `now`, dropping the buckets
+ * that fall out of the window and agents left without any usage
+ */
+export function advanceSeries(series: TokenHistorySeries, now: number): TokenHistorySeries {
+  const { bucketMs } = series;
+  const end = Math.floor(now / bucketMs) * bucketMs + bucketMs;
+  const currentEnd = Date.parse(series.to);
+  if (end <= currentEnd) return series;
+
+  const shift = (end - currentEnd) / bucketMs;
+  const slide = (points: TokenRatePoint[]): TokenRatePoint[] => {
+    const kept = points.slice(Math.min(shift, points.length));
+    const firstNew = end - (points.length - kept.length) * bucketMs;
+    const added = Array.from({ length: points.length - kept.length }, (_, index) => ({
+      timestamp: new Date(firstNew + index * bucketMs).toISOString(),
+      input: 0,
+      output: 0,
+      total: 0
+    }));
+    return [...kept, ...added];
+  };
+
+  const agents: Record<string, TokenRatePoint[]> = {};
+  for (const [agentId, points] of Object.entries(series.agents)) {
+    const slid = slide(points);
+    if (slid.some(point => point.total > 0)) agents[agentId] = slid;
+  }
+
+  return {
+    ...series,
+    from: new Date(end - series.aggregate.length * bucketMs).toISOString(),
+    to: new Date(end).toISOString(),
+    aggregate: slide(series.aggregate),
+    agents
+  };
+}
+
+/**
+ * Add a streamed token_update to the bucket it falls in, the same way the
+ * server's TokenHistory records it
+ */
+export function applyTokenUpdate(series: TokenHistorySeries, event: AgentEvent<'token_update'>): TokenHistorySeries {
+  const time = Date.parse(event.timestamp);
+  const { delta, inputDelta, outputDelta } = event.payload;
+  if (!(delta > 0) || !Number.isFinite(time)) return series;
+
+  const advanced = advanceSeries(series, time);
+  const index = Math.floor((time - Date.parse(advanced.from)) / advanced.bucketMs);
+  if (index < 0 || index >= advanced.aggregate.length) return advanced;
+
+  const minutes = advanced.bucketMs / MINUTE_MS;
+  const rate = (tokens: number) => Math.round((Math.max(0, tokens) / minutes) * 10) / 10;
+  const add = (points: TokenRatePoint[]): TokenRatePoint[] => points.map((point, i) => i !== index ? point : {
+    ...point,
+    input: point.input + rate(inputDelta),
+    output: point.output + rate(outputDelta),
+    total: point.total + rate(delta)
+  });
+  const agentPoints = advanced.agents[event.agentId]
+    ?? advanced.aggregate.map(point => ({ timestamp: point.timestamp, input: 0, output: 0, total: 0 }));
+
+  return {
+    ...advanced,
+    aggregate: add(advanced.aggregate),
+    agents: { ...advanced.agents, [event.agentId]: add(agentPoints) }
+  };
+}
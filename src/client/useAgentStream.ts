@@ -0,0 +1,224 @@
+import { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import {
+  CLOSE_PROTOCOL_MISMATCH,
+  CLOSE_UNAUTHORIZED,
+  PROTOCOL_VERSION,
+  type AgentEvent
+} from '../shared/protocol.js';
+import { parseMessage, validateAgentEvent } from '../shared/validation.js';
+import { resolveAgentPatch, type AgentStateBases } from './agentPatches';
+import { agentsReducer, type AgentsById } from './agentReducer';
+import { runsReducer, type RunsByKey } from './runReducer';
+import { accessTokenFromLocation } from './useApi';
+import { filterFromSearchParams, filterToSearchParams, type SubscriptionFilter } from '../shared/subscription.js';
+
+export type ConnectionStatus = 'connecting' | 'open' | 'reconnecting' | 'unauthorized' | 'incompatible';
+
+export interface AgentStream {
+  agents: AgentsById;
+  runs: RunsByKey;
+  status: ConnectionStatus;
+  lastEventAt: string | null;
+  /** Ask the server for a fresh full snapshot */
+  requestSnapshot: () => void;
+  /** Be told of every applied event, for views that keep their own state; returns an unsubscribe */
+  subscribe: (listener: StreamListener) => () => void;
+}
+
+export type StreamListener = (event: AgentEvent) => void;
+
+/**
+ * Opt-in protocol features for high-volume streams
+ */
+export interface StreamProtocol {
+  /** Have the server batch events into one frame per interval */
+  batchMs?: number;
+  /** Receive agent states as patches against the last acknowledged version */
+  agentDeltas?: boolean;
+}
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+
+/**
+ * WebSocket URL of the activity stream, served through the Vite /ws proxy
+ */
+export function defaultStreamUrl(): string {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.host}/ws`;
+}
+
+/**
+ * Read a subscription filter from the page URL, e.g. `?agent=agent:dev&model=k2p5`
+ */
+export function filterFromLocation(search: string = window.location.search): SubscriptionFilter {
+  return filterFromSearchParams(new URLSearchParams(search));
+}
+
+/**
+ * Exponential backoff with jitter, capped at MAX_RETRY_MS
+ */
+function retryDelay(attempt: number): number {
+  const base = Math.min(MAX_RETRY_MS, INITIAL_RETRY_MS * 2 ** attempt);
+  return base / 2 + Math.random() * (base / 2);
+}
+
+/**
+ * Subscribe to the agent activity stream, reconnecting with backoff when it drops
+ */
+export function useAgentStream(
+  filter: SubscriptionFilter = {},
+  protocol: StreamProtocol = {},
+  url: string = defaultStreamUrl()
+): AgentStream {
+  const [agents, dispatch] = useReducer(agentsReducer, {});
+  const [runs, dispatchRun] = useReducer(runsReducer, {});
+  const [status, setStatus] = useState<ConnectionStatus>('connecting');
+  const [lastEventAt, setLastEventAt] = useState<string | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  const filterKey = JSON.stringify(filter);
+  const protocolKey = JSON.stringify(protocol);
+  // Last sequence id applied, so a reconnect can replay only what was missed
+  const lastSeqRef = useRef<number | null>(null);
+  // Server lifetime the cursor belongs to; sequence ids restart when the server does
+  const epochRef = useRef<string | null>(null);
+  // Agent states by version, for rebuilding patched states; versions restart with each connection
+  const basesRef = useRef<AgentStateBases>(new Map());
+  const listenersRef = useRef<Set<StreamListener>>(new Set());
+
+  useEffect(() => {
+    let ws: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+    let disposed = false;
+
+    const connect = () => {
+      // The filter and resume cursor travel in the URL so the server applies them before sending anything
+      const params = filterToSearchParams(JSON.parse(filterKey));
+      params.set('protocol', String(PROTOCOL_VERSION));
+      if (lastSeqRef.current !== null) {
+        params.set('lastSeq', String(lastSeqRef.current));
+        if (epochRef.current) {
+          params.set('epoch', epochRef.current);
+        }
+      }
+      const token = accessTokenFromLocation();
+      if (token) {
+        params.set('token', token);
+      }
+      const { batchMs, agentDeltas } = JSON.parse(protocolKey) as StreamProtocol;
+      if (batchMs) {
+        params.set('batch', String(batchMs));
+      }
+      if (agentDeltas) {
+        params.set('deltas', '1');
+      }
+      basesRef.current = new Map();
+      const query = params.toString();
+      ws = new WebSocket(query ? `${url}?${query}` : url);
+      socketRef.current = ws;
+
+      ws.onopen = () => {
+        attempt = 0;
+        setStatus('open');
+      };
+
+      const applyEvent = (received: AgentEvent): number | null => {
+        const resolved = resolveAgentPatch(received, basesRef.current);
+        if (!resolved) {
+          // Lost the base a patch refers to; start over from a snapshot
+          ws?.send(JSON.stringify({ type: 'get_snapshot' }));
+          return null;
+        }
+        const { event, version } = resolved;
+        if (event.eventType === 'snapshot') {
+          if (event.payload.protocolVersion !== PROTOCOL_VERSION) {
+            // A server on another version may send anything; stop before misreading it
+            setStatus('incompatible');
+            disposed = true;
+            ws?.close();
+            return null;
+          }
+          lastSeqRef.current = event.payload.lastSeq;
+          epochRef.current = event.payload.epoch;
+        } else if (event.seq !== undefined) {
+          if (lastSeqRef.current !== null && event.seq <= lastSeqRef.current) return version;
+          lastSeqRef.current = event.seq;
+        }
+        dispatch(event);
+        dispatchRun(event);
+        setLastEventAt(event.timestamp);
+        for (const listener of listenersRef.current) {
+          listener(event);
+        }
+        return version;
+      };
+
+      ws.onmessage = (message) => {
+        const parsed = parseMessage(String(message.data), validateAgentEvent);
+        if (!parsed.ok) {
+          console.warn('Ignoring malformed frame:', parsed.error);
+          return;
+        }
+        const frame = parsed.value;
+        if (frame.eventType === 'protocol_error') {
+          console.warn('Server reported a protocol error:', frame.payload.error);
+          return;
+        }
+        const events = frame.eventType === 'batch' ? frame.payload.events : [frame];
+        let ackVersion: number | null = null;
+        for (const event of events) {
+          if (disposed) return;
+          const version = applyEvent(event);
+          if (version !== null) ackVersion = Math.max(ackVersion ?? 0, version);
+        }
+        // One acknowledgement per frame covers every state in it
+        if (ackVersion !== null) {
+          ws?.send(JSON.stringify({ type: 'ack', version: ackVersion }));
+        }
+      };
+
+      ws.onclose = (event) => {
+        if (disposed) return;
+        if (event.code === CLOSE_UNAUTHORIZED) {
+          setStatus('unauthorized');
+          return;
+        }
+        if (event.code === CLOSE_PROTOCOL_MISMATCH) {
+          setStatus('incompatible');
+          return;
+        }
+        setStatus('reconnecting');
+        retryTimer = setTimeout(connect, retryDelay(attempt++));
+      };
+
+      ws.onerror = () => {
+        ws?.close();
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      ws?.close();
+    };
+  }, [url, filterKey, protocolKey]);
+
+  const requestSnapshot = useCallback(() => {
+    const ws = socketRef.current;
+    if (ws?.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'get_snapshot' }));
+    }
+  }, []);
+
+  const subscribe = useCallback((listener: StreamListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  return { agents, runs, status, lastEventAt, requestSnapshot, subscribe };
+}
@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+
+export interface ApiResult<T> {
+  data: T | null;
+  error: string | null;
+  loading: boolean;
+}
+
+/**
+ * Access token from the page URL, e.g. `?token=...`, when the server requires one
+ */
+export function accessTokenFromLocation(search: string = window.location.search): string | null {
+  return new URLSearchParams(search).get('token');
+}
+
+/**
+ * Fetch JSON from the REST API (served through the Vite /api proxy), optionally
+ * refetching on an interval. Pass a null path to fetch nothing.
+ */
+export function useApi<T>(path: string | null, refreshMs?: number): ApiResult<T> {
+  const [result, setResult] = useState<ApiResult<T>>({ data: null, error: null, loading: path !== null });
+
+  useEffect(() => {
+    setResult({ data: null, error: null, loading: path !== null });
+    if (path === null) return;
+
+    let disposed = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const load = async () => {
+      try {
+        const token = accessTokenFromLocation();
+        const response = await fetch(path, token ? { headers: { Authorization: `Bearer ${token}` } } : undefined);
+        const body = await response.json();
+        if (disposed) return;
+        setResult(response.ok
+          ? { data: body as T, error: null, loading: false }
+          : { data: null, error: String(body?.error ?? response.statusText), loading: false });
+      } catch (error) {
+        if (disposed) return;
+        setResult(previous => ({ ...previous, error: String(error), loading: false }));
+      }
+      if (!disposed && refreshMs) {
+        timer = setTimeout(load, refreshMs);
+      }
+    };
+
+    load();
+
+    return () => {
+      disposed = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [path, refreshMs]);
+
+  return result;
+}
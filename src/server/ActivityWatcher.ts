@@ -0,0 +1,272 @@
+import { watch, readdirSync, statSync, type FSWatcher } from 'node:fs';
+import { join, basename } from 'node:path';
+
+export type ActivityMode = 'watch' | 'poll';
+
+export interface ActivityWatcherOptions {
+  /** Quiet period after the last change before listeners run */
+  debounceMs?: number;
+  /** Longest a continuous burst of changes can delay listeners */
+  maxWaitMs?: number;
+  /** Interval used when watching is unavailable */
+  pollIntervalMs?: number;
+  /** Safety rescan while watching, for changes the OS never reported; 0 disables */
+  rescanIntervalMs?: number;
+  /** fs.watch implementation, replaceable for tests */
+  watchFn?: typeof watch;
+}
+
+type NameFilter = (filename: string | null) => boolean;
+
+const ANY: NameFilter = () => true;
+const SESSION_FILES: NameFilter = name => name === null || name === 'sessions.json' || name.endsWith('.jsonl');
+const DASHBOARD_FILES: NameFilter = name => name === null || name === 'data.json';
+const ROOT_ENTRIES = new Set(['agents', 'workspaces', 'dashboard', 'openclaw.json']);
+const ROOT_FILES: NameFilter = name => name === null || ROOT_ENTRIES.has(name);
+
+// Errors that mean the directory went away between listing and watching
+const TRANSIENT_WATCH_ERRORS = new Set(['ENOENT', 'ENOTDIR']);
+
+/**
+ * Calls back when OpenClaw data changes on disk. Watches the directories that hold
+ * sessions.json, session JSONL, dashboard/data.json and workspace runs, debounces
+ * bursts, and falls back to fixed-interval polling when fs.watch is unavailable.
+ */
+export class ActivityWatcher {
+  private watchers: Map<string, FSWatcher> = new Map();
+  private mode: ActivityMode = 'watch';
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private burstStartedAt: number | null = null;
+  private pollInterval: ReturnType<typeof setInterval> | null = null;
+  private rescanInterval: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  private readonly debounceMs: number;
+  private readonly maxWaitMs: number;
+  private readonly pollIntervalMs: number;
+  private readonly rescanIntervalMs: number;
+  private readonly watchFn: typeof watch;
+
+  constructor(
+    private openclawDir: string,
+    private onChange: () => void,
+    options: ActivityWatcherOptions = {}
+  ) {
+    this.debounceMs = options.debounceMs ?? 100;
+    this.maxWaitMs = options.maxWaitMs ?? 1000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+    this.rescanIntervalMs = options.rescanIntervalMs ?? 30000;
+    this.watchFn = options.watchFn ?? watch;
+  }
+
+  /**
+   * Start watching, or polling if watchers cannot be created
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    if (!this.syncWatchers()) {
+      this.fallBackToPolling();
+      return;
+    }
+
+    if (this.rescanIntervalMs > 0) {
+      this.rescanInterval = setInterval(() => this.flush(), this.rescanIntervalMs);
+    }
+  }
+
+  /**
+   * Close all watchers and timers
+   */
+  stop(): void {
+    this.running = false;
+    this.closeWatchers();
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+    if (this.rescanInterval) {
+      clearInterval(this.rescanInterval);
+      this.rescanInterval = null;
+    }
+    this.burstStartedAt = null;
+  }
+
+  /**
+   * Whether changes are currently detected by watching or by polling
+   */
+  getMode(): ActivityMode {
+    return this.mode;
+  }
+
+  /**
+   * Directories currently being watched
+   */
+  getWatchedPaths(): string[] {
+    return Array.from(this.watchers.keys()).sort();
+  }
+
+  /**
+   * Directories worth watching and the entry names that matter in each
+   */
+  private collectTargets(): Map<string, NameFilter> {
+    const targets = new Map<string, NameFilter>();
+    targets.set(this.openclawDir, ROOT_FILES);
+
+    const agentsDir = join(this.openclawDir, 'agents');
+    if (this.isDirectory(agentsDir)) {
+      targets.set(agentsDir, ANY);
+      for (const agentDir of this.listDirectories(agentsDir)) {
+        targets.set(agentDir, ANY);
+        const sessionsDir = join(agentDir, 'sessions');
+        if (this.isDirectory(sessionsDir)) {
+          targets.set(sessionsDir, SESSION_FILES);
+        }
+      }
+    }
+
+    const dashboardDir = join(this.openclawDir, 'dashboard');
+    if (this.isDirectory(dashboardDir)) {
+      targets.set(dashboardDir, DASHBOARD_FILES);
+    }
+
+    // workspaces/<workflowType>/<runId>/<agent>; agent dirs appear in the run dir
+    const workspacesDir = join(this.openclawDir, 'workspaces');
+    if (this.isDirectory(workspacesDir)) {
+      targets.set(workspacesDir, ANY);
+      for (const workflowDir of this.listDirectories(workspacesDir)) {
+        targets.set(workflowDir, ANY);
+        for (const runDir of this.listDirectories(workflowDir)) {
+          targets.set(runDir, ANY);
+        }
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * Watch new directories and drop watchers for removed ones.
+   * Returns false when the platform refuses to watch.
+   */
+  private syncWatchers(): boolean {
+    const targets = this.collectTargets();
+
+    for (const [path, watcher] of this.watchers) {
+      if (!targets.has(path)) {
+        watcher.close();
+        this.watchers.delete(path);
+      }
+    }
+
+    for (const [path, filter] of targets) {
+      if (this.watchers.has(path)) continue;
+
+      try {
+        const watcher = this.watchFn(path, { persistent: false }, (_eventType, filename) => {
+          if (filter(filename === null ? null : basename(filename.toString()))) {
+            this.schedule();
+          }
+        });
+        watcher.on('error', (error: NodeJS.ErrnoException) => {
+          if (TRANSIENT_WATCH_ERRORS.has(error.code ?? '')) {
+            watcher.close();
+            this.watchers.delete(path);
+            return;
+          }
+          console.error(`Watch failed for ${path}, falling back to polling:`, error);
+          this.fallBackToPolling();
+        });
+        this.watchers.set(path, watcher);
+      } catch (error) {
+        if (TRANSIENT_WATCH_ERRORS.has((error as NodeJS.ErrnoException).code ?? '')) continue;
+        console.error(`Cannot watch ${path}, falling back to polling:`, error);
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Debounce a change: run after a quiet period, but never later than maxWaitMs into a burst
+   */
+  private schedule(): void {
+    if (!this.running || this.mode !== 'watch') return;
+
+    const now = Date.now();
+    this.burstStartedAt ??= now;
+    const wait = Math.max(0, Math.min(this.debounceMs, this.burstStartedAt + this.maxWaitMs - now));
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => this.flush(), wait);
+  }
+
+  private flush(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.burstStartedAt = null;
+    if (!this.running) return;
+
+    // New agents, sessions dirs or runs may have appeared
+    if (this.mode === 'watch' && !this.syncWatchers()) {
+      this.fallBackToPolling();
+    }
+
+    this.notify();
+  }
+
+  private fallBackToPolling(): void {
+    if (this.mode === 'poll' || !this.running) return;
+
+    this.mode = 'poll';
+    this.closeWatchers();
+    if (this.rescanInterval) {
+      clearInterval(this.rescanInterval);
+      this.rescanInterval = null;
+    }
+    this.pollInterval = setInterval(() => this.notify(), this.pollIntervalMs);
+  }
+
+  private notify(): void {
+    try {
+      this.onChange();
+    } catch (error) {
+      console.error('Error handling activity change:', error);
+    }
+  }
+
+  private closeWatchers(): void {
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+  }
+
+  private listDirectories(dir: string): string[] {
+    try {
+      return readdirSync(dir)
+        .map(name => join(dir, name))
+        .filter(path => this.isDirectory(path));
+    } catch {
+      return [];
+    }
+  }
+
+  private isDirectory(path: string): boolean {
+    try {
+      return statSync(path).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+}
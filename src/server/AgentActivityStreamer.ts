@@ -2,20 +2,176 @@ import type { WebSocket } from 'ws';
 import { readdirSync, statSync } from 'node:fs';
 import { join } from 'node:path';
 import { homedir } from 'node:os';
+import {
+  DataCollector,
+  type AgentStateChange,
+  type ContextPressureEvent,
+  type CostUpdate,
+  type ModelSwitchEvent,
+  type StatusThresholds,
+  type TokenUsageDelta
+} from './DataCollector.js';
+import type { ToolCallRecord } from './ToolCallTracker.js';
+import { ActivityWatcher, type ActivityMode } from './ActivityWatcher.js';
+import { AnomalyDetector, type AnomalyDetectorOptions } from './AnomalyDetector.js';
+import { summarizeCosts, type PricingTable } from './CostCalculator.js';
+import { BudgetMonitor, type BudgetConfig, type BudgetNotifierOptions } from './BudgetMonitor.js';
+import { EventHistory } from './EventHistory.js';
+import type { EventStore } from './EventStore.js';
+import { TokenHistory } from './TokenHistory.js';
+import type { AgentAliasConfig } from './AgentIdentity.js';
+import { Redactor, type RedactionOptions } from './Redactor.js';
+import { AgentStateVersions } from './AgentStateDiff.js';
+import { TokenAuthenticator, hasRole, type AccessToken } from './Auth.js';
+import { WorkspaceRunTracker, type WorkspaceRunChange } from './WorkspaceRuns.js';
+import {
+  CLOSE_PROTOCOL_MISMATCH,
+  CLOSE_SLOW_CONSUMER,
+  CLOSE_UNAUTHORIZED,
+  MAX_HISTORY_LIMIT,
+  PROTOCOL_VERSION,
+  carriesAgentState,
+  type AgentEvent,
+  type AgentEventType,
+  type ClientMessage,
+  type ClientMessageType,
+  type EventQuery
+} from '../shared/protocol.js';
+import { parseMessage, validateClientMessage } from '../shared/validation.js';
+import {
+  filterFromSearchParams,
+  isEmptyFilter,
+  matchesAgent,
+  matchesFilter,
+  matchesRun,
+  mergeFilter,
+  removeFromFilter,
+  type AgentContext,
+  type SubscriptionFilter
+} from '../shared/subscription.js';
+import type {
+  AgentAnomaly,
+  AgentState,
+  BudgetAlert,
+  DataCollectorSnapshot,
+  Role,
+  TokenHistorySeries,
+  TokenHistoryWindow,
+  WorkspaceRun
+} from '../shared/types.js';
 
-export type AgentEventType = 
-  | 'agent_started'
-  | 'agent_ended'
-  | 'tool_called'
-  | 'model_switched'
-  | 'token_update'
-  | 'heartbeat';
-
-export interface AgentEvent {
-  timestamp: string;
-  agentId: string;
-  eventType: AgentEventType;
-  payload: Record<string, unknown>;
+/** Protocol messages that need more than the viewer role */
+const ADMIN_MESSAGES = new Set<ClientMessageType>(['resync', 'clear_cache']);
+
+/** Events a congested client can do without: heartbeats are dropped, token updates coalesced per agent */
+const LOW_PRIORITY_EVENTS = new Set<AgentEventType>(['heartbeat', 'token_update']);
+
+export interface AgentActivityStreamerOptions {
+  /** Number of broadcast events kept for replay to reconnecting clients */
+  historySize?: number;
+  /** Persists broadcast events and periodic snapshots when provided */
+  eventStore?: EventStore;
+  /** Minimum time between persisted snapshots */
+  snapshotIntervalMs?: number;
+  /** 'watch' reacts to filesystem changes; 'poll' rescans on a fixed interval */
+  mode?: ActivityMode;
+  /** Poll interval, also used when watch mode falls back to polling */
+  pollIntervalMs?: number;
+  /** Quiet period before reacting to a burst of filesystem changes */
+  watchDebounceMs?: number;
+  /** contextPct levels that trigger context_pressure events, default 80 and 95 */
+  contextPressureThresholds?: number[];
+  /** Per-model prices in USD per million tokens, keyed by `provider/id` or id */
+  pricing?: PricingTable;
+  /** Token budgets checked after every poll */
+  budgets?: BudgetConfig[];
+  /** Where budget alerts are delivered besides the event stream */
+  budgetNotifier?: BudgetNotifierOptions;
+  /** Status thresholds for all agents */
+  statusThresholds?: Partial<StatusThresholds>;
+  /** Per-agent status thresholds, keyed by agent name or id */
+  agentStatusThresholds?: Record<string, Partial<StatusThresholds>>;
+  /** Sensitivity of tool loop detection */
+  anomalyDetection?: AnomalyDetectorOptions;
+  /** Other names agents go by in workspaces and the dashboard, keyed by agent name */
+  agentAliases?: AgentAliasConfig;
+  /** Tokens clients must present; without any, every connection has full access */
+  accessTokens?: AccessToken[];
+  /** How long a client may take to send its auth message before it is disconnected */
+  authTimeoutMs?: number;
+  /** Secret scrubbing applied to every payload sent to clients */
+  redaction?: RedactionOptions;
+  /** Bytes buffered for a client above which low-priority events are held back */
+  backpressureBytes?: number;
+  /** Bytes buffered for a client at which it is disconnected outright */
+  maxBufferedBytes?: number;
+  /** How long a client may stay over backpressureBytes before it is disconnected */
+  slowClientTimeoutMs?: number;
+}
+
+export interface ConnectOptions {
+  /** Last sequence id the client saw before reconnecting */
+  resumeFrom?: number;
+  /** Server epoch `resumeFrom` belongs to, from the client's last snapshot */
+  epoch?: string;
+  /** Subscription filter applied before anything is sent */
+  filter?: SubscriptionFilter;
+  /** Access token from the connect URL; otherwise it must be the first message */
+  token?: string;
+  /** Collect events into one `batch` frame per interval instead of a frame each */
+  batchMs?: number;
+  /** Send agent states as patches against the last version the client acknowledged */
+  agentDeltas?: boolean;
+  /**
+   * Protocol version the client announced with `?protocol=`, null when it announced
+   * none (an old dashboard); left out by in-process callers, which speak the current one
+   */
+  protocolVersion?: number | null;
+}
+
+// Bounds for the batching interval a client may ask for
+const MIN_BATCH_MS = 10;
+const MAX_BATCH_MS = 5000;
+
+/**
+ * Read connection options from a WebSocket upgrade URL, e.g. `/ws?lastSeq=42&agent=agent:dev`
+ */
+export function parseConnectOptions(url: string | undefined): ConnectOptions {
+  if (!url) return { protocolVersion: null };
+  const options: ConnectOptions = {};
+
+  const params = new URL(url, 'http://localhost').searchParams;
+  const lastSeq = Number(params.get('lastSeq'));
+  if (params.has('lastSeq') && Number.isInteger(lastSeq) && lastSeq >= 0) {
+    options.resumeFrom = lastSeq;
+  }
+  const epoch = params.get('epoch');
+  if (epoch) {
+    options.epoch = epoch;
+  }
+  const filter = filterFromSearchParams(params);
+  if (!isEmptyFilter(filter)) {
+    options.filter = filter;
+  }
+  const token = params.get('token');
+  if (token) {
+    options.token = token;
+  }
+  const batchMs = Number(params.get('batch'));
+  if (params.has('batch') && Number.isFinite(batchMs) && batchMs > 0) {
+    options.batchMs = Math.min(MAX_BATCH_MS, Math.max(MIN_BATCH_MS, Math.round(batchMs)));
+  }
+  if (params.get('deltas') === '1' || params.get('deltas') === 'true') {
+    options.agentDeltas = true;
+  }
+  const protocolVersion = Number(params.get('protocol'));
+  if (params.has('protocol')) {
+    // Anything unparseable is a version this server doesn't speak either
+    options.protocolVersion = Number.isInteger(protocolVersion) ? protocolVersion : -1;
+  } else {
+    options.protocolVersion = null;
+  }
+  return options;
 }
 
 export interface ClientInfo {
@@ -23,30 +179,114 @@ export interface ClientInfo {
   id: string;
   isAlive: boolean;
   connectedAt: Date;
+  filter: SubscriptionFilter;
+  /** Null until the client has authenticated */
+  role: Role | null;
+  /** Held back until authentication succeeds */
+  pendingConnect?: ConnectOptions;
+  authTimer?: ReturnType<typeof setTimeout>;
+  /** When the client's send buffer went over the backpressure threshold; null while it keeps up */
+  congestedSince: number | null;
+  /** Latest held-back token update per agent, sent once the buffer drains */
+  deferred: Map<string, AgentEvent<'token_update'>>;
+  /** Low-priority events dropped or superseded while congested */
+  droppedEvents: number;
+  /** Batching interval; null sends every event as its own frame */
+  batchMs: number | null;
+  batch: AgentEvent[];
+  batchTimer?: ReturnType<typeof setTimeout>;
+  /** Agent state versions for clients that receive patches; null for full states */
+  agentStates: AgentStateVersions | null;
+}
+
+export interface ClientMetrics {
+  clientId: string;
+  connectedAt: string;
+  role: Role | null;
+  bufferedAmount: number;
+  congested: boolean;
+  deferredEvents: number;
+  droppedEvents: number;
 }
 
 export class AgentActivityStreamer {
   private clients: Map<string, ClientInfo> = new Map();
   private pollingInterval: ReturnType<typeof setInterval> | null = null;
   private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
-  private readonly POLL_INTERVAL_MS = 2000;
+  private activityWatcher: ActivityWatcher | null = null;
+  private readonly mode: ActivityMode;
+  private readonly pollIntervalMs: number;
+  private readonly watchDebounceMs: number;
   private readonly HEARTBEAT_INTERVAL_MS = 30000;
   // private readonly HEARTBEAT_TIMEOUT_MS = 60000; // Reserved for future use
   private clientIdCounter = 0;
   private lastKnownSessions: Set<string> = new Set();
+  private workspaceRuns: WorkspaceRunTracker;
+  private dataCollector: DataCollector;
+  // Workspace and model per agent, used to filter events that don't carry them
+  private agentContext: Map<string, AgentContext> = new Map();
 
-  constructor(private openclawDir: string = join(homedir(), '.openclaw')) {}
+  private history: EventHistory;
+  private eventStore: EventStore | null;
+  private readonly snapshotIntervalMs: number;
+  private lastPersistedSnapshotAt = 0;
+  private budgetMonitor: BudgetMonitor;
+  private anomalyDetector: AnomalyDetector;
+  private tokenHistory: TokenHistory = new TokenHistory();
+  private authenticator: TokenAuthenticator;
+  private redactor: Redactor;
+  private readonly authTimeoutMs: number;
+  private readonly backpressureBytes: number;
+  private readonly maxBufferedBytes: number;
+  private readonly slowClientTimeoutMs: number;
+
+  constructor(
+    private openclawDir: string = join(homedir(), '.openclaw'),
+    options: AgentActivityStreamerOptions = {}
+  ) {
+    this.dataCollector = new DataCollector(openclawDir, {
+      contextPressureThresholds: options.contextPressureThresholds,
+      pricing: options.pricing,
+      statusThresholds: options.statusThresholds,
+      agentStatusThresholds: options.agentStatusThresholds,
+      agentAliases: options.agentAliases
+    });
+    this.workspaceRuns = new WorkspaceRunTracker(this.dataCollector.getIdentityResolver());
+    this.history = new EventHistory(options.historySize ?? 1000);
+    this.eventStore = options.eventStore ?? null;
+    this.snapshotIntervalMs = options.snapshotIntervalMs ?? 60000;
+    this.budgetMonitor = new BudgetMonitor(options.budgets ?? [], options.budgetNotifier);
+    this.anomalyDetector = new AnomalyDetector(options.anomalyDetection);
+    this.mode = options.mode ?? 'poll';
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+    this.watchDebounceMs = options.watchDebounceMs ?? 100;
+    this.authenticator = new TokenAuthenticator(options.accessTokens);
+    this.authTimeoutMs = options.authTimeoutMs ?? 5000;
+    this.redactor = new Redactor(options.redaction);
+    this.backpressureBytes = options.backpressureBytes ?? 512 * 1024;
+    this.maxBufferedBytes = options.maxBufferedBytes ?? 8 * 1024 * 1024;
+    this.slowClientTimeoutMs = options.slowClientTimeoutMs ?? 30000;
+    this.restoreTokenHistory();
+  }
 
   /**
    * Add a new WebSocket client
    */
-  addClient(ws: WebSocket): string {
+  addClient(ws: WebSocket, options: ConnectOptions = {}): string {
     const clientId = `client-${++this.clientIdCounter}`;
     const clientInfo: ClientInfo = {
       ws,
       id: clientId,
       isAlive: true,
-      connectedAt: new Date()
+      connectedAt: new Date(),
+      filter: options.filter ?? {},
+      role: null,
+      congestedSince: null,
+      deferred: new Map(),
+      droppedEvents: 0,
+      batchMs: options.batchMs ?? null,
+      batch: [],
+      agentStates: options.agentDeltas ? new AgentStateVersions() : null
     };
 
     this.clients.set(clientId, clientInfo);
@@ -68,18 +308,45 @@ export class AgentActivityStreamer {
       this.removeClient(clientId);
     });
 
-    // Send welcome message
-    this.sendToClient(clientId, {
-      timestamp: new Date().toISOString(),
-      agentId: 'system',
-      eventType: 'agent_started',
-      payload: {
-        message: 'Connected to Agent Activity Viz Server',
-        clientId,
-        connectedClients: this.clients.size
+    ws.on('message', (data) => {
+      // A throw here would take the whole server down with it
+      try {
+        this.handleClientMessage(clientId, data.toString());
+      } catch (error) {
+        console.error(`Error handling message from ${clientId}:`, error);
       }
     });
 
+    // A peer on another protocol version would misread everything; tell it so and stop
+    if (options.protocolVersion !== undefined && options.protocolVersion !== PROTOCOL_VERSION) {
+      const error = options.protocolVersion === null
+        ? `No protocol version announced; this server speaks version ${PROTOCOL_VERSION}, reload the dashboard`
+        : `Protocol version ${options.protocolVersion} is not supported; this server speaks version ${PROTOCOL_VERSION}`;
+      this.sendFrame(clientId, clientInfo, JSON.stringify({
+        timestamp: new Date().toISOString(),
+        agentId: 'system',
+        eventType: 'protocol_error',
+        payload: { error }
+      } satisfies AgentEvent));
+      this.closeClient(clientId, CLOSE_PROTOCOL_MISMATCH, error);
+      return clientId;
+    }
+
+    if (!this.authenticator.isEnabled()) {
+      this.admitClient(clientId, 'admin', options);
+    } else if (options.token !== undefined) {
+      const access = this.authenticator.authenticate(options.token);
+      if (access) {
+        this.admitClient(clientId, access.role, options);
+      } else {
+        this.rejectClient(clientId, 'Invalid token');
+      }
+    } else {
+      // Nothing is sent until the first message authenticates the client
+      clientInfo.pendingConnect = options;
+      clientInfo.authTimer = setTimeout(() => this.rejectClient(clientId, 'Authentication timeout'), this.authTimeoutMs);
+    }
+
     return clientId;
   }
 
@@ -87,9 +354,102 @@ export class AgentActivityStreamer {
    * Remove a client
    */
   removeClient(clientId: string): void {
+    const client = this.clients.get(clientId);
+    if (client?.authTimer) {
+      clearTimeout(client.authTimer);
+    }
+    if (client?.batchTimer) {
+      clearTimeout(client.batchTimer);
+    }
     this.clients.delete(clientId);
   }
 
+  /**
+   * The access a token grants; null when it is unknown. Everything is allowed while auth is disabled.
+   */
+  authenticate(token: string | null | undefined): Role | null {
+    if (!this.authenticator.isEnabled()) return 'admin';
+    return this.authenticator.authenticate(token)?.role ?? null;
+  }
+
+  /**
+   * Give an authenticated client its role and start its stream
+   */
+  private admitClient(clientId: string, role: Role, options: ConnectOptions): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    if (client.authTimer) {
+      clearTimeout(client.authTimer);
+      client.authTimer = undefined;
+    }
+    client.role = role;
+    client.pendingConnect = undefined;
+
+    // A reconnecting client gets what it missed; everyone else gets the current state
+    if (options.resumeFrom !== undefined) {
+      this.replaySince(clientId, options.resumeFrom, options.epoch);
+    } else {
+      this.sendSnapshot(clientId, this.getSnapshot());
+    }
+  }
+
+  /**
+   * Close a client that failed to authenticate
+   */
+  private rejectClient(clientId: string, reason: string): void {
+    this.closeClient(clientId, CLOSE_UNAUTHORIZED, reason);
+  }
+
+  private closeClient(clientId: string, code: number, reason: string): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    this.removeClient(clientId);
+    try {
+      client.ws.close(code, reason);
+    } catch {
+      // Already closed
+    }
+  }
+
+  private sendProtocolError(clientId: string, error: string): void {
+    this.sendToClient(clientId, {
+      timestamp: new Date().toISOString(),
+      agentId: 'system',
+      eventType: 'protocol_error',
+      payload: { error }
+    });
+  }
+
+  /**
+   * Get the DataCollector backing this streamer
+   */
+  getDataCollector(): DataCollector {
+    return this.dataCollector;
+  }
+
+  /**
+   * Get the redactor applied to everything this server sends
+   */
+  getRedactor(): Redactor {
+    return this.redactor;
+  }
+
+  /**
+   * Get the most recent snapshot, collecting one if no poll has run yet
+   */
+  getSnapshot(): DataCollectorSnapshot {
+    return this.dataCollector.getPreviousSnapshot() ?? this.dataCollector.buildSnapshot();
+  }
+
+  /**
+   * Get the sequence id of the most recently broadcast event
+   */
+  getLastSeq(): number {
+    return this.history.getLastSeq();
+  }
+
   /**
    * Get number of connected clients
    */
@@ -97,43 +457,468 @@ export class AgentActivityStreamer {
     return this.clients.size;
   }
 
+  /**
+   * Send buffer and dropped event counts per connected client
+   */
+  getClientMetrics(): ClientMetrics[] {
+    return Array.from(this.clients.values()).map(client => ({
+      clientId: client.id,
+      connectedAt: client.connectedAt.toISOString(),
+      role: client.role,
+      bufferedAmount: client.ws.bufferedAmount ?? 0,
+      congested: client.congestedSince !== null,
+      deferredEvents: client.deferred.size,
+      droppedEvents: client.droppedEvents
+    }));
+  }
+
+  /**
+   * Handle a protocol message sent by a client
+   */
+  handleClientMessage(clientId: string, raw: string): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    const parsed = parseMessage(raw, validateClientMessage);
+    if (!parsed.ok) {
+      if (client.role === null) {
+        this.rejectClient(clientId, 'Authentication required');
+      } else {
+        this.sendProtocolError(clientId, `Invalid message: ${parsed.error}`);
+      }
+      return;
+    }
+    const message = parsed.value;
+
+    if (client.role === null) {
+      this.handleAuthMessage(clientId, message);
+      return;
+    }
+
+    if (ADMIN_MESSAGES.has(message.type) && !hasRole(client.role, 'admin')) {
+      this.sendCommandResult(clientId, message.type, false, 'Admin role required');
+      return;
+    }
+
+    switch (message.type) {
+      case 'auth':
+        // Already authenticated
+        break;
+
+      case 'ack':
+        client.agentStates?.acknowledge(message.version);
+        break;
+
+      case 'resync':
+        this.resyncClients();
+        this.sendCommandResult(clientId, message.type, true);
+        break;
+
+      case 'clear_cache':
+        this.dataCollector.clearCache();
+        this.sendCommandResult(clientId, message.type, true);
+        break;
+
+      case 'ping':
+        this.sendToClient(clientId, {
+          timestamp: new Date().toISOString(),
+          agentId: 'system',
+          eventType: 'heartbeat',
+          payload: { type: 'pong' }
+        });
+        break;
+
+      case 'get_snapshot':
+        this.sendSnapshot(clientId, this.dataCollector.buildSnapshot());
+        break;
+
+      case 'subscribe':
+      case 'unsubscribe': {
+        const client = this.clients.get(clientId);
+        if (!client) break;
+        client.filter = message.type === 'subscribe'
+          ? mergeFilter(client.filter, message.filter ?? {})
+          : removeFromFilter(client.filter, message.filter);
+        this.sendToClient(clientId, {
+          timestamp: new Date().toISOString(),
+          agentId: 'system',
+          eventType: 'subscription_updated',
+          payload: { filter: client.filter }
+        });
+        break;
+      }
+
+      case 'resume':
+        this.replaySince(clientId, message.lastSeq, message.epoch);
+        break;
+
+      case 'query_history':
+        this.sendHistory(clientId, message.query ?? {});
+        break;
+    }
+  }
+
+  /**
+   * The first message of a client that has not authenticated must carry a valid token
+   */
+  private handleAuthMessage(clientId: string, message: ClientMessage): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    const access = message.type === 'auth' ? this.authenticator.authenticate(message.token) : null;
+    if (!access) {
+      this.rejectClient(clientId, message.type === 'auth' ? 'Invalid token' : 'Authentication required');
+      return;
+    }
+
+    this.sendToClient(clientId, {
+      timestamp: new Date().toISOString(),
+      agentId: 'system',
+      eventType: 'authenticated',
+      payload: { role: access.role }
+    });
+    this.admitClient(clientId, access.role, client.pendingConnect ?? {});
+  }
+
+  /**
+   * Recollect agent state and send every authenticated client a fresh snapshot
+   */
+  private resyncClients(): void {
+    const snapshot = this.dataCollector.buildSnapshot();
+    for (const [clientId, client] of this.clients) {
+      if (client.role !== null) {
+        this.sendSnapshot(clientId, snapshot);
+      }
+    }
+  }
+
+  private sendCommandResult(clientId: string, command: string, ok: boolean, error?: string): void {
+    this.sendToClient(clientId, {
+      timestamp: new Date().toISOString(),
+      agentId: 'system',
+      eventType: 'command_result',
+      payload: { command, ok, ...(error ? { error } : {}) }
+    });
+  }
+
+  /**
+   * Replay history after a sequence id, or tell the client to resync when
+   * the gap is no longer covered by the history buffer or the server restarted
+   */
+  private replaySince(clientId: string, lastSeq: number, epoch?: string): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    const missed = this.history.since(lastSeq, epoch);
+    if (missed === null) {
+      const restarted = epoch !== undefined && epoch !== this.history.getEpoch();
+      this.sendToClient(clientId, {
+        timestamp: new Date().toISOString(),
+        agentId: 'system',
+        eventType: 'resync_required',
+        payload: {
+          reason: restarted ? 'server_restarted' : 'gap_too_large',
+          requestedSeq: lastSeq,
+          oldestSeq: this.history.getOldestSeq(),
+          lastSeq: this.history.getLastSeq()
+        }
+      });
+      this.sendSnapshot(clientId, this.getSnapshot());
+      return;
+    }
+
+    for (const event of missed) {
+      if (matchesFilter(event, client.filter, this.agentContext.get(event.agentId))) {
+        this.sendToClient(clientId, event);
+      }
+    }
+  }
+
+  /**
+   * Answer a history query from the persistent store, honouring the client's filter
+   */
+  private sendHistory(clientId: string, query: EventQuery): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    const requested = Number(query.limit);
+    const limit = Number.isInteger(requested) && requested > 0 ? Math.min(requested, MAX_HISTORY_LIMIT) : 500;
+    const events = (this.eventStore?.queryEvents({ ...query, limit }) ?? [])
+      .filter(event => matchesFilter(event, client.filter, this.agentContext.get(event.agentId)));
+
+    this.sendToClient(clientId, {
+      timestamp: new Date().toISOString(),
+      agentId: 'system',
+      eventType: 'history_result',
+      payload: {
+        query: { ...query, limit },
+        persistent: this.eventStore !== null,
+        events
+      }
+    });
+  }
+
+  /**
+   * Workspace runs with their agents, newest first
+   */
+  getWorkspaceRuns(): WorkspaceRun[] {
+    return this.workspaceRuns.getRuns();
+  }
+
+  /**
+   * Token rates over a chart window, for all agents or one
+   */
+  getTokenHistory(window: TokenHistoryWindow, agentIds?: string[]): TokenHistorySeries {
+    return this.tokenHistory.query(window, agentIds);
+  }
+
+  /**
+   * Query persisted events; empty when no event store is configured
+   */
+  queryHistory(query: EventQuery): AgentEvent[] {
+    return this.eventStore?.queryEvents(query) ?? [];
+  }
+
+  /**
+   * Send a full state snapshot to a client
+   */
+  private sendSnapshot(clientId: string, snapshot: DataCollectorSnapshot): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    // Only include agents and runs the client is subscribed to, and only their costs; totals stay global
+    const agents = snapshot.agents.filter(agent =>
+      matchesAgent(client.filter, agent, this.agentContext.get(agent.agentId))
+    );
+    const visible = new Set(agents.map(agent => agent.agentId));
+    const sessions = snapshot.costs.bySession.filter(session => visible.has(session.agentId));
+    const models = new Set(sessions.map(session => session.model));
+    const costs = {
+      ...summarizeCosts(sessions, snapshot.costs.unpricedModels.filter(model => models.has(model))),
+      totalCost: snapshot.costs.totalCost
+    };
+
+    this.sendToClient(clientId, {
+      timestamp: snapshot.timestamp,
+      agentId: 'system',
+      eventType: 'snapshot',
+      payload: {
+        protocolVersion: PROTOCOL_VERSION,
+        clientId,
+        connectedClients: this.clients.size,
+        lastSeq: this.history.getLastSeq(),
+        epoch: this.history.getEpoch(),
+        snapshot: { ...snapshot, agents, costs },
+        workspaceRuns: this.workspaceRuns.getRuns().filter(run => matchesRun(client.filter, run))
+      }
+    });
+  }
+
   /**
    * Send event to a specific client
    */
   private sendToClient(clientId: string, event: AgentEvent): void {
     const client = this.clients.get(clientId);
     if (client && client.ws.readyState === 1) { // WebSocket.OPEN = 1
-      try {
-        client.ws.send(JSON.stringify(event));
-      } catch {
-        // Client disconnected, remove it
-        this.removeClient(clientId);
+      // Replies go out at once, behind whatever is already batched
+      this.flushBatch(clientId);
+      this.sendFrame(clientId, client, JSON.stringify(this.encodeAgentStates(client, this.redact(event))));
+    }
+  }
+
+  private sendFrame(clientId: string, client: ClientInfo, data: string): void {
+    try {
+      client.ws.send(data);
+    } catch {
+      // Client disconnected, remove it
+      this.removeClient(clientId);
+    }
+  }
+
+  /**
+   * Queue an event for the client's next batch frame
+   */
+  private enqueue(clientId: string, client: ClientInfo, event: AgentEvent): void {
+    client.batch.push(event);
+    if (!client.batchTimer) {
+      client.batchTimer = setTimeout(() => this.flushBatch(clientId), client.batchMs ?? 0);
+    }
+  }
+
+  /**
+   * Send everything queued for a batching client as one frame
+   */
+  private flushBatch(clientId: string): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+    if (client.batchTimer) {
+      clearTimeout(client.batchTimer);
+      client.batchTimer = undefined;
+    }
+    if (client.batch.length === 0) return;
+
+    const events = client.batch;
+    client.batch = [];
+    if (client.ws.readyState !== 1) return;
+    this.sendFrame(clientId, client, JSON.stringify({
+      timestamp: new Date().toISOString(),
+      agentId: 'system',
+      eventType: 'batch',
+      payload: { events }
+    } satisfies AgentEvent));
+  }
+
+  /**
+   * For clients that receive patches, version the agent states an event carries and
+   * replace each with a patch once the client has acknowledged a base for the agent
+   */
+  private encodeAgentStates(client: ClientInfo, event: AgentEvent): AgentEvent {
+    const versions = client.agentStates;
+    if (!versions) return event;
+
+    if (event.eventType === 'snapshot') {
+      // A snapshot replaces the client's state, so it starts over from full states
+      versions.reset();
+      const version = versions.nextVersion();
+      for (const agent of event.payload.snapshot.agents) {
+        versions.encode(agent, version);
       }
+      return { ...event, payload: { ...event.payload, stateVersion: version } };
     }
+
+    if (!carriesAgentState(event) || !event.payload.agent) return event;
+
+    const version = versions.nextVersion();
+    const { agent, ...payload } = event.payload;
+    const patch = versions.encode(agent, version);
+    return {
+      ...event,
+      payload: patch ? { ...payload, agentPatch: patch } : { ...event.payload, stateVersion: version }
+    } as AgentEvent;
   }
 
   /**
-   * Broadcast event to all connected clients
+   * Broadcast event to all connected clients whose subscription matches it
    */
   broadcast(event: AgentEvent): void {
+    // Redact first so history, the event store and replays never hold the secrets either
+    event = this.redact(event);
+
+    // Heartbeats are not worth replaying, everything else gets a sequence id
+    if (event.eventType !== 'heartbeat') {
+      event = this.history.record(event);
+      this.eventStore?.appendEvent(event);
+    }
+
     const message = JSON.stringify(event);
+    const context = this.agentContext.get(event.agentId);
+    const now = Date.now();
     for (const [clientId, client] of this.clients) {
-      if (client.ws.readyState === 1) { // WebSocket.OPEN = 1
-        try {
-          client.ws.send(message);
-        } catch {
-          // Client disconnected, remove it
-          this.removeClient(clientId);
-        }
+      if (client.role === null || !matchesFilter(event, client.filter, context)) continue;
+      if (client.ws.readyState !== 1) continue; // WebSocket.OPEN = 1
+      if (!this.checkBackpressure(clientId, client, now)) continue;
+
+      if (client.congestedSince !== null && LOW_PRIORITY_EVENTS.has(event.eventType)) {
+        this.deferEvent(client, event);
+        continue;
+      }
+      if (event.eventType === 'token_update') {
+        // Newer than anything held back for the agent
+        client.deferred.delete(event.agentId);
+      }
+
+      const encoded = this.encodeAgentStates(client, event);
+      if (client.batchMs !== null) {
+        this.enqueue(clientId, client, encoded);
+      } else {
+        this.sendFrame(clientId, client, encoded === event ? message : JSON.stringify(encoded));
+      }
+    }
+  }
+
+  /**
+   * Track how far behind a client's send buffer is: flush held-back events once it
+   * drains and disconnect clients that stay behind. Returns false if it was disconnected.
+   */
+  private checkBackpressure(clientId: string, client: ClientInfo, now: number): boolean {
+    const buffered = client.ws.bufferedAmount ?? 0;
+
+    if (buffered < this.backpressureBytes) {
+      client.congestedSince = null;
+      this.flushDeferred(clientId, client);
+      return this.clients.has(clientId);
+    }
+
+    client.congestedSince ??= now;
+    if (buffered >= this.maxBufferedBytes || now - client.congestedSince >= this.slowClientTimeoutMs) {
+      console.warn(`Disconnecting slow client ${clientId} (${buffered} bytes buffered, ${client.droppedEvents} events dropped)`);
+      this.removeClient(clientId);
+      try {
+        client.ws.close(CLOSE_SLOW_CONSUMER, 'Slow consumer');
+      } catch {
+        client.ws.terminate();
       }
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Hold back a low-priority event for a congested client. Heartbeats are dropped;
+   * token updates replace the one held for the same agent, keeping the summed deltas.
+   */
+  private deferEvent(client: ClientInfo, event: AgentEvent): void {
+    if (event.eventType !== 'token_update') {
+      client.droppedEvents++;
+      return;
+    }
+
+    const previous = client.deferred.get(event.agentId);
+    if (!previous) {
+      client.deferred.set(event.agentId, event);
+      return;
     }
+
+    client.droppedEvents++;
+    client.deferred.set(event.agentId, {
+      ...event,
+      payload: {
+        ...event.payload,
+        previousTokens: previous.payload.previousTokens,
+        delta: previous.payload.delta + event.payload.delta,
+        inputDelta: previous.payload.inputDelta + event.payload.inputDelta,
+        outputDelta: previous.payload.outputDelta + event.payload.outputDelta
+      }
+    });
+  }
+
+  /**
+   * Send held-back token updates. They go without a sequence id, since later
+   * events have already been sent and the client would discard them as duplicates.
+   */
+  private flushDeferred(clientId: string, client: ClientInfo): void {
+    if (client.deferred.size === 0) return;
+
+    const deferred = Array.from(client.deferred.values());
+    client.deferred.clear();
+    for (const { seq: _seq, ...event } of deferred) {
+      this.sendToClient(clientId, event);
+    }
+  }
+
+  private redact(event: AgentEvent): AgentEvent {
+    return { ...event, payload: this.redactor.redactPayload(event.payload) } as AgentEvent;
   }
 
   /**
    * Start polling for agent activities and heartbeats
    */
   start(): void {
-    this.startPolling();
+    if (this.mode === 'watch') {
+      this.startWatching();
+    } else {
+      this.startPolling();
+    }
     this.startHeartbeat();
   }
 
@@ -145,6 +930,10 @@ export class AgentActivityStreamer {
       clearInterval(this.pollingInterval);
       this.pollingInterval = null;
     }
+    if (this.activityWatcher) {
+      this.activityWatcher.stop();
+      this.activityWatcher = null;
+    }
     if (this.heartbeatInterval) {
       clearInterval(this.heartbeatInterval);
       this.heartbeatInterval = null;
@@ -157,7 +946,27 @@ export class AgentActivityStreamer {
   private startPolling(): void {
     this.pollingInterval = setInterval(() => {
       this.pollAgentActivities();
-    }, this.POLL_INTERVAL_MS);
+    }, this.pollIntervalMs);
+  }
+
+  /**
+   * Poll whenever OpenClaw files change, falling back to interval polling if watching fails
+   */
+  private startWatching(): void {
+    this.activityWatcher = new ActivityWatcher(this.openclawDir, () => this.pollAgentActivities(), {
+      debounceMs: this.watchDebounceMs,
+      pollIntervalMs: this.pollIntervalMs
+    });
+    this.activityWatcher.start();
+    // Establish the baseline immediately rather than waiting for the first change
+    this.pollAgentActivities();
+  }
+
+  /**
+   * How activity is currently detected; watch mode reports 'poll' after falling back
+   */
+  getActivityMode(): ActivityMode {
+    return this.activityWatcher?.getMode() ?? this.mode;
   }
 
   /**
@@ -203,6 +1012,8 @@ export class AgentActivityStreamer {
    * Poll OpenClaw directories for agent activity
    */
   private pollAgentActivities(): void {
+    this.pollAgentSnapshots();
+
     try {
       // Check for active sessions in workspaces
       const workspacesDir = join(this.openclawDir, 'workspaces');
@@ -211,35 +1022,66 @@ export class AgentActivityStreamer {
         return;
       }
 
-      const currentSessions = this.findActiveSessions(workspacesDir);
-      
-      // Detect new sessions (agent_started)
+      const activeSessions = this.findActiveSessions(workspacesDir);
+      const currentSessions = new Set(activeSessions.keys());
+
+      const identity = this.dataCollector.getIdentityResolver();
+      const knownAgents = new Map(
+        (this.dataCollector.getPreviousSnapshot()?.agents ?? []).map(agent => [agent.agentId, agent])
+      );
+      const activeAgentIds = new Set<string>();
+      const previouslyActiveIds = new Set<string>();
+      for (const sessionId of this.lastKnownSessions) {
+        const agent = identity.fromWorkspaceSession(sessionId);
+        if (agent?.runKey) previouslyActiveIds.add(agent.agentId);
+      }
+
+      // Events are keyed by the canonical id, so an agent working in several runs
+      // starts when it joins the first and ends when it has left the last; run
+      // membership in between is carried by the workspace_run_* events
       for (const sessionId of currentSessions) {
+        const agent = identity.fromWorkspaceSession(sessionId);
+        if (!agent?.runKey) continue;
+        const firstRun = !previouslyActiveIds.has(agent.agentId) && !activeAgentIds.has(agent.agentId);
+        activeAgentIds.add(agent.agentId);
         if (!this.lastKnownSessions.has(sessionId)) {
+          this.updateAgentContext(agent.agentId, { workspace: agent.runKey });
+        }
+        if (firstRun) {
           this.broadcast({
             timestamp: new Date().toISOString(),
-            agentId: this.extractAgentId(sessionId),
+            agentId: agent.agentId,
             eventType: 'agent_started',
             payload: {
               sessionId,
-              workspace: this.extractWorkspace(sessionId)
+              workspace: agent.runKey,
+              agentName: agent.agentName,
+              ...(knownAgents.has(agent.agentId) ? { agent: knownAgents.get(agent.agentId) } : {})
             }
           });
         }
       }
 
-      // Detect ended sessions (agent_ended)
+      const endedAgentIds = new Set<string>();
       for (const sessionId of this.lastKnownSessions) {
-        if (!currentSessions.has(sessionId)) {
-          this.broadcast({
-            timestamp: new Date().toISOString(),
-            agentId: this.extractAgentId(sessionId),
-            eventType: 'agent_ended',
-            payload: {
-              sessionId
-            }
-          });
-        }
+        if (currentSessions.has(sessionId)) continue;
+        const agent = identity.resolve(sessionId);
+        if (activeAgentIds.has(agent.agentId) || endedAgentIds.has(agent.agentId)) continue;
+        endedAgentIds.add(agent.agentId);
+        this.broadcast({
+          timestamp: new Date().toISOString(),
+          agentId: agent.agentId,
+          eventType: 'agent_ended',
+          payload: {
+            sessionId,
+            workspace: agent.runKey,
+            ...(knownAgents.has(agent.agentId) ? { agent: knownAgents.get(agent.agentId) } : {})
+          }
+        });
+      }
+
+      for (const change of this.workspaceRuns.update(activeSessions)) {
+        this.broadcast(this.runChangeToEvent(change));
       }
 
       this.lastKnownSessions = currentSessions;
@@ -254,10 +1096,312 @@ export class AgentActivityStreamer {
   }
 
   /**
-   * Find all active sessions by looking at workspace directories
+   * Take a DataCollector snapshot and broadcast what changed since the previous one
+   */
+  private pollAgentSnapshots(): void {
+    try {
+      const agents = this.dataCollector.collectAgentStates();
+      const stateChanges = this.dataCollector.detectStateChanges(agents);
+      const tokenDeltas = this.dataCollector.calculateTokenDeltas(agents);
+      const modelSwitches = this.dataCollector.detectModelSwitches(agents);
+      const contextPressure = this.dataCollector.detectContextPressure(agents);
+      const costUpdates = this.dataCollector.calculateCostDeltas(agents);
+      const previousAgents = new Map(
+        (this.dataCollector.getPreviousSnapshot()?.agents ?? []).map(agent => [agent.agentId, agent])
+      );
+      const snapshot = this.dataCollector.takeSnapshot(agents);
+      this.persistSnapshot(snapshot);
+
+      for (const agent of agents) {
+        this.updateAgentContext(agent.agentId, { model: agent.currentModel });
+      }
+
+      const agentsById = new Map(agents.map(agent => [agent.agentId, agent]));
+      for (const change of stateChanges) {
+        this.broadcast(this.stateChangeToEvent(change, agentsById.get(change.agentId)));
+      }
+
+      // Lifecycle events already carry the full state; send other field changes separately
+      const changedIds = new Set(stateChanges.map(change => change.agentId));
+      for (const agent of agents) {
+        const previous = previousAgents.get(agent.agentId);
+        if (previous && !changedIds.has(agent.agentId) && JSON.stringify(previous) !== JSON.stringify(agent)) {
+          this.broadcast({
+            timestamp: new Date().toISOString(),
+            agentId: agent.agentId,
+            eventType: 'agent_updated',
+            payload: { agent }
+          });
+        }
+      }
+      for (const delta of tokenDeltas) {
+        this.tokenHistory.record({
+          agentId: delta.agentId,
+          time: Date.parse(delta.timestamp),
+          total: delta.delta,
+          input: delta.inputDelta,
+          output: delta.outputDelta
+        });
+        this.broadcast(this.tokenDeltaToEvent(delta));
+      }
+      this.checkBudgets(tokenDeltas);
+      this.attributeRunTokens(tokenDeltas);
+      for (const modelSwitch of modelSwitches) {
+        this.broadcast(this.modelSwitchToEvent(modelSwitch));
+      }
+      for (const pressure of contextPressure) {
+        this.broadcast(this.contextPressureToEvent(pressure));
+      }
+      for (const update of costUpdates) {
+        this.broadcast(this.costUpdateToEvent(update, snapshot.costs.totalCost));
+      }
+
+      this.detectToolActivity();
+      for (const anomaly of this.anomalyDetector.checkSilences(agents)) {
+        this.broadcast(this.anomalyToEvent(anomaly));
+      }
+    } catch (error) {
+      console.error('Error polling agent snapshots:', error);
+    }
+  }
+
+  /**
+   * Count token deltas against the configured budgets and broadcast any new alerts
+   */
+  private checkBudgets(tokenDeltas: TokenUsageDelta[]): void {
+    if (!this.budgetMonitor.isEnabled()) return;
+
+    for (const delta of tokenDeltas) {
+      const workspace = this.workspaceRuns.findActiveRun(delta.agentId)?.runKey
+        ?? this.agentContext.get(delta.agentId)?.workspace;
+      this.budgetMonitor.record(delta.agentId, delta.delta, Date.parse(delta.timestamp), workspace);
+    }
+
+    for (const alert of this.budgetMonitor.check()) {
+      this.broadcast(this.budgetAlertToEvent(alert));
+    }
+  }
+
+  /**
+   * Add token deltas to the workspace runs their agents are part of
+   */
+  private attributeRunTokens(tokenDeltas: TokenUsageDelta[]): void {
+    const updated = new Map<string, WorkspaceRun>();
+    for (const delta of tokenDeltas) {
+      const run = this.workspaceRuns.recordTokens(delta.agentId, delta.delta);
+      if (run) updated.set(run.runKey, run);
+    }
+    for (const run of updated.values()) {
+      this.broadcast(this.runChangeToEvent({ type: 'updated', run }));
+    }
+  }
+
+  /**
+   * Rebuild the last day of token history from persisted token_update events
+   */
+  private restoreTokenHistory(): void {
+    if (!this.eventStore) return;
+
+    const events = this.eventStore.queryEvents({
+      from: Date.now() - 24 * 60 * 60 * 1000,
+      eventTypes: ['token_update']
+    });
+    for (const event of events) {
+      if (event.eventType !== 'token_update') continue;
+      this.tokenHistory.record({
+        agentId: event.agentId,
+        time: Date.parse(event.timestamp),
+        total: Number(event.payload.delta) || 0,
+        input: Number(event.payload.inputDelta) || 0,
+        output: Number(event.payload.outputDelta) || 0
+      });
+    }
+  }
+
+  /**
+   * Write a snapshot to the event store at most once per snapshot interval
+   */
+  private persistSnapshot(snapshot: DataCollectorSnapshot): void {
+    if (!this.eventStore) return;
+
+    const now = Date.now();
+    if (now - this.lastPersistedSnapshotAt >= this.snapshotIntervalMs) {
+      this.lastPersistedSnapshotAt = now;
+      this.eventStore.appendSnapshot(snapshot);
+    }
+  }
+
+  /**
+   * Record what is known about an agent for subscription filtering
+   */
+  private updateAgentContext(agentId: string, context: AgentContext): void {
+    this.agentContext.set(agentId, { ...this.agentContext.get(agentId), ...context });
+  }
+
+  /**
+   * Convert an AgentStateChange into an agent lifecycle event
+   */
+  private stateChangeToEvent(change: AgentStateChange, agent?: AgentState): AgentEvent {
+    let eventType: AgentEventType = 'agent_state_changed';
+    if (change.currentState === 'ended') {
+      eventType = 'agent_ended';
+    } else if (change.previousState === null) {
+      eventType = 'agent_started';
+    }
+
+    return {
+      timestamp: change.timestamp,
+      agentId: change.agentId,
+      eventType,
+      payload: {
+        previousState: change.previousState,
+        currentState: change.currentState,
+        ...(agent ? { agent } : {})
+      }
+    };
+  }
+
+  /**
+   * Convert a TokenUsageDelta into a token_update event
+   */
+  private tokenDeltaToEvent(delta: TokenUsageDelta): AgentEvent {
+    return {
+      timestamp: delta.timestamp,
+      agentId: delta.agentId,
+      eventType: 'token_update',
+      payload: {
+        previousTokens: delta.previousTokens,
+        currentTokens: delta.currentTokens,
+        delta: delta.delta,
+        inputDelta: delta.inputDelta,
+        outputDelta: delta.outputDelta
+      }
+    };
+  }
+
+  /**
+   * Convert a ModelSwitchEvent into a model_switched event
+   */
+  private modelSwitchToEvent(modelSwitch: ModelSwitchEvent): AgentEvent {
+    return {
+      timestamp: modelSwitch.timestamp,
+      agentId: modelSwitch.agentId,
+      eventType: 'model_switched',
+      payload: {
+        previousModel: modelSwitch.previousModel,
+        currentModel: modelSwitch.currentModel
+      }
+    };
+  }
+
+  /**
+   * Convert a ContextPressureEvent into a context_pressure event
+   */
+  private contextPressureToEvent(pressure: ContextPressureEvent): AgentEvent {
+    return {
+      timestamp: pressure.timestamp,
+      agentId: pressure.agentId,
+      eventType: 'context_pressure',
+      payload: {
+        model: pressure.model,
+        previousPct: pressure.previousPct,
+        contextPct: pressure.contextPct,
+        threshold: pressure.threshold,
+        contextWindow: pressure.contextWindow
+      }
+    };
+  }
+
+  /**
+   * Convert a CostUpdate into a cost_update event carrying the fleet-wide running total
+   */
+  private costUpdateToEvent(update: CostUpdate, totalCost: number): AgentEvent {
+    return {
+      timestamp: update.timestamp,
+      agentId: update.agentId,
+      eventType: 'cost_update',
+      payload: {
+        previousCost: update.previousCost,
+        currentCost: update.currentCost,
+        delta: update.delta,
+        inputTokens: update.inputTokens,
+        outputTokens: update.outputTokens,
+        totalCost
+      }
+    };
+  }
+
+  /**
+   * Convert a BudgetAlert into a budget_alert event; only agent budgets belong to an
+   * agent, and workspace budgets carry their workspace for subscription filters
+   */
+  private budgetAlertToEvent(alert: BudgetAlert): AgentEvent {
+    return {
+      timestamp: alert.timestamp,
+      agentId: alert.scope === 'agent' && alert.target ? alert.target : 'system',
+      eventType: 'budget_alert',
+      payload: alert.scope === 'workspace' && alert.target ? { ...alert, workspace: alert.target } : { ...alert }
+    };
+  }
+
+  /**
+   * Convert an AgentAnomaly into an agent_anomaly event
+   */
+  private anomalyToEvent(anomaly: AgentAnomaly): AgentEvent {
+    return {
+      timestamp: anomaly.detectedAt,
+      agentId: anomaly.agentId,
+      eventType: 'agent_anomaly',
+      payload: {
+        kind: anomaly.kind,
+        sessionId: anomaly.sessionId,
+        message: anomaly.message,
+        evidence: anomaly.evidence
+      }
+    };
+  }
+
+  /**
+   * Convert a WorkspaceRunChange into a workspace_run_* event
+   */
+  private runChangeToEvent(change: WorkspaceRunChange): AgentEvent {
+    return {
+      timestamp: new Date().toISOString(),
+      agentId: 'system',
+      eventType: `workspace_run_${change.type}`,
+      payload: {
+        workspace: change.run.runKey,
+        run: change.run
+      }
+    };
+  }
+
+  /**
+   * Convert a completed ToolCallRecord into a tool_called event
+   */
+  private toolCallToEvent(call: ToolCallRecord): AgentEvent {
+    return {
+      timestamp: call.completedAt ?? new Date().toISOString(),
+      agentId: call.agentId,
+      eventType: 'tool_called',
+      payload: {
+        sessionId: call.sessionId,
+        toolName: call.toolName,
+        callId: call.callId,
+        arguments: call.arguments,
+        status: call.status,
+        startedAt: call.startedAt,
+        durationMs: call.durationMs
+      }
+    };
+  }
+
+  /**
+   * Find all active sessions by looking at workspace directories, with the time each
+   * agent directory was created
    */
-  private findActiveSessions(workspacesDir: string): Set<string> {
-    const sessions = new Set<string>();
+  private findActiveSessions(workspacesDir: string): Map<string, number> {
+    const sessions = new Map<string, number>();
     
     try {
       const workflowTypes = readdirSync(workspacesDir);
@@ -272,13 +1416,11 @@ export class AgentActivityStreamer {
           if (!this.isDirectory(runPath)) continue;
 
           // Check for agent directories
-          const agents = readdirSync(runPath).filter(name => {
-            const agentPath = join(runPath, name);
-            return this.isDirectory(agentPath);
-          });
-
-          for (const agent of agents) {
-            sessions.add(`${workflowType}/${runId}/${agent}`);
+          for (const agent of readdirSync(runPath)) {
+            const createdAt = this.directoryCreatedAt(join(runPath, agent));
+            if (createdAt !== null) {
+              sessions.set(`${workflowType}/${runId}/${agent}`, createdAt);
+            }
           }
         }
       }
@@ -294,7 +1436,7 @@ export class AgentActivityStreamer {
    */
   private pollSessionDetails(workspacesDir: string): void {
     try {
-      // Look for tool calls in session logs or progress files
+      // Look for activity in workspace session logs
       for (const sessionId of this.lastKnownSessions) {
         const parts = sessionId.split('/');
         if (parts.length < 3) continue;
@@ -302,14 +1444,6 @@ export class AgentActivityStreamer {
         const [workflowType, runId, agentName] = parts;
         const agentDir = join(workspacesDir, workflowType, runId, agentName);
         
-        // Check for progress.txt which might contain activity info
-        const progressPath = join(agentDir, 'progress.txt');
-        if (this.fileExists(progressPath)) {
-          // In a real implementation, we'd parse this for tool calls
-          // For now, simulate activity detection
-          this.detectToolActivity(agentName, progressPath);
-        }
-
         // Check for any log files
         const logPath = join(agentDir, 'agent.log');
         if (this.fileExists(logPath)) {
@@ -322,12 +1456,15 @@ export class AgentActivityStreamer {
   }
 
   /**
-   * Detect tool activity from progress file
+   * Broadcast tool calls completed in session JSONL since the last poll, and any loops they form
    */
-  private detectToolActivity(_agentId: string, _progressPath: string): void {
-    // Placeholder for tool activity detection
-    // In a real implementation, parse the file for tool usage patterns
-    // and emit tool_called events
+  private detectToolActivity(): void {
+    for (const call of this.dataCollector.consumeToolCalls()) {
+      this.broadcast(this.toolCallToEvent(call));
+      for (const anomaly of this.anomalyDetector.observe(call)) {
+        this.broadcast(this.anomalyToEvent(anomaly));
+      }
+    }
   }
 
   /**
@@ -361,29 +1498,27 @@ export class AgentActivityStreamer {
   }
 
   /**
-   * Helper: Check if file exists
+   * Helper: Creation time of a directory, or null if the path is not one
    */
-  private fileExists(path: string): boolean {
+  private directoryCreatedAt(path: string): number | null {
     try {
-      return statSync(path).isFile();
+      const stats = statSync(path);
+      if (!stats.isDirectory()) return null;
+      // birthtime is 0 on filesystems that don't record it
+      return stats.birthtimeMs || stats.ctimeMs;
     } catch {
-      return false;
+      return null;
     }
   }
 
   /**
-   * Extract agent ID from session path
-   */
-  private extractAgentId(sessionId: string): string {
-    const parts = sessionId.split('/');
-    return parts[parts.length - 1] || 'unknown';
-  }
-
-  /**
-   * Extract workspace from session path
+   * Helper: Check if file exists
    */
-  private extractWorkspace(sessionId: string): string {
-    const parts = sessionId.split('/');
-    return parts.slice(0, -1).join('/') || 'unknown';
+  private fileExists(path: string): boolean {
+    try {
+      return statSync(path).isFile();
+    } catch {
+      return false;
+    }
   }
 }
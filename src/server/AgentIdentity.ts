@@ -0,0 +1,146 @@
+export interface AgentIdentity {
+  /** Canonical id, `agent:<name>`, shared by every source that refers to the agent */
+  agentId: string;
+  agentName: string;
+  /** Workspace run of a run-scoped reference, e.g. `feature-dev/run-1`; null otherwise */
+  runKey: string | null;
+}
+
+/**
+ * Extra names per agent, keyed by canonical agent name or id,
+ * e.g. {"developer": ["dev", "Developer Bot"]}
+ */
+export type AgentAliasConfig = Record<string, string[]>;
+
+export interface WorkspaceSessionPath {
+  workflowType: string;
+  runId: string;
+  agentName: string;
+}
+
+const AGENT_ID_PREFIX = 'agent:';
+// Workspace session paths accumulate run after run; keep the most recent ones
+const MAX_SEEN_ALIASES = 100;
+
+/**
+ * Split a `workflowType/runId/agentName` workspace session path
+ */
+export function parseWorkspaceSession(path: string): WorkspaceSessionPath | null {
+  const parts = path.split('/');
+  if (parts.length !== 3 || parts.some(part => !part)) return null;
+  const [workflowType, runId, agentName] = parts;
+  return { workflowType, runId, agentName };
+}
+
+/**
+ * Maps the names different sources use for an agent onto one canonical id:
+ * `~/.openclaw/agents/<name>` directories, workspace sessions
+ * (`workflowType/runId/<name>`), dashboard sessions and configured aliases.
+ *
+ * Same-named agents in different runs share the canonical id and keep their
+ * run in `runKey`, so they correlate with the agent without colliding.
+ */
+export class AgentIdentityResolver {
+  private aliasToName: Map<string, string> = new Map();
+  // Every reference seen or configured per canonical id
+  private knownAliases: Map<string, Set<string>> = new Map();
+
+  constructor(aliases: AgentAliasConfig = {}) {
+    for (const [agent, names] of Object.entries(aliases)) {
+      const agentName = stripPrefix(agent);
+      for (const alias of names) {
+        this.aliasToName.set(alias, agentName);
+        this.remember(toAgentId(agentName), alias);
+      }
+    }
+  }
+
+  /**
+   * Resolve a reference from any source: canonical id, configured alias,
+   * workspace session path or bare agent name. Lookups are not recorded as aliases.
+   */
+  resolve(ref: string): AgentIdentity {
+    const configured = this.aliasToName.get(ref);
+    if (configured) {
+      return identity(configured, null);
+    }
+
+    if (ref.startsWith(AGENT_ID_PREFIX)) {
+      return identity(this.canonicalName(stripPrefix(ref)), null);
+    }
+
+    const session = parseWorkspaceSession(ref);
+    if (session) {
+      return identity(this.canonicalName(session.agentName), `${session.workflowType}/${session.runId}`);
+    }
+
+    return identity(this.canonicalName(ref), null);
+  }
+
+  /**
+   * Identity of an `~/.openclaw/agents/<name>` directory
+   */
+  fromAgentDirectory(name: string): AgentIdentity {
+    return this.record(name, identity(this.canonicalName(name), null));
+  }
+
+  /**
+   * Identity of a workspace session path, null if it is not `workflowType/runId/agentName`
+   */
+  fromWorkspaceSession(path: string): AgentIdentity | null {
+    return parseWorkspaceSession(path) ? this.record(path, this.resolve(path)) : null;
+  }
+
+  /**
+   * Identity of a dashboard data.json session, which names its agent in `agent` or `agentName`
+   */
+  fromDashboardSession(session: { agent?: string; agentName?: string }): AgentIdentity {
+    const ref = session.agent || session.agentName || 'unknown';
+    return this.record(ref, this.resolve(ref));
+  }
+
+  /**
+   * Every reference that resolved to the agent, plus configured aliases
+   */
+  getAliases(agentId: string): string[] {
+    return Array.from(this.knownAliases.get(this.resolve(agentId).agentId) ?? []).sort();
+  }
+
+  /**
+   * Resolve a name through configured aliases, so `dev/run-1/dev` follows `dev` → `developer`
+   */
+  private canonicalName(name: string): string {
+    return this.aliasToName.get(name) ?? this.aliasToName.get(toAgentId(name)) ?? name;
+  }
+
+  private record(ref: string, resolved: AgentIdentity): AgentIdentity {
+    this.remember(resolved.agentId, ref);
+    return resolved;
+  }
+
+  private remember(agentId: string, ref: string): void {
+    if (ref === agentId) return;
+    const aliases = this.knownAliases.get(agentId) ?? new Set<string>();
+    // Re-insert so the Set stays in least recently seen order
+    aliases.delete(ref);
+    aliases.add(ref);
+    this.knownAliases.set(agentId, aliases);
+
+    for (const alias of aliases) {
+      if (aliases.size <= MAX_SEEN_ALIASES) break;
+      if (!this.aliasToName.has(alias)) aliases.delete(alias);
+    }
+  }
+}
+
+function identity(agentName: string, runKey: string | null): AgentIdentity {
+  return { agentId: toAgentId(agentName), agentName, runKey };
+}
+
+function toAgentId(agentName: string): string {
+  return `${AGENT_ID_PREFIX}${agentName}`;
+}
+
+function stripPrefix(ref: string): string {
+  return ref.startsWith(AGENT_ID_PREFIX) ? ref.slice(AGENT_ID_PREFIX.length) : ref;
+}
@@ -0,0 +1,69 @@
+import { diffAgentState, type AgentStatePatch } from '../shared/agentPatch.js';
+import type { AgentState } from '../shared/types.js';
+
+interface VersionedState {
+  version: number;
+  state: AgentState;
+}
+
+// Unacknowledged states kept per agent before the oldest are forgotten
+const MAX_UNACKED_STATES = 64;
+
+/**
+ * Per-client record of the agent states sent and acknowledged, so each new state
+ * can go out as a diff against the last one the client confirmed it holds.
+ * Versions increase with every send; an acknowledgement covers all earlier ones.
+ */
+export class AgentStateVersions {
+  private lastVersion = 0;
+  private acked: Map<string, VersionedState> = new Map();
+  private unacked: Map<string, VersionedState[]> = new Map();
+
+  /**
+   * Version for the next batch of states sent to the client
+   */
+  nextVersion(): number {
+    return ++this.lastVersion;
+  }
+
+  /**
+   * Record a state sent at `version`, returning the patch to send instead of it,
+   * or null when the client has no acknowledged base for the agent yet
+   */
+  encode(state: AgentState, version: number): AgentStatePatch | null {
+    const sent = this.unacked.get(state.agentId) ?? [];
+    sent.push({ version, state });
+    if (sent.length > MAX_UNACKED_STATES) sent.shift();
+    this.unacked.set(state.agentId, sent);
+
+    const base = this.acked.get(state.agentId);
+    return base ? { version, baseVersion: base.version, ...diffAgentState(base.state, state) } : null;
+  }
+
+  /**
+   * The client holds every state sent up to `version`; the latest per agent becomes its base
+   */
+  acknowledge(version: number): void {
+    if (!Number.isInteger(version) || version > this.lastVersion) return;
+
+    for (const [agentId, sent] of this.unacked) {
+      const confirmed = sent.filter(entry => entry.version <= version);
+      if (confirmed.length === 0) continue;
+      this.acked.set(agentId, confirmed[confirmed.length - 1]);
+      const remaining = sent.filter(entry => entry.version > version);
+      if (remaining.length > 0) {
+        this.unacked.set(agentId, remaining);
+      } else {
+        this.unacked.delete(agentId);
+      }
+    }
+  }
+
+  /**
+   * Forget all bases, e.g. before a snapshot that replaces the client's state
+   */
+  reset(): void {
+    this.acked.clear();
+    this.unacked.clear();
+  }
+}
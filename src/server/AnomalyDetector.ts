@@ -0,0 +1,217 @@
+import type { ToolCallRecord } from './ToolCallTracker.js';
+import type { AgentAnomaly, AgentState, AnomalyCall, AnomalyKind } from '../shared/types.js';
+
+export interface AnomalyDetectorOptions {
+  /** Consecutive identical calls (same tool and arguments) that count as a loop */
+  repeatThreshold?: number;
+  /** Full cycles of an alternating sequence such as A,B,A,B,A,B that count as a loop */
+  oscillationRepeats?: number;
+  /** Longest cycle length checked for oscillation */
+  maxCycleLength?: number;
+  /** Calls kept per session and attached as evidence */
+  evidenceSize?: number;
+}
+
+interface SessionHistory {
+  calls: AnomalyCall[];
+  signatures: string[];
+  // Anomaly kinds already reported for the current streak
+  reported: Set<AnomalyKind>;
+}
+
+const MAX_TRACKED_SESSIONS = 500;
+
+/**
+ * Flags agents that are stuck: the same tool call repeated, a short sequence of
+ * calls cycling, or a session gone silent. Each streak is reported once and
+ * re-armed when the pattern breaks.
+ */
+export class AnomalyDetector {
+  private sessions: Map<string, SessionHistory> = new Map();
+  private silentAgents: Set<string> = new Set();
+
+  private readonly repeatThreshold: number;
+  private readonly oscillationRepeats: number;
+  private readonly maxCycleLength: number;
+  private readonly evidenceSize: number;
+
+  constructor(options: AnomalyDetectorOptions = {}) {
+    this.repeatThreshold = options.repeatThreshold ?? 5;
+    this.oscillationRepeats = options.oscillationRepeats ?? 3;
+    this.maxCycleLength = options.maxCycleLength ?? 3;
+    this.evidenceSize = Math.max(
+      options.evidenceSize ?? 10,
+      this.repeatThreshold,
+      this.maxCycleLength * this.oscillationRepeats
+    );
+  }
+
+  /**
+   * Record a completed tool call and return any loop it completes
+   */
+  observe(call: ToolCallRecord): AgentAnomaly[] {
+    const history = this.getHistory(call.agentId, call.sessionId);
+    history.calls.push({
+      toolName: call.toolName,
+      arguments: call.arguments,
+      status: call.status,
+      completedAt: call.completedAt
+    });
+    history.signatures.push(`${call.toolName}\0${call.arguments ?? ''}`);
+    if (history.calls.length > this.evidenceSize) {
+      history.calls.shift();
+      history.signatures.shift();
+    }
+
+    const anomalies: AgentAnomaly[] = [];
+    const repetitions = this.trailingRepeats(history.signatures);
+
+    if (repetitions >= this.repeatThreshold) {
+      if (!history.reported.has('repeated_tool_call')) {
+        history.reported.add('repeated_tool_call');
+        anomalies.push(this.anomaly(call, 'repeated_tool_call', history, {
+          message: `${call.toolName} called ${repetitions} times in a row with the same arguments`,
+          repetitions
+        }));
+      }
+    } else {
+      history.reported.delete('repeated_tool_call');
+    }
+
+    const cycle = this.trailingCycle(history.signatures);
+    if (cycle) {
+      if (!history.reported.has('oscillating_tool_sequence')) {
+        history.reported.add('oscillating_tool_sequence');
+        const toolNames = history.calls.slice(-cycle.length).map(c => c.toolName);
+        anomalies.push(this.anomaly(call, 'oscillating_tool_sequence', history, {
+          message: `Cycling through ${toolNames.join(' → ')} ${cycle.repeats} times`,
+          repetitions: cycle.repeats,
+          cycle: toolNames
+        }));
+      }
+    } else {
+      history.reported.delete('oscillating_tool_sequence');
+    }
+
+    return anomalies;
+  }
+
+  /**
+   * Report agents that have just become stalled, with their latest calls as evidence
+   */
+  checkSilences(agents: AgentState[]): AgentAnomaly[] {
+    const anomalies: AgentAnomaly[] = [];
+
+    for (const agent of agents) {
+      if (agent.status !== 'stalled') {
+        this.silentAgents.delete(agent.agentId);
+        continue;
+      }
+      if (this.silentAgents.has(agent.agentId)) continue;
+      this.silentAgents.add(agent.agentId);
+
+      const latest = this.latestHistory(agent.agentId);
+      anomalies.push({
+        agentId: agent.agentId,
+        sessionId: latest?.sessionId ?? null,
+        kind: 'long_silence',
+        message: `No session activity since ${agent.lastActivity}`,
+        detectedAt: new Date().toISOString(),
+        evidence: {
+          recentCalls: [...(latest?.history.calls ?? [])],
+          lastActivity: agent.lastActivity
+        }
+      });
+    }
+
+    return anomalies;
+  }
+
+  /**
+   * Forget everything recorded so far
+   */
+  clear(): void {
+    this.sessions.clear();
+    this.silentAgents.clear();
+  }
+
+  private getHistory(agentId: string, sessionId: string): SessionHistory {
+    const key = `${agentId}\0${sessionId}`;
+    let history = this.sessions.get(key);
+    if (history) {
+      // Re-insert so the map stays ordered by last use
+      this.sessions.delete(key);
+    } else {
+      history = { calls: [], signatures: [], reported: new Set() };
+    }
+    this.sessions.set(key, history);
+
+    if (this.sessions.size > MAX_TRACKED_SESSIONS) {
+      const oldest = this.sessions.keys().next().value;
+      if (oldest !== undefined) this.sessions.delete(oldest);
+    }
+    return history;
+  }
+
+  /**
+   * The most recently used session history of an agent
+   */
+  private latestHistory(agentId: string): { sessionId: string; history: SessionHistory } | null {
+    let latest: { sessionId: string; history: SessionHistory } | null = null;
+    for (const [key, history] of this.sessions) {
+      const [keyAgentId, sessionId] = key.split('\0');
+      if (keyAgentId === agentId) latest = { sessionId, history };
+    }
+    return latest;
+  }
+
+  /**
+   * Number of identical signatures at the end of the list
+   */
+  private trailingRepeats(signatures: string[]): number {
+    const last = signatures[signatures.length - 1];
+    let count = 0;
+    for (let i = signatures.length - 1; i >= 0 && signatures[i] === last; i--) {
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Shortest cycle of two or more distinct calls repeated at the end of the list
+   */
+  private trailingCycle(signatures: string[]): { length: number; repeats: number } | null {
+    for (let length = 2; length <= this.maxCycleLength; length++) {
+      const needed = length * this.oscillationRepeats;
+      if (signatures.length < needed) break;
+
+      const tail = signatures.slice(-needed);
+      const cycle = tail.slice(0, length);
+      if (new Set(cycle).size < 2) continue;
+      if (tail.every((signature, i) => signature === cycle[i % length])) {
+        return { length, repeats: this.oscillationRepeats };
+      }
+    }
+    return null;
+  }
+
+  private anomaly(
+    call: ToolCallRecord,
+    kind: AnomalyKind,
+    history: SessionHistory,
+    details: { message: string; repetitions: number; cycle?: string[] }
+  ): AgentAnomaly {
+    return {
+      agentId: call.agentId,
+      sessionId: call.sessionId,
+      kind,
+      message: details.message,
+      detectedAt: new Date().toISOString(),
+      evidence: {
+        recentCalls: [...history.calls],
+        repetitions: details.repetitions,
+        ...(details.cycle ? { cycle: details.cycle } : {})
+      }
+    };
+  }
+}
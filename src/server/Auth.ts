@@ -0,0 +1,65 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { Role } from '../shared/types.js';
+
+export interface AccessToken {
+  token: string;
+  role: Role;
+  /** Shown in logs instead of the token */
+  name?: string;
+}
+
+const ROLE_RANK: Record<Role, number> = { viewer: 1, admin: 2 };
+
+/**
+ * Whether a role grants what another requires; admins can do everything viewers can
+ */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Checks presented tokens against the locally configured list. With no tokens
+ * configured authentication is disabled and every connection is trusted.
+ */
+export class TokenAuthenticator {
+  private tokens: { digest: Buffer; access: AccessToken }[];
+
+  constructor(tokens: AccessToken[] = []) {
+    this.tokens = tokens
+      .filter(access => access.token && ROLE_RANK[access.role])
+      .map(access => ({ digest: digest(access.token), access }));
+  }
+
+  isEnabled(): boolean {
+    return this.tokens.length > 0;
+  }
+
+  /**
+   * The access a token grants, or null if it is unknown
+   */
+  authenticate(token: string | null | undefined): AccessToken | null {
+    if (!token) return null;
+
+    // Compare fixed-length digests so timing reveals nothing about the tokens
+    const presented = digest(token);
+    let match: AccessToken | null = null;
+    for (const { digest: known, access } of this.tokens) {
+      if (timingSafeEqual(known, presented) && !match) {
+        match = access;
+      }
+    }
+    return match;
+  }
+}
+
+/**
+ * Read a token from `Authorization: Bearer <token>` or a `token` query parameter
+ */
+export function tokenFromRequest(authorization: string | undefined, params: URLSearchParams): string | null {
+  const bearer = /^Bearer\s+(.+)$/i.exec(authorization ?? '');
+  return bearer ? bearer[1].trim() : params.get('token');
+}
+
+function digest(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
@@ -0,0 +1,236 @@
+import { spawn } from 'node:child_process';
+import type { BudgetAlert, BudgetAlertLevel, BudgetScope, BudgetWindow } from '../shared/types.js';
+
+export interface BudgetConfig {
+  /** Defaults to `scope:target:window` */
+  id?: string;
+  scope: BudgetScope;
+  /**
+   * Agent id for agent budgets, workspace run (e.g. `feature-dev/run-1`) for workspace
+   * budgets. Without a target, an agent or workspace budget applies to each one separately.
+   */
+  target?: string;
+  window: BudgetWindow;
+  maxTokens: number;
+  /** Percentage of maxTokens at which a warning is raised, default 80 */
+  warnAtPct?: number;
+}
+
+export interface BudgetNotifierOptions {
+  /** URL that receives each alert as a JSON POST */
+  webhookUrl?: string;
+  /** Shell command run for each alert, with the alert JSON in $BUDGET_ALERT */
+  command?: string;
+}
+
+interface UsageBuckets {
+  workspace: string | null;
+  // Tokens per minute, keyed by the minute's start time
+  minutes: Map<number, number>;
+}
+
+const MINUTE_MS = 60 * 1000;
+const WINDOW_MS: Record<BudgetWindow, number> = {
+  hour: 60 * MINUTE_MS,
+  day: 24 * 60 * MINUTE_MS
+};
+const LEVEL_RANK: Record<BudgetAlertLevel, number> = { warning: 1, exceeded: 2 };
+
+/**
+ * Tracks token usage in per-minute buckets and raises an alert whenever a budget's
+ * sliding window moves up to a new level. A level is reported once and re-armed
+ * when usage falls back below the warning threshold.
+ */
+export class BudgetMonitor {
+  private usage: Map<string, UsageBuckets> = new Map();
+  private alertLevels: Map<string, BudgetAlertLevel> = new Map();
+
+  constructor(
+    private budgets: BudgetConfig[],
+    private notifier: BudgetNotifierOptions = {}
+  ) {}
+
+  /**
+   * Whether any budgets are configured
+   */
+  isEnabled(): boolean {
+    return this.budgets.length > 0;
+  }
+
+  /**
+   * Record tokens an agent used; negative deltas (session resets) are ignored
+   */
+  record(agentId: string, tokens: number, time: number = Date.now(), workspace?: string): void {
+    if (tokens <= 0 || !Number.isFinite(tokens)) return;
+
+    const buckets = this.usage.get(agentId) ?? { workspace: null, minutes: new Map() };
+    if (workspace) {
+      buckets.workspace = workspace;
+    }
+    const minute = Math.floor(time / MINUTE_MS) * MINUTE_MS;
+    buckets.minutes.set(minute, (buckets.minutes.get(minute) ?? 0) + tokens);
+    this.usage.set(agentId, buckets);
+  }
+
+  /**
+   * Evaluate every budget and return alerts for those that reached a new level.
+   * Alerts are also sent to the configured webhook and command.
+   */
+  check(now: number = Date.now()): BudgetAlert[] {
+    this.prune(now);
+    const alerts: BudgetAlert[] = [];
+    const evaluated = new Set<string>();
+
+    for (const budget of this.budgets) {
+      for (const [target, usedTokens] of this.usageFor(budget, now)) {
+        const key = `${budgetIdOf(budget)}\0${target ?? ''}`;
+        evaluated.add(key);
+        const alert = this.evaluate(budget, key, target, usedTokens, now);
+        if (alert) alerts.push(alert);
+      }
+    }
+
+    // Targets with no usage left in any window start over
+    for (const key of this.alertLevels.keys()) {
+      if (!evaluated.has(key)) this.alertLevels.delete(key);
+    }
+
+    for (const alert of alerts) {
+      this.notify(alert);
+    }
+    return alerts;
+  }
+
+  /**
+   * Tokens used within the budget's window, per target it applies to
+   */
+  private usageFor(budget: BudgetConfig, now: number): Map<string | null, number> {
+    const since = now - WINDOW_MS[budget.window];
+    const totals = new Map<string | null, number>();
+    if (budget.target || budget.scope === 'global') {
+      // Report zero usage too so a raised level can be re-armed
+      totals.set(budget.target ?? null, 0);
+    }
+
+    for (const [agentId, buckets] of this.usage) {
+      const target = this.targetOf(budget, agentId, buckets.workspace);
+      if (target === undefined) continue;
+
+      let used = 0;
+      for (const [minute, tokens] of buckets.minutes) {
+        if (minute + MINUTE_MS > since) used += tokens;
+      }
+      totals.set(target, (totals.get(target) ?? 0) + used);
+    }
+
+    return totals;
+  }
+
+  /**
+   * Which of the budget's targets an agent's usage counts towards; undefined if none
+   */
+  private targetOf(budget: BudgetConfig, agentId: string, workspace: string | null): string | null | undefined {
+    switch (budget.scope) {
+      case 'global':
+        return null;
+      case 'agent':
+        return !budget.target || budget.target === agentId ? agentId : undefined;
+      case 'workspace':
+        if (!workspace) return undefined;
+        if (!budget.target) return workspace;
+        return workspace === budget.target || workspace.startsWith(`${budget.target}/`) ? budget.target : undefined;
+    }
+  }
+
+  private evaluate(
+    budget: BudgetConfig,
+    key: string,
+    target: string | null,
+    usedTokens: number,
+    now: number
+  ): BudgetAlert | null {
+    const usedPct = budget.maxTokens > 0 ? (usedTokens / budget.maxTokens) * 100 : 0;
+
+    let level: BudgetAlertLevel | null = null;
+    if (usedPct >= 100) {
+      level = 'exceeded';
+    } else if (usedPct >= (budget.warnAtPct ?? 80)) {
+      level = 'warning';
+    }
+
+    const previous = this.alertLevels.get(key);
+    if (!level) {
+      this.alertLevels.delete(key);
+      return null;
+    }
+    if (previous && LEVEL_RANK[previous] >= LEVEL_RANK[level]) {
+      return null;
+    }
+
+    this.alertLevels.set(key, level);
+    return {
+      budgetId: budgetIdOf(budget),
+      scope: budget.scope,
+      target,
+      window: budget.window,
+      maxTokens: budget.maxTokens,
+      usedTokens,
+      usedPct: Math.round(usedPct * 10) / 10,
+      level,
+      timestamp: new Date(now).toISOString()
+    };
+  }
+
+  /**
+   * Drop buckets older than the longest window
+   */
+  private prune(now: number): void {
+    const oldest = now - WINDOW_MS.day;
+    for (const [agentId, buckets] of this.usage) {
+      for (const minute of buckets.minutes.keys()) {
+        if (minute + MINUTE_MS <= oldest) buckets.minutes.delete(minute);
+      }
+      if (buckets.minutes.size === 0) this.usage.delete(agentId);
+    }
+  }
+
+  /**
+   * Fire-and-forget delivery to the webhook and command; failures are only logged
+   */
+  private notify(alert: BudgetAlert): void {
+    const body = JSON.stringify(alert);
+
+    if (this.notifier.webhookUrl) {
+      fetch(this.notifier.webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        signal: AbortSignal.timeout(5000)
+      }).catch(error => {
+        console.error('Budget webhook failed:', error);
+      });
+    }
+
+    if (this.notifier.command) {
+      try {
+        const child = spawn(this.notifier.command, {
+          shell: true,
+          stdio: 'ignore',
+          env: { ...process.env, BUDGET_ALERT: body }
+        });
+        child.on('error', error => {
+          console.error('Budget command failed:', error);
+        });
+      } catch (error) {
+        console.error('Budget command failed:', error);
+      }
+    }
+  }
+}
+
+/**
+ * Stable id of a budget, used in alerts and to remember raised levels
+ */
+function budgetIdOf(budget: BudgetConfig): string {
+  return budget.id ?? `${budget.scope}:${budget.target ?? '*'}:${budget.window}`;
+}
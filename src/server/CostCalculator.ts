@@ -0,0 +1,94 @@
+import type { ModelConfig } from './DataCollector.js';
+import type { AgentCost, CostSummary, ModelCost, SessionCost } from '../shared/types.js';
+
+/**
+ * USD per million tokens, the same shape as `cost` in openclaw.json model configs
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * Prices keyed by `provider/modelId` or bare `modelId`; the qualified key wins
+ */
+export type PricingTable = Record<string, ModelPricing>;
+
+const TOKENS_PER_UNIT = 1_000_000;
+
+/**
+ * Prices token usage from a configurable pricing table, falling back to the
+ * `cost` a model declares in openclaw.json.
+ */
+export class CostCalculator {
+  constructor(private pricing: PricingTable = {}) {}
+
+  /**
+   * Find the price of a model, or null when it is unknown
+   */
+  priceFor(model: string, config?: ModelConfig | null): ModelPricing | null {
+    const candidates = [
+      config ? `${config.provider}/${config.id}` : null,
+      config?.id,
+      model,
+      model.includes('/') ? model.slice(model.indexOf('/') + 1) : null
+    ];
+
+    for (const key of candidates) {
+      if (key && this.pricing[key]) {
+        return this.pricing[key];
+      }
+    }
+
+    return config?.cost ?? null;
+  }
+
+  /**
+   * Cost in USD of a token split, or null when the model has no price
+   */
+  costOf(model: string, inputTokens: number, outputTokens: number, config?: ModelConfig | null): number | null {
+    const price = this.priceFor(model, config);
+    if (!price) return null;
+    return (inputTokens * (price.input || 0) + outputTokens * (price.output || 0)) / TOKENS_PER_UNIT;
+  }
+
+  /**
+   * Roll session costs up per agent and per model
+   */
+  summarize(sessions: SessionCost[], unpricedModels: Iterable<string> = []): CostSummary {
+    return summarizeCosts(sessions, unpricedModels);
+  }
+}
+
+/**
+ * Roll session costs up per agent and per model
+ */
+export function summarizeCosts(sessions: SessionCost[], unpricedModels: Iterable<string> = []): CostSummary {
+  const byAgent = new Map<string, AgentCost>();
+  const byModel = new Map<string, ModelCost>();
+
+  for (const session of sessions) {
+    const agent = byAgent.get(session.agentId) ?? { agentId: session.agentId, inputTokens: 0, outputTokens: 0, cost: 0 };
+    addUsage(agent, session);
+    byAgent.set(session.agentId, agent);
+
+    const model = byModel.get(session.model) ?? { model: session.model, inputTokens: 0, outputTokens: 0, cost: 0 };
+    addUsage(model, session);
+    byModel.set(session.model, model);
+  }
+
+  return {
+    currency: 'USD',
+    totalCost: sessions.reduce((sum, session) => sum + session.cost, 0),
+    byAgent: Array.from(byAgent.values()).sort((a, b) => b.cost - a.cost),
+    byModel: Array.from(byModel.values()).sort((a, b) => b.cost - a.cost),
+    bySession: [...sessions].sort((a, b) => b.cost - a.cost),
+    unpricedModels: Array.from(new Set(unpricedModels)).sort()
+  };
+}
+
+function addUsage(target: { inputTokens: number; outputTokens: number; cost: number }, session: SessionCost): void {
+  target.inputTokens += session.inputTokens;
+  target.outputTokens += session.outputTokens;
+  target.cost += session.cost;
+}
@@ -1,33 +1,28 @@
 import { readdirSync, readFileSync, statSync, existsSync } from 'node:fs';
-import { join } from 'node:path';
+import { basename, join } from 'node:path';
 import { homedir } from 'node:os';
+import { AgentIdentityResolver, type AgentAliasConfig } from './AgentIdentity.js';
+import { JsonlTailer } from './JsonlTailer.js';
+import { SessionTimelineBuilder, type TimelinePage } from './SessionTimeline.js';
+import { ToolCallTracker, type ToolCallRecord } from './ToolCallTracker.js';
+import { CostCalculator, type ModelPricing, type PricingTable } from './CostCalculator.js';
+import type {
+  AgentSession,
+  AgentSessionInfo,
+  AgentState,
+  AgentStatus,
+  DataCollectorSnapshot,
+  SessionCost,
+  SessionTimeline
+} from '../shared/types.js';
 
-export interface AgentSession {
-  sessionId: string;
-  agentId: string;
-  agentName: string;
-  model: string;
-  totalTokens: number;
-  contextPct: number;
-  lastActivity: string;
-  updatedAt: number;
-  type: string;
-  label?: string;
-  // Dashboard data.json uses 'agent' field
-  agent?: string;
-}
-
-export interface AgentState {
-  agentId: string;
-  agentName: string;
-  status: 'active' | 'idle' | 'ended';
-  currentModel: string;
-  totalTokens: number;
-  contextPct: number;
-  lastActivity: string;
-  sessions: AgentSession[];
-  toolsUsed: string[];
-  skills: string[];
+export interface StatusThresholds {
+  /** Sessions updated within this window count as active */
+  activeMs: number;
+  /** Agents not updated within this window have ended */
+  idleMs: number;
+  /** Active or tool-waiting sessions without JSONL writes for this long are stalled */
+  stalledMs: number;
 }
 
 export interface ModelConfig {
@@ -37,6 +32,7 @@ export interface ModelConfig {
   reasoning: boolean;
   contextWindow: number;
   maxTokens: number;
+  cost?: ModelPricing;
 }
 
 export interface TokenUsageDelta {
@@ -44,6 +40,9 @@ export interface TokenUsageDelta {
   previousTokens: number;
   currentTokens: number;
   delta: number;
+  /** Change in input and output tokens; these need not add up to delta */
+  inputDelta: number;
+  outputDelta: number;
   timestamp: string;
 }
 
@@ -54,10 +53,31 @@ export interface ModelSwitchEvent {
   timestamp: string;
 }
 
+export interface CostUpdate {
+  agentId: string;
+  previousCost: number;
+  currentCost: number;
+  delta: number;
+  inputTokens: number;
+  outputTokens: number;
+  timestamp: string;
+}
+
+export interface ContextPressureEvent {
+  agentId: string;
+  model: string;
+  previousPct: number;
+  contextPct: number;
+  /** Highest threshold crossed by this change */
+  threshold: number;
+  contextWindow: number | null;
+  timestamp: string;
+}
+
 export interface AgentStateChange {
   agentId: string;
-  previousState: 'active' | 'idle' | 'ended' | null;
-  currentState: 'active' | 'idle' | 'ended';
+  previousState: AgentStatus | null;
+  currentState: AgentStatus;
   timestamp: string;
 }
 
@@ -65,14 +85,40 @@ export interface ToolUsage {
   agentId: string;
   toolName: string;
   callCount: number;
-  lastUsed: string;
+  errorCount: number;
+  lastUsed: string | null;
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
 }
 
-export interface DataCollectorSnapshot {
-  timestamp: string;
-  agents: AgentState[];
-  totalSessions: number;
-  totalTokens: number;
+export interface DataCollectorOptions {
+  /** contextPct levels that trigger a context_pressure event when crossed upwards */
+  contextPressureThresholds?: number[];
+  /** Per-model prices overriding the `cost` declared in openclaw.json */
+  pricing?: PricingTable;
+  /** Status thresholds for all agents */
+  statusThresholds?: Partial<StatusThresholds>;
+  /** Per-agent overrides, keyed by agent name or id */
+  agentStatusThresholds?: Record<string, Partial<StatusThresholds>>;
+  /** Other names agents go by in workspaces and the dashboard, keyed by agent name */
+  agentAliases?: AgentAliasConfig;
+}
+
+const SAFE_PATH_SEGMENT = /^[\w.-]+$/;
+
+const DEFAULT_STATUS_THRESHOLDS: StatusThresholds = {
+  activeMs: 5 * 60 * 1000,
+  idleMs: 60 * 60 * 1000,
+  stalledMs: 3 * 60 * 1000
+};
+
+interface StatusSignals {
+  lastUpdateTime: number;
+  hasActiveSessions: boolean;
+  /** Newest session JSONL modification time, null without session files */
+  lastWriteTime: number | null;
+  lastEventErrored: boolean;
+  pendingToolCalls: number;
 }
 
 export class DataCollector {
@@ -85,13 +131,56 @@ export class DataCollector {
   private previousAgentStates: Map<string, AgentState> = new Map();
   private previousSnapshot: DataCollectorSnapshot | null = null;
 
-  constructor(openclawDir?: string) {
+  // Incremental session JSONL state, keyed by session file path
+  private sessionTailer = new JsonlTailer<SessionEvent>();
+  private sessionFileTools: Map<string, Set<string>> = new Map();
+  // Whether the last event read from each session file was an error
+  private sessionFileErrored: Map<string, boolean> = new Map();
+  private toolCallTracker = new ToolCallTracker();
+  private completedToolCalls: ToolCallRecord[] = [];
+  // Session files whose existing contents have been read; calls found before that are history
+  private primedSessionFiles: Set<string> = new Set();
+  private readonly MAX_QUEUED_TOOL_CALLS = 5000;
+
+  // Timelines of recently viewed sessions, extended with whatever was appended since the last request
+  private timelineTailer = new JsonlTailer<SessionEvent>();
+  private timelines: Map<string, SessionTimelineBuilder> = new Map();
+  private readonly MAX_CACHED_TIMELINES = 16;
+
+  // Per agent/tool call statistics, keyed by `${agentId}\0${toolName}`
+  private toolStats: Map<string, ToolStats> = new Map();
+  private readonly MAX_LATENCY_SAMPLES = 1000;
+
+  private readonly contextPressureThresholds: number[];
+  private readonly statusThresholds: StatusThresholds;
+  private readonly agentStatusThresholds: Record<string, Partial<StatusThresholds>>;
+
+  // Session costs from the latest collect, keyed by agent id
+  private costCalculator: CostCalculator;
+  private sessionCosts: Map<string, SessionCost[]> = new Map();
+  private unpricedModels: Set<string> = new Set();
+
+  private identity: AgentIdentityResolver;
+
+  constructor(openclawDir?: string, options: DataCollectorOptions = {}) {
     this.openclawDir = openclawDir || join(homedir(), '.openclaw');
+    this.contextPressureThresholds = [...(options.contextPressureThresholds ?? [80, 95])].sort((a, b) => a - b);
+    this.costCalculator = new CostCalculator(options.pricing);
+    this.statusThresholds = { ...DEFAULT_STATUS_THRESHOLDS, ...options.statusThresholds };
+    this.agentStatusThresholds = options.agentStatusThresholds ?? {};
+    this.identity = new AgentIdentityResolver(options.agentAliases);
     this.agentsDir = join(this.openclawDir, 'agents');
     this.dashboardDataPath = join(this.openclawDir, 'dashboard', 'data.json');
     this.openclawConfigPath = join(this.openclawDir, 'openclaw.json');
   }
 
+  /**
+   * Resolver that maps agent names from every source onto canonical agent ids
+   */
+  getIdentityResolver(): AgentIdentityResolver {
+    return this.identity;
+  }
+
   /**
    * Read the dashboard data.json file
    */
@@ -122,6 +211,44 @@ export class DataCollector {
     }
   }
 
+  /**
+   * Get all model configs from openclaw.json, flattened across providers
+   */
+  getModelConfigs(): ModelConfig[] {
+    const providers = this.readOpenclawConfig()?.models?.providers ?? {};
+    const models: ModelConfig[] = [];
+
+    for (const [providerName, provider] of Object.entries(providers)) {
+      for (const model of provider?.models ?? []) {
+        models.push({ ...model, provider: model.provider || providerName });
+      }
+    }
+
+    return models;
+  }
+
+  /**
+   * Find the config for a model id as it appears in sessions: a bare id (`k2p5`),
+   * a provider-qualified id (`moonshot/k2p5`) or the display name
+   */
+  resolveModelConfig(model: string, configs: ModelConfig[] = this.getModelConfigs()): ModelConfig | null {
+    if (!model || model === 'unknown') return null;
+
+    const wanted = model.toLowerCase();
+    const slash = wanted.indexOf('/');
+    if (slash > 0) {
+      const provider = wanted.slice(0, slash);
+      const id = wanted.slice(slash + 1);
+      const qualified = configs.find(c => c.provider.toLowerCase() === provider && c.id.toLowerCase() === id);
+      if (qualified) return qualified;
+    }
+
+    return configs.find(c => c.id.toLowerCase() === wanted)
+      ?? (slash > 0 ? configs.find(c => c.id.toLowerCase() === wanted.slice(slash + 1)) : undefined)
+      ?? configs.find(c => c.name?.toLowerCase() === wanted)
+      ?? null;
+  }
+
   /**
    * Get all agent directories
    */
@@ -198,21 +325,8 @@ export class DataCollector {
           const event = JSON.parse(line) as SessionEvent;
           events.push(event);
 
-          // Extract tool calls from tool_result or toolCall events
-          if (event.type === 'tool_result' || event.type === 'toolCall') {
-            const toolName = event.toolName || event.tool || event.name;
-            if (toolName) {
-              tools.add(toolName);
-            }
-          }
-
-          // Also check message content for tool calls
-          if (event.message?.tool_calls) {
-            for (const toolCall of event.message.tool_calls) {
-              if (toolCall.name || toolCall.function?.name) {
-                tools.add(toolCall.name || toolCall.function?.name as string);
-              }
-            }
+          for (const toolName of extractToolNames(event)) {
+            tools.add(toolName);
           }
         } catch {
           // Skip invalid lines
@@ -225,6 +339,165 @@ export class DataCollector {
     return { tools: Array.from(tools), events };
   }
 
+  /**
+   * Page through the event timeline of one session, newest entries first, or
+   * null if the session has no JSONL file
+   */
+  getSessionTimeline(agentName: string, sessionId: string, page?: TimelinePage): SessionTimeline | null {
+    // Both end up in a path; refuse anything that could leave the sessions directory
+    if (!SAFE_PATH_SEGMENT.test(agentName) || !SAFE_PATH_SEGMENT.test(sessionId)) {
+      return null;
+    }
+
+    const sessionPath = join(this.agentsDir, agentName, 'sessions', `${sessionId}.jsonl`);
+    if (!existsSync(sessionPath)) {
+      return null;
+    }
+
+    const { records, reset } = this.timelineTailer.read(sessionPath);
+    let builder = this.timelines.get(sessionPath);
+    if (!builder || reset) {
+      builder = new SessionTimelineBuilder(this.agentIdOf(agentName), sessionId);
+    }
+    builder.ingest(records);
+
+    // Least recently viewed timelines go first
+    this.timelines.delete(sessionPath);
+    this.timelines.set(sessionPath, builder);
+    for (const path of this.timelines.keys()) {
+      if (this.timelines.size <= this.MAX_CACHED_TIMELINES) break;
+      this.timelines.delete(path);
+      this.timelineTailer.forget(path);
+    }
+
+    return builder.getTimeline(page);
+  }
+
+  /**
+   * List the session JSONL files of an agent
+   */
+  getSessionFiles(agentName: string): string[] {
+    const sessionsDir = join(this.agentsDir, agentName, 'sessions');
+    try {
+      if (!existsSync(sessionsDir)) {
+        return [];
+      }
+      return readdirSync(sessionsDir)
+        .filter(f => f.endsWith('.jsonl'))
+        .map(f => join(sessionsDir, f));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Parse only the lines appended to a session file since the last read
+   */
+  private readSessionUpdates(agentName: string, sessionPath: string): void {
+    const { records, reset } = this.sessionTailer.read(sessionPath);
+    const live = this.primedSessionFiles.has(sessionPath);
+    this.primedSessionFiles.add(sessionPath);
+    if (reset) {
+      this.sessionFileTools.delete(sessionPath);
+      this.sessionFileErrored.delete(sessionPath);
+      this.toolCallTracker.resetSession(this.agentIdOf(agentName), sessionIdFromPath(sessionPath));
+    }
+    this.ingestSessionEvents(agentName, sessionPath, records, live);
+  }
+
+  /**
+   * Fold newly read session events into the incremental per-file state
+   */
+  private ingestSessionEvents(agentName: string, sessionPath: string, events: SessionEvent[], live: boolean): void {
+    let tools = this.sessionFileTools.get(sessionPath);
+    if (!tools) {
+      tools = new Set();
+      this.sessionFileTools.set(sessionPath, tools);
+    }
+
+    for (const event of events) {
+      for (const toolName of extractToolNames(event)) {
+        tools.add(toolName);
+      }
+    }
+    if (events.length > 0) {
+      this.sessionFileErrored.set(sessionPath, isErrorEvent(events[events.length - 1]));
+    }
+
+    const completed = this.toolCallTracker.ingest(
+      this.agentIdOf(agentName),
+      sessionIdFromPath(sessionPath),
+      events
+    );
+
+    for (const call of completed) {
+      this.recordToolCall(call);
+    }
+
+    // Calls already in a file when it is first read are history, not live activity
+    if (live && completed.length > 0) {
+      this.completedToolCalls.push(...completed);
+      const overflow = this.completedToolCalls.length - this.MAX_QUEUED_TOOL_CALLS;
+      if (overflow > 0) {
+        this.completedToolCalls.splice(0, overflow);
+      }
+    }
+  }
+
+  /**
+   * Fold a completed tool call into the per-tool statistics
+   */
+  private recordToolCall(call: ToolCallRecord): void {
+    const key = `${call.agentId}\0${call.toolName}`;
+    let stats = this.toolStats.get(key);
+    if (!stats) {
+      stats = { callCount: 0, errorCount: 0, lastUsed: 0, latencies: [] };
+      this.toolStats.set(key, stats);
+    }
+
+    stats.callCount++;
+    if (call.status === 'error') {
+      stats.errorCount++;
+    }
+
+    const usedAt = Date.parse(call.completedAt ?? call.startedAt ?? '');
+    if (Number.isFinite(usedAt) && usedAt > stats.lastUsed) {
+      stats.lastUsed = usedAt;
+    }
+
+    if (call.durationMs !== null) {
+      stats.latencies.push(call.durationMs);
+      if (stats.latencies.length > this.MAX_LATENCY_SAMPLES) {
+        stats.latencies.shift();
+      }
+    }
+  }
+
+  /**
+   * Return and clear tool calls completed since the last call
+   */
+  consumeToolCalls(): ToolCallRecord[] {
+    const calls = this.completedToolCalls;
+    this.completedToolCalls = [];
+    return calls;
+  }
+
+  /**
+   * Drop incremental state for session files that no longer exist
+   */
+  private pruneSessionFiles(currentPaths: Set<string>): void {
+    this.sessionTailer.retain(currentPaths);
+    for (const path of this.sessionFileTools.keys()) {
+      if (!currentPaths.has(path)) {
+        this.sessionFileTools.delete(path);
+        this.sessionFileErrored.delete(path);
+      }
+    }
+    for (const path of this.primedSessionFiles) {
+      if (!currentPaths.has(path)) this.primedSessionFiles.delete(path);
+    }
+  }
+
   /**
    * Collect current state of all agents
    */
@@ -232,22 +505,26 @@ export class DataCollector {
     const dashboardData = this.readDashboardData();
     const agentDirs = this.getAgentDirectories();
     const states: AgentState[] = [];
+    const seenSessionFiles = new Set<string>();
+    const modelConfigs = this.getModelConfigs();
+    this.sessionCosts.clear();
+    this.unpricedModels.clear();
 
-    // Group dashboard sessions by agent
+    // Group dashboard sessions by canonical agent id; they may use an id, name or alias
     const sessionsByAgent = new Map<string, AgentSession[]>();
     if (dashboardData?.sessions) {
       for (const session of dashboardData.sessions) {
-        const agentName = session.agent || session.agentName || 'unknown';
-        const agentSessions = sessionsByAgent.get(agentName) || [];
+        const { agentId } = this.identity.fromDashboardSession(session);
+        const agentSessions = sessionsByAgent.get(agentId) || [];
         agentSessions.push(session);
-        sessionsByAgent.set(agentName, agentSessions);
+        sessionsByAgent.set(agentId, agentSessions);
       }
     }
 
     // Process each agent directory
     for (const agentName of agentDirs) {
       const agentSessions = this.readAgentSessions(agentName);
-      const dashboardSessions = sessionsByAgent.get(agentName) || [];
+      const dashboardSessions = sessionsByAgent.get(this.agentIdOf(agentName)) || [];
 
       // Get the most recent session info
       let mostRecentSession: AgentSessionInfo | null = null;
@@ -277,46 +554,64 @@ export class DataCollector {
         || mostRecentSession?.totalTokens 
         || 0;
 
-      const contextPct = mostRecentDashboardSession?.contextPct 
-        || 0;
+      // Prefer our own figure from the model's context window; the dashboard's may be stale
+      const contextWindow = this.resolveModelConfig(currentModel, modelConfigs)?.contextWindow;
+      const contextPct = contextWindow && contextWindow > 0
+        ? Math.min(100, Math.round((totalTokens / contextWindow) * 1000) / 10)
+        : mostRecentDashboardSession?.contextPct || 0;
 
       const lastActivity = mostRecentDashboardSession?.lastActivity 
         || new Date(mostRecentTime).toISOString();
 
-      // Determine status based on recent activity
-      const status = this.determineAgentStatus(
-        agentName, 
-        mostRecentTime, 
-        dashboardSessions.length > 0
-      );
-
-      // Collect tools from session files
+      // Collect tools from session files, reading only newly appended lines
       const toolsUsed = new Set<string>();
-      const sessionsDir = join(this.agentsDir, agentName, 'sessions');
-      
-      try {
-        if (existsSync(sessionsDir)) {
-          const sessionFiles = readdirSync(sessionsDir).filter(f => f.endsWith('.jsonl'));
-          for (const file of sessionFiles) {
-            const { tools } = this.parseSessionFile(join(sessionsDir, file));
-            for (const tool of tools) {
-              toolsUsed.add(tool);
-            }
-          }
+      let lastWriteTime: number | null = null;
+      let lastEventErrored = false;
+      let currentSessionPath: string | null = null;
+      for (const sessionPath of this.getSessionFiles(agentName)) {
+        seenSessionFiles.add(sessionPath);
+        this.readSessionUpdates(agentName, sessionPath);
+        for (const tool of this.sessionFileTools.get(sessionPath) ?? []) {
+          toolsUsed.add(tool);
+        }
+        const modifiedTime = this.getModifiedTime(sessionPath);
+        if (modifiedTime !== null && modifiedTime > (lastWriteTime ?? 0)) {
+          lastWriteTime = modifiedTime;
+          lastEventErrored = this.sessionFileErrored.get(sessionPath) ?? false;
+          currentSessionPath = sessionPath;
         }
-      } catch {
-        // Ignore errors reading session files
       }
 
+      // Calls left unanswered in abandoned sessions say nothing about what the agent is doing now
+      const pendingToolCalls = currentSessionPath
+        ? this.toolCallTracker.getPendingCalls(this.agentIdOf(agentName), sessionIdFromPath(currentSessionPath)).length
+        : 0;
+
+      // Determine status based on recent activity
+      const status = this.determineAgentStatus(agentName, {
+        lastUpdateTime: mostRecentTime,
+        hasActiveSessions: dashboardSessions.length > 0,
+        lastWriteTime,
+        lastEventErrored,
+        pendingToolCalls
+      });
+
       // Get skills from most recent session
       const skills = mostRecentSession?.skills || [];
 
+      const agentId = this.agentIdOf(agentName);
+      const costs = this.priceSessions(agentId, agentSessions, modelConfigs);
+      this.sessionCosts.set(agentId, costs);
+
       states.push({
-        agentId: `agent:${agentName}`,
+        agentId,
         agentName,
         status,
         currentModel,
         totalTokens,
+        inputTokens: costs.reduce((sum, c) => sum + c.inputTokens, 0),
+        outputTokens: costs.reduce((sum, c) => sum + c.outputTokens, 0),
+        cost: costs.reduce((sum, c) => sum + c.cost, 0),
         contextPct,
         lastActivity,
         sessions: dashboardSessions,
@@ -325,28 +620,88 @@ export class DataCollector {
       });
     }
 
+    this.pruneSessionFiles(seenSessionFiles);
+
     return states;
   }
 
+  /**
+   * Price each session of an agent from its input/output split
+   */
+  private priceSessions(
+    agentId: string,
+    sessions: Map<string, AgentSessionInfo>,
+    modelConfigs: ModelConfig[]
+  ): SessionCost[] {
+    const costs: SessionCost[] = [];
+
+    for (const session of sessions.values()) {
+      const config = this.resolveModelConfig(session.model, modelConfigs);
+      const cost = this.costCalculator.costOf(session.model, session.inputTokens, session.outputTokens, config);
+      if (cost === null && session.inputTokens + session.outputTokens > 0) {
+        this.unpricedModels.add(session.model);
+      }
+      costs.push({
+        agentId,
+        sessionId: session.sessionId,
+        model: session.model,
+        inputTokens: session.inputTokens,
+        outputTokens: session.outputTokens,
+        cost: cost ?? 0
+      });
+    }
+
+    return costs;
+  }
+
+  /**
+   * Canonical id of the agent in `~/.openclaw/agents/<agentName>`
+   */
+  private agentIdOf(agentName: string): string {
+    return this.identity.fromAgentDirectory(agentName).agentId;
+  }
+
+  /**
+   * Status thresholds for an agent, with per-agent overrides applied
+   */
+  getStatusThresholds(agentName: string): StatusThresholds {
+    return {
+      ...this.statusThresholds,
+      ...this.agentStatusThresholds[this.agentIdOf(agentName)],
+      ...this.agentStatusThresholds[agentName]
+    };
+  }
+
   /**
    * Determine agent status based on activity
    */
-  private determineAgentStatus(
-    _agentName: string, 
-    lastUpdateTime: number, 
-    hasActiveSessions: boolean
-  ): 'active' | 'idle' | 'ended' {
+  private determineAgentStatus(agentName: string, signals: StatusSignals): AgentStatus {
+    const thresholds = this.getStatusThresholds(agentName);
     const now = Date.now();
-    const fiveMinutesAgo = now - 5 * 60 * 1000;
-    const oneHourAgo = now - 60 * 60 * 1000;
-
-    if (hasActiveSessions && lastUpdateTime > fiveMinutesAgo) {
-      return 'active';
-    } else if (lastUpdateTime > oneHourAgo) {
-      return 'idle';
-    } else {
+
+    if (signals.lastUpdateTime <= now - thresholds.idleMs) {
       return 'ended';
     }
+    if (signals.lastEventErrored) {
+      return 'errored';
+    }
+
+    const silentTooLong = signals.lastWriteTime !== null && signals.lastWriteTime <= now - thresholds.stalledMs;
+    if (signals.pendingToolCalls > 0) {
+      return silentTooLong ? 'stalled' : 'waiting_for_tool';
+    }
+    if (signals.hasActiveSessions && signals.lastUpdateTime > now - thresholds.activeMs) {
+      return silentTooLong ? 'stalled' : 'active';
+    }
+    return 'idle';
+  }
+
+  private getModifiedTime(path: string): number | null {
+    try {
+      return statSync(path).mtimeMs;
+    } catch {
+      return null;
+    }
   }
 
   /**
@@ -413,6 +768,8 @@ export class DataCollector {
             previousTokens: previousState.totalTokens,
             currentTokens: currentState.totalTokens,
             delta,
+            inputDelta: currentState.inputTokens - previousState.inputTokens,
+            outputDelta: currentState.outputTokens - previousState.outputTokens,
             timestamp: now
           });
         }
@@ -446,37 +803,131 @@ export class DataCollector {
   }
 
   /**
-   * Get tool usage statistics for all agents
+   * Calculate spend changes between current and previous snapshot
+   */
+  calculateCostDeltas(currentStates: AgentState[]): CostUpdate[] {
+    const updates: CostUpdate[] = [];
+    const now = new Date().toISOString();
+
+    for (const currentState of currentStates) {
+      const previousState = this.previousAgentStates.get(currentState.agentId);
+
+      if (previousState && previousState.cost !== currentState.cost) {
+        updates.push({
+          agentId: currentState.agentId,
+          previousCost: previousState.cost,
+          currentCost: currentState.cost,
+          delta: currentState.cost - previousState.cost,
+          inputTokens: currentState.inputTokens,
+          outputTokens: currentState.outputTokens,
+          timestamp: now
+        });
+      }
+    }
+
+    return updates;
+  }
+
+  /**
+   * Detect agents whose context usage crossed a pressure threshold since the previous snapshot.
+   * Agents seen for the first time are compared against 0%.
+   */
+  detectContextPressure(currentStates: AgentState[]): ContextPressureEvent[] {
+    const events: ContextPressureEvent[] = [];
+    const now = new Date().toISOString();
+    let modelConfigs: ModelConfig[] | null = null;
+
+    for (const currentState of currentStates) {
+      const previousPct = this.previousAgentStates.get(currentState.agentId)?.contextPct ?? 0;
+      const crossed = this.contextPressureThresholds.filter(
+        threshold => previousPct < threshold && currentState.contextPct >= threshold
+      );
+      if (crossed.length === 0) continue;
+
+      modelConfigs ??= this.getModelConfigs();
+      events.push({
+        agentId: currentState.agentId,
+        model: currentState.currentModel,
+        previousPct,
+        contextPct: currentState.contextPct,
+        threshold: crossed[crossed.length - 1],
+        contextWindow: this.resolveModelConfig(currentState.currentModel, modelConfigs)?.contextWindow ?? null,
+        timestamp: now
+      });
+    }
+
+    return events;
+  }
+
+  /**
+   * Get tool usage statistics for all agents, noisiest tools first.
+   * Calls still waiting for a result count towards callCount and lastUsed.
    */
   getToolUsage(currentStates: AgentState[]): ToolUsage[] {
     const usage: ToolUsage[] = [];
-    const now = new Date().toISOString();
+    const pendingCalls = this.toolCallTracker.getPendingCalls();
 
     for (const state of currentStates) {
-      for (const toolName of state.toolsUsed) {
+      const toolNames = new Set(state.toolsUsed);
+      for (const key of this.toolStats.keys()) {
+        const [agentId, toolName] = key.split('\0');
+        if (agentId === state.agentId) {
+          toolNames.add(toolName);
+        }
+      }
+
+      for (const toolName of toolNames) {
+        const stats = this.toolStats.get(`${state.agentId}\0${toolName}`);
+        let callCount = stats?.callCount ?? 0;
+        let lastUsed = stats?.lastUsed ?? 0;
+
+        for (const call of pendingCalls) {
+          if (call.agentId !== state.agentId || call.toolName !== toolName) continue;
+          callCount++;
+          const startedAt = Date.parse(call.startedAt ?? '');
+          if (Number.isFinite(startedAt) && startedAt > lastUsed) {
+            lastUsed = startedAt;
+          }
+        }
+
+        const latencies = [...(stats?.latencies ?? [])].sort((a, b) => a - b);
         usage.push({
           agentId: state.agentId,
           toolName,
-          callCount: 1, // Simplified - would need to count from session files
-          lastUsed: now
+          callCount,
+          errorCount: stats?.errorCount ?? 0,
+          lastUsed: lastUsed > 0 ? new Date(lastUsed).toISOString() : null,
+          p50LatencyMs: percentile(latencies, 50),
+          p95LatencyMs: percentile(latencies, 95)
         });
       }
     }
 
-    return usage;
+    return usage.sort((a, b) => b.callCount - a.callCount);
   }
 
   /**
-   * Take a snapshot of the current state
+   * Build a snapshot without recording it as the baseline for change detection
    */
-  takeSnapshot(): DataCollectorSnapshot {
-    const agents = this.collectAgentStates();
-    const snapshot: DataCollectorSnapshot = {
+  buildSnapshot(agents: AgentState[] = this.collectAgentStates()): DataCollectorSnapshot {
+    return {
       timestamp: new Date().toISOString(),
       agents,
       totalSessions: agents.reduce((sum, a) => sum + a.sessions.length, 0),
-      totalTokens: agents.reduce((sum, a) => sum + a.totalTokens, 0)
+      totalTokens: agents.reduce((sum, a) => sum + a.totalTokens, 0),
+      costs: this.costCalculator.summarize(
+        agents.flatMap(agent => this.sessionCosts.get(agent.agentId) ?? []),
+        this.unpricedModels
+      )
     };
+  }
+
+  /**
+   * Take a snapshot of the current state.
+   * Callers that already collected states (e.g. to diff them first) can pass them in.
+   */
+  takeSnapshot(agents: AgentState[] = this.collectAgentStates()): DataCollectorSnapshot {
+    const snapshot = this.buildSnapshot(agents);
 
     // Update previous state for next comparison
     this.previousAgentStates.clear();
@@ -501,7 +952,74 @@ export class DataCollector {
   clearCache(): void {
     this.previousAgentStates.clear();
     this.previousSnapshot = null;
+    this.sessionTailer.clear();
+    this.timelineTailer.clear();
+    this.timelines.clear();
+    this.sessionFileTools.clear();
+    this.sessionFileErrored.clear();
+    this.toolCallTracker.clear();
+    this.completedToolCalls = [];
+    this.primedSessionFiles.clear();
+    this.toolStats.clear();
+    this.sessionCosts.clear();
+    this.unpricedModels.clear();
+  }
+}
+
+/**
+ * Nearest-rank percentile of an ascending list of numbers
+ */
+function percentile(sorted: number[], pct: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((pct / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1];
+}
+
+/**
+ * Whether a session event reports a failure: an error event, a failed tool result
+ * or an assistant turn that stopped on an error
+ */
+function isErrorEvent(event: SessionEvent): boolean {
+  return event.type === 'error'
+    || event.isError === true
+    || event.status === 'error'
+    || Boolean(event.error)
+    || event.message?.isError === true
+    || event.message?.stopReason === 'error';
+}
+
+/**
+ * Derive a session id from a session JSONL file name
+ */
+function sessionIdFromPath(sessionPath: string): string {
+  return basename(sessionPath, '.jsonl');
+}
+
+/**
+ * Extract tool names referenced by a session event
+ */
+function extractToolNames(event: SessionEvent): string[] {
+  const names: string[] = [];
+
+  // Extract tool calls from tool_result or toolCall events
+  if (event.type === 'tool_result' || event.type === 'toolCall') {
+    const toolName = event.toolName || event.tool || event.name;
+    if (toolName) {
+      names.push(toolName);
+    }
   }
+
+  // Also check message content for tool calls
+  if (event.message?.tool_calls) {
+    for (const toolCall of event.message.tool_calls) {
+      const toolName = toolCall.name || toolCall.function?.name;
+      if (toolName) {
+        names.push(toolName);
+      }
+    }
+  }
+
+  return names;
 }
 
 // Type definitions for internal use
@@ -518,27 +1036,48 @@ interface SessionData {
   outputTokens?: number;
 }
 
-interface AgentSessionInfo {
-  sessionId: string;
-  updatedAt: number;
-  model: string;
-  totalTokens: number;
-  label?: string;
-  skills: string[];
-  inputTokens: number;
-  outputTokens: number;
+interface ToolStats {
+  callCount: number;
+  errorCount: number;
+  lastUsed: number;
+  latencies: number[];
 }
 
-interface SessionEvent {
+export interface SessionEvent {
   type: string;
+  id?: string;
+  toolCallId?: string;
+  tool_call_id?: string;
+  callId?: string;
   toolName?: string;
   tool?: string;
   name?: string;
+  arguments?: unknown;
+  args?: unknown;
+  input?: unknown;
+  isError?: boolean;
+  error?: unknown;
+  status?: string;
+  // model_change events
+  provider?: string;
+  modelId?: string;
+  model?: string;
   message?: {
+    role?: string;
+    content?: unknown;
+    model?: string;
+    toolCallId?: string;
+    tool_call_id?: string;
+    toolName?: string;
+    name?: string;
+    isError?: boolean;
+    stopReason?: string;
     tool_calls?: Array<{
+      id?: string;
       name?: string;
-      function?: { name?: string };
+      arguments?: unknown;
+      function?: { name?: string; arguments?: unknown };
     }>;
   };
-  timestamp?: string;
+  timestamp?: string | number;
 }
@@ -0,0 +1,90 @@
+import { randomUUID } from 'node:crypto';
+import type { AgentEvent } from '../shared/protocol.js';
+
+/**
+ * Bounded ring buffer of recent events with monotonically increasing
+ * sequence ids, used to replay what a reconnecting client missed.
+ */
+export class EventHistory {
+  private buffer: (AgentEvent | undefined)[];
+  private head = 0;
+  private size = 0;
+  private lastSeq = 0;
+  // Sequence ids restart with every server lifetime; cursors carry this to tell them apart
+  private readonly epoch = randomUUID();
+
+  constructor(capacity: number = 1000) {
+    this.buffer = new Array(Math.max(1, capacity));
+  }
+
+  /**
+   * Assign the next sequence id to an event and store it
+   */
+  record(event: AgentEvent): AgentEvent {
+    const sequenced: AgentEvent = { ...event, seq: ++this.lastSeq };
+
+    const index = (this.head + this.size) % this.buffer.length;
+    this.buffer[index] = sequenced;
+    if (this.size < this.buffer.length) {
+      this.size++;
+    } else {
+      this.head = (this.head + 1) % this.buffer.length;
+    }
+
+    return sequenced;
+  }
+
+  /**
+   * Get every event after the given sequence id, or null when some of them
+   * were already evicted or the cursor's epoch is from another server lifetime.
+   * Cursors without an epoch are only caught when they are ahead of this lifetime.
+   */
+  since(seq: number, epoch?: string): AgentEvent[] | null {
+    if (epoch !== undefined && epoch !== this.epoch) {
+      return null;
+    }
+    if (!Number.isInteger(seq) || seq < 0 || seq > this.lastSeq) {
+      return null;
+    }
+    if (seq < this.getOldestSeq() - 1) {
+      return null;
+    }
+
+    const events: AgentEvent[] = [];
+    for (let i = 0; i < this.size; i++) {
+      const event = this.buffer[(this.head + i) % this.buffer.length];
+      if (event && (event.seq ?? 0) > seq) {
+        events.push(event);
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Identifier of this server lifetime, sent with snapshots and echoed back on resume
+   */
+  getEpoch(): string {
+    return this.epoch;
+  }
+
+  /**
+   * Sequence id of the most recently recorded event (0 when empty)
+   */
+  getLastSeq(): number {
+    return this.lastSeq;
+  }
+
+  /**
+   * Sequence id of the oldest retained event
+   */
+  getOldestSeq(): number {
+    return this.lastSeq - this.size + 1;
+  }
+
+  /**
+   * Number of retained events
+   */
+  getSize(): number {
+    return this.size;
+  }
+}
@@ -0,0 +1,254 @@
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readSync,
+  statSync,
+  unlinkSync
+} from 'node:fs';
+import { join } from 'node:path';
+import { StringDecoder } from 'node:string_decoder';
+import type { AgentEvent, EventQuery } from '../shared/protocol.js';
+import type { DataCollectorSnapshot } from '../shared/types.js';
+
+export interface EventStoreOptions {
+  /** Directory holding the daily segment files */
+  directory: string;
+  /** Segments older than this many days are deleted */
+  retentionDays?: number;
+  /** Oldest segments are deleted while the store is larger than this */
+  maxBytes?: number;
+}
+
+type SegmentKind = 'events' | 'snapshots';
+
+const SEGMENT_PATTERN = /^(events|snapshots)-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Start of year 10000, past which ISO day strings stop sorting lexically
+const MAX_DAY_MS = Date.UTC(10000, 0, 1);
+
+/**
+ * Append-only store of emitted events and periodic snapshots, split into one
+ * JSONL segment per kind and UTC day so retention is a matter of deleting files.
+ */
+export class EventStore {
+  private readonly directory: string;
+  private readonly retentionDays: number;
+  private readonly maxBytes: number;
+  private lastRetentionDay: string | null = null;
+
+  constructor(options: EventStoreOptions) {
+    this.directory = options.directory;
+    this.retentionDays = options.retentionDays ?? 7;
+    this.maxBytes = options.maxBytes ?? 512 * 1024 * 1024;
+  }
+
+  /**
+   * Persist an emitted event
+   */
+  appendEvent(event: AgentEvent): void {
+    this.append('events', event.timestamp, event);
+  }
+
+  /**
+   * Persist a snapshot
+   */
+  appendSnapshot(snapshot: DataCollectorSnapshot): void {
+    this.append('snapshots', snapshot.timestamp, snapshot);
+  }
+
+  /**
+   * Find stored events by time range, agent and event type, oldest first
+   */
+  queryEvents(query: EventQuery = {}): AgentEvent[] {
+    const { from, to } = this.resolveRange(query);
+    const eventTypes = query.eventTypes?.length ? new Set(query.eventTypes) : null;
+
+    return this.scan<AgentEvent>('events', from, to, query.limit, event =>
+      (!query.agentId || event.agentId === query.agentId) &&
+      (!eventTypes || eventTypes.has(event.eventType))
+    );
+  }
+
+  /**
+   * Find stored snapshots by time range, oldest first
+   */
+  querySnapshots(query: Pick<EventQuery, 'from' | 'to' | 'limit'> = {}): DataCollectorSnapshot[] {
+    const { from, to } = this.resolveRange(query);
+    return this.scan<DataCollectorSnapshot>('snapshots', from, to, query.limit, () => true);
+  }
+
+  /**
+   * Delete segments past the retention window, then the oldest ones while over the size limit
+   */
+  enforceRetention(now: number = Date.now()): void {
+    const cutoffDay = dayOf(now - this.retentionDays * DAY_MS);
+    const segments = this.listSegments();
+
+    const kept = segments.filter(segment => {
+      if (segment.day < cutoffDay) {
+        this.deleteSegment(segment.path);
+        return false;
+      }
+      return true;
+    });
+
+    let totalBytes = kept.reduce((sum, segment) => sum + segment.size, 0);
+    for (const segment of kept) {
+      if (totalBytes <= this.maxBytes) break;
+      this.deleteSegment(segment.path);
+      totalBytes -= segment.size;
+    }
+  }
+
+  private append(kind: SegmentKind, timestamp: string, record: unknown): void {
+    const time = Date.parse(timestamp);
+    const day = dayOf(Number.isFinite(time) ? time : Date.now());
+
+    try {
+      if (!existsSync(this.directory)) {
+        mkdirSync(this.directory, { recursive: true });
+      }
+
+      // Check retention once per day rather than on every write
+      if (this.lastRetentionDay !== day) {
+        this.lastRetentionDay = day;
+        this.enforceRetention();
+      }
+
+      appendFileSync(join(this.directory, `${kind}-${day}.jsonl`), JSON.stringify(record) + '\n');
+    } catch (error) {
+      console.error('Error writing to event store:', error);
+    }
+  }
+
+  /**
+   * Epoch bounds of a query, clamped to the days segment names can hold so
+   * that out-of-range numbers such as 1e17 never reach `dayOf`
+   */
+  private resolveRange(query: Pick<EventQuery, 'from' | 'to'>): { from: number; to: number } {
+    const clamp = (time: number) => Math.min(MAX_DAY_MS - 1, Math.max(0, time));
+    return {
+      from: clamp(toEpochMs(query.from) ?? 0),
+      to: clamp(toEpochMs(query.to) ?? MAX_DAY_MS)
+    };
+  }
+
+  /**
+   * Read the segments overlapping [from, to] and collect matching records
+   */
+  private scan<T extends { timestamp: string }>(
+    kind: SegmentKind,
+    from: number,
+    to: number,
+    limit: number | undefined,
+    predicate: (record: T) => boolean
+  ): T[] {
+    if (from > to) return [];
+
+    const fromDay = dayOf(from);
+    const toDay = dayOf(to);
+    const results: T[] = [];
+
+    for (const segment of this.listSegments()) {
+      if (segment.kind !== kind || segment.day < fromDay || segment.day > toDay) continue;
+
+      readJsonlRecords<T>(segment.path, record => {
+        const time = Date.parse(record.timestamp);
+        if (time >= from && time <= to && predicate(record)) {
+          results.push(record);
+          // Keep memory bounded while scanning; only the newest `limit` survive
+          if (limit && results.length > limit * 2) {
+            results.splice(0, results.length - limit);
+          }
+        }
+      });
+    }
+
+    results.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    return limit ? results.slice(-limit) : results;
+  }
+
+  /**
+   * List segment files, oldest day first
+   */
+  private listSegments(): { kind: SegmentKind; day: string; path: string; size: number }[] {
+    try {
+      if (!existsSync(this.directory)) {
+        return [];
+      }
+
+      const segments: { kind: SegmentKind; day: string; path: string; size: number }[] = [];
+      for (const file of readdirSync(this.directory)) {
+        const match = SEGMENT_PATTERN.exec(file);
+        if (!match) continue;
+        const path = join(this.directory, file);
+        segments.push({ kind: match[1] as SegmentKind, day: match[2], path, size: statSync(path).size });
+      }
+      return segments.sort((a, b) => a.day.localeCompare(b.day));
+    } catch {
+      return [];
+    }
+  }
+
+  private deleteSegment(path: string): void {
+    try {
+      unlinkSync(path);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+/**
+ * Stream a JSONL file record by record without loading it whole
+ */
+function readJsonlRecords<T>(path: string, onRecord: (record: T) => void): void {
+  let fd: number;
+  try {
+    fd = openSync(path, 'r');
+  } catch {
+    return;
+  }
+
+  const decoder = new StringDecoder('utf8');
+  const buffer = Buffer.alloc(64 * 1024);
+  let remainder = '';
+
+  const emit = (line: string) => {
+    if (!line.trim()) return;
+    try {
+      onRecord(JSON.parse(line) as T);
+    } catch {
+      // Skip partially written lines
+    }
+  };
+
+  try {
+    let bytesRead: number;
+    while ((bytesRead = readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      const lines = (remainder + decoder.write(buffer.subarray(0, bytesRead))).split('\n');
+      remainder = lines.pop() ?? '';
+      lines.forEach(emit);
+    }
+    emit(remainder + decoder.end());
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * UTC day (YYYY-MM-DD) of an epoch-millisecond time
+ */
+function dayOf(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function toEpochMs(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const time = typeof value === 'number' ? value : Date.parse(value);
+  return Number.isFinite(time) ? time : undefined;
+}
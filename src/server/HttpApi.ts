@@ -0,0 +1,206 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { AgentActivityStreamer } from './AgentActivityStreamer.js';
+import { MAX_HISTORY_LIMIT, type AgentEventType } from '../shared/protocol.js';
+import { isTokenHistoryWindow } from './TokenHistory.js';
+import { tokenFromRequest } from './Auth.js';
+import type { AgentDetails, AgentState } from '../shared/types.js';
+
+type RouteHandler = (params: string[], query: URLSearchParams) => unknown;
+
+interface Route {
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+/**
+ * Error carrying the HTTP status to answer with
+ */
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Read-only JSON API over the streamer's current state, served on the same
+ * port as the WebSocket endpoint.
+ */
+export class HttpApi {
+  private routes: Route[];
+
+  constructor(private streamer: AgentActivityStreamer) {
+    this.routes = [
+      { pattern: /^\/api\/health$/, handler: () => this.getHealth() },
+      { pattern: /^\/api\/snapshot$/, handler: () => this.streamer.getSnapshot() },
+      { pattern: /^\/api\/agents$/, handler: () => this.streamer.getSnapshot().agents },
+      { pattern: /^\/api\/agents\/([^/]+)$/, handler: ([id]) => this.getAgent(id) },
+      { pattern: /^\/api\/agents\/([^/]+)\/sessions$/, handler: ([id]) => this.getAgentSessions(id) },
+      {
+        pattern: /^\/api\/agents\/([^/]+)\/sessions\/([^/]+)\/timeline$/,
+        handler: ([id, sessionId], query) => this.getSessionTimeline(id, sessionId, query)
+      },
+      { pattern: /^\/api\/models$/, handler: () => this.streamer.getDataCollector().getModelConfigs() },
+      { pattern: /^\/api\/costs$/, handler: () => this.streamer.getSnapshot().costs },
+      { pattern: /^\/api\/runs$/, handler: () => this.streamer.getWorkspaceRuns() },
+      { pattern: /^\/api\/clients$/, handler: () => this.streamer.getClientMetrics() },
+      { pattern: /^\/api\/tools$/, handler: () => this.getToolUsage() },
+      { pattern: /^\/api\/tokens\/history$/, handler: (_params, query) => this.getTokenHistory(query) },
+      { pattern: /^\/api\/events$/, handler: (_params, query) => this.getEvents(query) }
+    ];
+  }
+
+  /**
+   * Node http request listener; answers JSON for every /api route
+   */
+  handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    try {
+      if (req.method !== 'GET' && req.method !== 'HEAD') {
+        throw new HttpError(405, `Method ${req.method} not allowed`);
+      }
+
+      // Health stays open for liveness probes; everything else needs a token when auth is configured
+      if (url.pathname !== '/api/health' && !this.streamer.authenticate(tokenFromRequest(req.headers.authorization, url.searchParams))) {
+        throw new HttpError(401, 'Missing or invalid access token');
+      }
+
+      for (const route of this.routes) {
+        const match = route.pattern.exec(url.pathname);
+        if (match) {
+          const params = match.slice(1).map(decodePathParam);
+          // Timelines, sessions and snapshots are read straight from the logs, so
+          // they get the same redaction as streamed events
+          this.sendJson(res, 200, this.streamer.getRedactor().redact(route.handler(params, url.searchParams)));
+          return;
+        }
+      }
+
+      throw new HttpError(404, `No route for ${url.pathname}`);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        this.sendJson(res, error.status, { error: error.message });
+      } else {
+        console.error('Error handling API request:', error);
+        this.sendJson(res, 500, { error: 'Internal server error' });
+      }
+    }
+  }
+
+  private getHealth(): Record<string, unknown> {
+    return {
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime(),
+      connectedClients: this.streamer.getClientCount(),
+      activityMode: this.streamer.getActivityMode(),
+      lastSeq: this.streamer.getLastSeq()
+    };
+  }
+
+  /**
+   * Look an agent up by full id (`agent:name`), bare name or any alias
+   */
+  private findAgent(id: string): AgentState {
+    const { agentId } = this.streamer.getDataCollector().getIdentityResolver().resolve(id);
+    const agent = this.streamer.getSnapshot().agents.find(a => a.agentId === agentId || a.agentName === id);
+    if (!agent) {
+      throw new HttpError(404, `Unknown agent ${id}`);
+    }
+    return agent;
+  }
+
+  /**
+   * An agent with every name it goes by, so clients can tell which references map to it
+   */
+  private getAgent(id: string): AgentDetails {
+    const agent = this.findAgent(id);
+    const aliases = this.streamer.getDataCollector().getIdentityResolver().getAliases(agent.agentId);
+    return { ...agent, aliases };
+  }
+
+  private getAgentSessions(id: string): unknown {
+    const agent = this.findAgent(id);
+    return Array.from(this.streamer.getDataCollector().readAgentSessions(agent.agentName).values())
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * One page of a session timeline: ?before=&limit=, newest entries by default
+   */
+  private getSessionTimeline(id: string, sessionId: string, query: URLSearchParams): unknown {
+    const agent = this.findAgent(id);
+    const timeline = this.streamer.getDataCollector().getSessionTimeline(agent.agentName, sessionId, {
+      before: query.has('before') ? Number(query.get('before')) : undefined,
+      limit: query.has('limit') ? Number(query.get('limit')) : undefined
+    });
+    if (!timeline) {
+      throw new HttpError(404, `No session log for ${sessionId}`);
+    }
+    return timeline;
+  }
+
+  private getToolUsage(): unknown {
+    const collector = this.streamer.getDataCollector();
+    return collector.getToolUsage(this.streamer.getSnapshot().agents);
+  }
+
+  /**
+   * Token rate series for charts: ?window=15m|1h|24h&agentId=a,b
+   */
+  private getTokenHistory(query: URLSearchParams): unknown {
+    const window = query.get('window') ?? '1h';
+    if (!isTokenHistoryWindow(window)) {
+      throw new HttpError(400, `Unknown window ${window}; use 15m, 1h or 24h`);
+    }
+
+    const agentIds = query.getAll('agentId').flatMap(v => v.split(',')).filter(Boolean);
+    return this.streamer.getTokenHistory(window, agentIds.map(id => this.findAgent(id).agentId));
+  }
+
+  /**
+   * Query persisted events: ?from=&to=&agentId=&eventType=a,b&limit=
+   */
+  private getEvents(query: URLSearchParams): unknown {
+    const eventTypes = query.getAll('eventType').flatMap(v => v.split(',')).filter(Boolean);
+    const limit = Number(query.get('limit'));
+
+    return this.streamer.queryHistory({
+      from: numericOrString(query.get('from')),
+      to: numericOrString(query.get('to')),
+      agentId: query.get('agentId') ?? undefined,
+      eventTypes: eventTypes.length ? eventTypes as AgentEventType[] : undefined,
+      limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_HISTORY_LIMIT) : 500
+    });
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    const json = JSON.stringify(body);
+    res.writeHead(status, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Content-Length': Buffer.byteLength(json),
+      'Cache-Control': 'no-store'
+    });
+    res.end(json);
+  }
+}
+
+/**
+ * Decode a path segment, answering 400 for malformed escapes such as `%E0%A4%A`
+ */
+function decodePathParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new HttpError(400, `Malformed path segment ${value}`);
+  }
+}
+
+/**
+ * Accept epoch milliseconds or an ISO string from a query parameter
+ */
+function numericOrString(value: string | null): string | number | undefined {
+  if (value === null || value === '') return undefined;
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
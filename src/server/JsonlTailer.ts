@@ -0,0 +1,151 @@
+import { closeSync, openSync, readSync, statSync } from 'node:fs';
+import { StringDecoder } from 'node:string_decoder';
+
+export interface TailResult<T> {
+  records: T[];
+  /** True when a previously tailed file was truncated or rotated and got re-read from the start */
+  reset: boolean;
+}
+
+interface TailState {
+  ino: number;
+  offset: number;
+  remainder: string;
+  decoder: StringDecoder;
+}
+
+/**
+ * Incrementally reads JSONL files, remembering the byte offset and inode of
+ * each file so every call only parses lines appended since the previous one.
+ */
+export class JsonlTailer<T = unknown> {
+  private files: Map<string, TailState> = new Map();
+
+  constructor(private readonly chunkSize: number = 64 * 1024) {}
+
+  /**
+   * Read and parse all complete lines appended to a file since the last call.
+   * A trailing line without newline is held back until it is complete.
+   */
+  read(path: string): TailResult<T> {
+    let size: number;
+    let ino: number;
+    try {
+      const stats = statSync(path);
+      size = stats.size;
+      ino = stats.ino;
+    } catch {
+      this.files.delete(path);
+      return { records: [], reset: false };
+    }
+
+    let state = this.files.get(path);
+    let reset = false;
+
+    // Rotated (new inode) or truncated (shrunk below our offset): start over
+    if (state && (state.ino !== ino || size < state.offset)) {
+      reset = true;
+      state = undefined;
+    }
+
+    if (!state) {
+      state = { ino, offset: 0, remainder: '', decoder: new StringDecoder('utf8') };
+      this.files.set(path, state);
+    }
+
+    if (size === state.offset) {
+      return { records: [], reset };
+    }
+
+    return { records: this.readAppended(path, state, size), reset };
+  }
+
+  /**
+   * Forget the position of a single file
+   */
+  forget(path: string): void {
+    this.files.delete(path);
+  }
+
+  /**
+   * Forget positions of every file not in the given list
+   */
+  retain(paths: Iterable<string>): void {
+    const keep = new Set(paths);
+    for (const path of this.files.keys()) {
+      if (!keep.has(path)) {
+        this.files.delete(path);
+      }
+    }
+  }
+
+  /**
+   * Forget all file positions so the next read starts from scratch
+   */
+  clear(): void {
+    this.files.clear();
+  }
+
+  /**
+   * Get the byte offset consumed so far for a file
+   */
+  getOffset(path: string): number {
+    return this.files.get(path)?.offset ?? 0;
+  }
+
+  /**
+   * Read bytes [state.offset, size) chunk by chunk, parsing complete lines as they arrive
+   */
+  private readAppended(path: string, state: TailState, size: number): T[] {
+    const records: T[] = [];
+    const fd = openSync(path, 'r');
+    try {
+      const buffer = Buffer.alloc(Math.min(this.chunkSize, size - state.offset));
+      while (state.offset < size) {
+        const length = Math.min(buffer.length, size - state.offset);
+        const bytesRead = readSync(fd, buffer, 0, length, state.offset);
+        if (bytesRead === 0) break;
+        state.offset += bytesRead;
+        this.parseLines(state, state.decoder.write(buffer.subarray(0, bytesRead)), records);
+      }
+    } finally {
+      closeSync(fd);
+    }
+
+    // A final line without newline is only consumed once it is a complete JSON object;
+    // a strict prefix of an object never parses, so this cannot split a record.
+    if (state.remainder.trim()) {
+      const record = this.parseLine(state.remainder);
+      if (record !== null && typeof record === 'object') {
+        records.push(record);
+        state.remainder = '';
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Split decoded text into lines, keeping an incomplete trailing line for later
+   */
+  private parseLines(state: TailState, text: string, records: T[]): void {
+    const lines = (state.remainder + text).split('\n');
+    state.remainder = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const record = this.parseLine(line);
+      if (record !== undefined) {
+        records.push(record);
+      }
+    }
+  }
+
+  private parseLine(line: string): T | undefined {
+    if (!line.trim()) return undefined;
+    try {
+      return JSON.parse(line) as T;
+    } catch {
+      return undefined;
+    }
+  }
+}
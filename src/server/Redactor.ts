@@ -0,0 +1,146 @@
+export interface RedactionOptions {
+  /** Set to false to turn off the built-in secret detectors */
+  builtinDetectors?: boolean;
+  /** Names of built-in detectors to skip, e.g. ["jwt"] */
+  disabledDetectors?: string[];
+  /**
+   * Extra regex sources to redact. A named `secret` group limits redaction to
+   * that group, e.g. `internal-host=(?<secret>\\S+)` keeps the `internal-host=` prefix.
+   */
+  patterns?: string[];
+  /** Field names whose values are always replaced entirely, at any depth */
+  denyFields?: string[];
+  /** Field names whose values are never redacted, at any depth; agent and session ids always are */
+  allowFields?: string[];
+  /** Text that replaces redacted content */
+  replacement?: string;
+}
+
+interface Detector {
+  name: string;
+  pattern: RegExp;
+}
+
+/**
+ * Common secret formats. Where a format has a recognisable prefix worth keeping,
+ * only the `secret` group is replaced.
+ */
+const BUILTIN_DETECTORS: Detector[] = [
+  // Truncated tool arguments may cut off the END line, so an open block runs to the end
+  { name: 'private_key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----(?:[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----|[\s\S]*$)/g },
+  { name: 'aws_access_key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: 'github_token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: 'api_key', pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g },
+  { name: 'slack_token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { name: 'google_api_key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  { name: 'bearer', pattern: /\bBearer\s+(?<secret>[A-Za-z0-9._~+/=-]{16,})/gi },
+  { name: 'url_credentials', pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s/:@]+:(?<secret>[^\s/@]+)@/gi },
+  // Secret-looking names assigned a value, e.g. `API_KEY=...` or `"password": "..."`;
+  // all-digit values such as max_tokens=100000 are left alone
+  {
+    name: 'assignment',
+    pattern: /\b[A-Za-z0-9_-]*(?:password|passwd|secret|token|api[_-]?key)[A-Za-z0-9_]*["']?\s*[=:]\s*["']?(?<secret>(?=[^\s"'&,;]*[A-Za-z])[^\s"'&,;]{6,})/gi
+  }
+];
+
+const DEFAULT_DENY_FIELDS = ['password', 'secret', 'apiKey', 'api_key', 'authorization', 'accessToken', 'privateKey'];
+// Identifiers the client keys its state by; rewriting them would break the dashboard
+const DEFAULT_ALLOW_FIELDS = ['agentId', 'agentName', 'sessionId', 'sessionKey', 'runKey', 'workspace', 'clientId'];
+
+/**
+ * Scrubs secrets from event payloads before they leave the server: string values
+ * are run through the detectors, denied fields are replaced wholesale and allowed
+ * fields pass untouched. Payloads are copied, never modified in place.
+ */
+export class Redactor {
+  private detectors: Detector[];
+  private denyFields: Set<string>;
+  private allowFields: Set<string>;
+  private readonly replacement: string;
+
+  constructor(options: RedactionOptions = {}) {
+    const disabled = new Set(options.disabledDetectors ?? []);
+    const builtins = options.builtinDetectors === false
+      ? []
+      : BUILTIN_DETECTORS.filter(detector => !disabled.has(detector.name));
+
+    this.detectors = [...builtins, ...compilePatterns(options.patterns ?? [])];
+    // Configured fields override the defaults of the other list
+    const deny = (options.denyFields ?? []).map(field => field.toLowerCase());
+    const allow = (options.allowFields ?? []).map(field => field.toLowerCase());
+    this.denyFields = new Set([...DEFAULT_DENY_FIELDS.map(field => field.toLowerCase()).filter(field => !allow.includes(field)), ...deny]);
+    this.allowFields = new Set([...DEFAULT_ALLOW_FIELDS.map(field => field.toLowerCase()).filter(field => !deny.includes(field)), ...allow]);
+    this.replacement = options.replacement ?? '[REDACTED]';
+  }
+
+  /**
+   * A copy of the payload with secrets replaced
+   */
+  redactPayload<T extends object>(payload: T): T {
+    return this.redactObject(payload as Record<string, unknown>) as T;
+  }
+
+  /**
+   * A copy of any JSON value, e.g. an API response body, with secrets replaced
+   */
+  redact<T>(value: T): T {
+    return this.redactValue(value) as T;
+  }
+
+  /**
+   * Replace every detector match in a string
+   */
+  redactString(text: string): string {
+    let result = text;
+    for (const { pattern } of this.detectors) {
+      result = result.replace(pattern, (match: string, ...args: unknown[]) => {
+        // Named groups, when the pattern has any, come last
+        const groups = args[args.length - 1];
+        const secret = typeof groups === 'object' && groups ? (groups as Record<string, string | undefined>).secret : undefined;
+        if (!secret) return this.replacement;
+        const start = match.lastIndexOf(secret);
+        return match.slice(0, start) + this.replacement + match.slice(start + secret.length);
+      });
+    }
+    return result;
+  }
+
+  private redactValue(value: unknown): unknown {
+    if (typeof value === 'string') return this.redactString(value);
+    if (Array.isArray(value)) return value.map(item => this.redactValue(item));
+    if (value !== null && typeof value === 'object') return this.redactObject(value as Record<string, unknown>);
+    return value;
+  }
+
+  private redactObject(object: Record<string, unknown>): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(object)) {
+      const field = key.toLowerCase();
+      if (this.allowFields.has(field)) {
+        result[key] = value;
+      } else if (this.denyFields.has(field) && value !== null && value !== undefined) {
+        result[key] = this.replacement;
+      } else {
+        result[key] = this.redactValue(value);
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * Compile user-supplied regex sources, skipping invalid ones so a typo in the
+ * config doesn't take the server down
+ */
+function compilePatterns(sources: string[]): Detector[] {
+  const detectors: Detector[] = [];
+  for (const source of sources) {
+    try {
+      detectors.push({ name: source, pattern: new RegExp(source, 'g') });
+    } catch (error) {
+      console.error(`Ignoring invalid redaction pattern ${source}:`, error);
+    }
+  }
+  return detectors;
+}
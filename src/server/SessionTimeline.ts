@@ -0,0 +1,214 @@
+import type { SessionEvent } from './DataCollector.js';
+import {
+  ToolCallTracker,
+  toIsoTimestamp,
+  type PendingToolCall,
+  type ToolCallRecord
+} from './ToolCallTracker.js';
+import type { SessionTimeline, TimelineEntry, TimelineToolCall } from '../shared/types.js';
+
+export interface TimelinePage {
+  /** Return entries before this index; defaults to the end of the session */
+  before?: number;
+  /** Maximum number of entries, newest kept */
+  limit?: number;
+}
+
+const MAX_PREVIEW_LENGTH = 200;
+// Entries held per session; older ones can no longer be paged to
+const MAX_RETAINED_ENTRIES = 5000;
+// Calls still waiting for a result; past this the oldest are treated as abandoned
+const MAX_OPEN_CALLS = 1000;
+const DEFAULT_PAGE_SIZE = 200;
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * Turns a session's JSONL events into a chronological list of messages, tool calls
+ * (paired with their results) and model switches. Events are fed as they are
+ * appended, so a session is never parsed twice.
+ */
+export class SessionTimelineBuilder {
+  private tracker = new ToolCallTracker({ maxPendingPerSession: MAX_OPEN_CALLS });
+  private openCalls = new Map<PendingToolCall, TimelineToolCall>();
+  private entries: TimelineEntry[] = [];
+  // Entries dropped from the front once more than MAX_RETAINED_ENTRIES were recorded
+  private dropped = 0;
+  private currentModel: string | null = null;
+  private startedAt: string | null = null;
+  private endedAt: string | null = null;
+
+  constructor(private readonly agentId: string, private readonly sessionId: string) {}
+
+  /**
+   * Fold newly appended session events into the timeline
+   */
+  ingest(events: SessionEvent[]): void {
+    for (const event of events) {
+      this.ingestEvent(event);
+    }
+
+    const excess = this.entries.length - MAX_RETAINED_ENTRIES;
+    if (excess > 0) {
+      this.entries.splice(0, excess);
+      this.dropped += excess;
+    }
+  }
+
+  /**
+   * The newest `limit` entries before `before`
+   */
+  getTimeline(page: TimelinePage = {}): SessionTimeline {
+    const totalEntries = this.dropped + this.entries.length;
+    const { before: requestedBefore = totalEntries, limit: requestedLimit = DEFAULT_PAGE_SIZE } = page;
+    const limit = Number.isInteger(requestedLimit) && requestedLimit > 0 ? Math.min(requestedLimit, MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE;
+    const before = Number.isInteger(requestedBefore) ? Math.min(Math.max(requestedBefore, this.dropped), totalEntries) : totalEntries;
+    const offset = Math.max(this.dropped, before - limit);
+
+    return {
+      agentId: this.agentId,
+      sessionId: this.sessionId,
+      startedAt: this.startedAt,
+      endedAt: this.endedAt,
+      offset,
+      totalEntries,
+      // Copies, since open calls are still completed in place
+      entries: this.entries.slice(offset - this.dropped, before - this.dropped).map(entry => ({ ...entry }))
+    };
+  }
+
+  private ingestEvent(event: SessionEvent): void {
+    const timestamp = toIsoTimestamp(event.timestamp);
+
+    const model = modelOf(event);
+    if (model && model !== this.currentModel) {
+      this.push({ kind: 'model_switch', timestamp, previousModel: this.currentModel, model });
+      this.currentModel = model;
+    }
+
+    const message = event.message;
+    if (event.type === 'message' && message?.role && message.role !== 'tool' && message.role !== 'toolResult') {
+      const preview = previewOf(message.content);
+      if (preview) {
+        this.push({ kind: 'message', timestamp, role: message.role, preview });
+      }
+    }
+
+    const pendingBefore = new Set(this.tracker.getPendingCalls());
+    const completed = this.tracker.ingest(this.agentId, this.sessionId, [event]);
+
+    for (const call of this.tracker.getPendingCalls()) {
+      if (pendingBefore.has(call)) continue;
+      const entry: TimelineToolCall = {
+        kind: 'tool_call',
+        timestamp: call.startedAt,
+        toolName: call.toolName,
+        callId: call.callId,
+        arguments: call.arguments,
+        status: 'pending',
+        startedAt: call.startedAt,
+        completedAt: null,
+        durationMs: null
+      };
+      this.openCalls.set(call, entry);
+      this.push(entry);
+    }
+    // The tracker forgets the oldest pending calls past its cap; do the same
+    while (this.openCalls.size > MAX_OPEN_CALLS) {
+      this.openCalls.delete(this.openCalls.keys().next().value!);
+    }
+
+    for (const record of completed) {
+      const entry = takeOpenCall(this.openCalls, record);
+      if (entry) {
+        Object.assign(entry, {
+          status: record.status,
+          completedAt: record.completedAt,
+          durationMs: record.durationMs
+        });
+        this.extendSpan(record.completedAt);
+      } else {
+        // A result whose call was never seen, e.g. written before a truncation
+        this.push({
+          kind: 'tool_call',
+          timestamp: record.completedAt,
+          toolName: record.toolName,
+          callId: record.callId,
+          arguments: null,
+          status: record.status,
+          startedAt: null,
+          completedAt: record.completedAt,
+          durationMs: null
+        });
+      }
+    }
+  }
+
+  private push(entry: TimelineEntry): void {
+    this.entries.push(entry);
+    this.extendSpan(entry.timestamp);
+  }
+
+  private extendSpan(time: string | null): void {
+    if (time === null) return;
+    if (this.startedAt === null || time < this.startedAt) this.startedAt = time;
+    if (this.endedAt === null || time > this.endedAt) this.endedAt = time;
+  }
+}
+
+/**
+ * Build the timeline of a whole session in one go
+ */
+export function buildSessionTimeline(
+  agentId: string,
+  sessionId: string,
+  events: SessionEvent[],
+  page?: TimelinePage
+): SessionTimeline {
+  const builder = new SessionTimelineBuilder(agentId, sessionId);
+  builder.ingest(events);
+  return builder.getTimeline(page);
+}
+
+/**
+ * Find the open call a completed record belongs to; the tracker hands back new objects
+ */
+function takeOpenCall(openCalls: Map<PendingToolCall, TimelineToolCall>, record: ToolCallRecord): TimelineToolCall | null {
+  for (const [call, entry] of openCalls) {
+    if (call.callId === record.callId && call.startedAt === record.startedAt && call.toolName === record.toolName) {
+      openCalls.delete(call);
+      return entry;
+    }
+  }
+  return null;
+}
+
+/**
+ * Model named by a model_change event or an assistant message
+ */
+function modelOf(event: SessionEvent): string | null {
+  if (event.type === 'model_change' || event.type === 'model_switch') {
+    return event.modelId || event.model || null;
+  }
+  if (event.message?.role === 'assistant' && event.message.model) {
+    return event.message.model;
+  }
+  return null;
+}
+
+/**
+ * First text of a message, from string content or an array of content parts
+ */
+function previewOf(content: unknown): string {
+  let text = '';
+  if (typeof content === 'string') {
+    text = content;
+  } else if (Array.isArray(content)) {
+    text = content
+      .map(part => (part && typeof part === 'object' && typeof part.text === 'string' ? part.text : ''))
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  text = text.replace(/\s+/g, ' ').trim();
+  return text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH)}…` : text;
+}
@@ -0,0 +1,139 @@
+import type { TokenHistorySeries, TokenHistoryWindow, TokenRatePoint } from '../shared/types.js';
+
+export interface TokenUsageSample {
+  agentId: string;
+  /** Epoch milliseconds */
+  time: number;
+  total: number;
+  input?: number;
+  output?: number;
+}
+
+interface TokenCounts {
+  input: number;
+  output: number;
+  total: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+// Finest resolution kept; coarser windows sum these buckets
+const BASE_BUCKET_MS = 30 * 1000;
+const RETENTION_MS = 24 * 60 * MINUTE_MS;
+
+export const TOKEN_HISTORY_WINDOWS: Record<TokenHistoryWindow, { spanMs: number; bucketMs: number }> = {
+  '15m': { spanMs: 15 * MINUTE_MS, bucketMs: BASE_BUCKET_MS },
+  '1h': { spanMs: 60 * MINUTE_MS, bucketMs: MINUTE_MS },
+  '24h': { spanMs: RETENTION_MS, bucketMs: 15 * MINUTE_MS }
+};
+
+/**
+ * Rolling 24 hour record of token usage per agent in 30 second buckets, downsampled
+ * into fixed-size rate series for charting.
+ */
+export class TokenHistory {
+  private usage: Map<string, Map<number, TokenCounts>> = new Map();
+
+  /**
+   * Record tokens an agent used; negative totals (session resets) are ignored
+   */
+  record(sample: TokenUsageSample): void {
+    if (!(sample.total > 0) || !Number.isFinite(sample.time)) return;
+
+    const buckets = this.usage.get(sample.agentId) ?? new Map<number, TokenCounts>();
+    const start = Math.floor(sample.time / BASE_BUCKET_MS) * BASE_BUCKET_MS;
+    let counts = buckets.get(start);
+    if (!counts) {
+      counts = { input: 0, output: 0, total: 0 };
+      buckets.set(start, counts);
+      this.usage.set(sample.agentId, buckets);
+      // Each new bucket pushes the oldest ones out, whether or not anyone queries
+      this.prune(start);
+    }
+    counts.input += Math.max(0, sample.input ?? 0);
+    counts.output += Math.max(0, sample.output ?? 0);
+    counts.total += sample.total;
+  }
+
+  /**
+   * Token rates over a window ending now, one point per bucket including empty ones;
+   * with agent ids, only those agents make up the series
+   */
+  query(window: TokenHistoryWindow, agentIds?: string[], now: number = Date.now()): TokenHistorySeries {
+    this.prune(now);
+    const { spanMs, bucketMs } = TOKEN_HISTORY_WINDOWS[window];
+    const end = Math.floor(now / bucketMs) * bucketMs + bucketMs;
+    const start = end - spanMs;
+    const bucketCount = spanMs / bucketMs;
+
+    const aggregate = emptyCounts(bucketCount);
+    const agents: Record<string, TokenRatePoint[]> = {};
+
+    for (const [id, buckets] of this.usage) {
+      if (agentIds?.length && !agentIds.includes(id)) continue;
+
+      const series = emptyCounts(bucketCount);
+      let used = false;
+      for (const [time, counts] of buckets) {
+        if (time < start || time >= end) continue;
+        const index = Math.floor((time - start) / bucketMs);
+        addCounts(series[index], counts);
+        addCounts(aggregate[index], counts);
+        used = true;
+      }
+      if (used) {
+        agents[id] = toRates(series, start, bucketMs);
+      }
+    }
+
+    return {
+      window,
+      bucketMs,
+      from: new Date(start).toISOString(),
+      to: new Date(end).toISOString(),
+      aggregate: toRates(aggregate, start, bucketMs),
+      agents
+    };
+  }
+
+  /**
+   * Drop buckets older than the longest window
+   */
+  private prune(now: number): void {
+    const cutoff = now - RETENTION_MS - BASE_BUCKET_MS;
+    for (const [agentId, buckets] of this.usage) {
+      for (const time of buckets.keys()) {
+        if (time < cutoff) buckets.delete(time);
+      }
+      if (buckets.size === 0) this.usage.delete(agentId);
+    }
+  }
+}
+
+/**
+ * Check a query parameter names a supported window
+ */
+export function isTokenHistoryWindow(value: unknown): value is TokenHistoryWindow {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TOKEN_HISTORY_WINDOWS, value);
+}
+
+function emptyCounts(length: number): TokenCounts[] {
+  return Array.from({ length }, () => ({ input: 0, output: 0, total: 0 }));
+}
+
+function addCounts(target: TokenCounts, counts: TokenCounts): void {
+  target.input += counts.input;
+  target.output += counts.output;
+  target.total += counts.total;
+}
+
+function toRates(buckets: TokenCounts[], start: number, bucketMs: number): TokenRatePoint[] {
+  const minutes = bucketMs / MINUTE_MS;
+  const rate = (tokens: number) => Math.round((tokens / minutes) * 10) / 10;
+
+  return buckets.map((counts, index) => ({
+    timestamp: new Date(start + index * bucketMs).toISOString(),
+    input: rate(counts.input),
+    output: rate(counts.output),
+    total: rate(counts.total)
+  }));
+}
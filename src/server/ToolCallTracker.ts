@@ -0,0 +1,263 @@
+import type { SessionEvent } from './DataCollector.js';
+import type { ToolCallStatus } from '../shared/types.js';
+
+export interface ToolCallRecord {
+  agentId: string;
+  sessionId: string;
+  toolName: string;
+  callId: string | null;
+  arguments: string | null;
+  status: ToolCallStatus;
+  startedAt: string | null;
+  completedAt: string | null;
+  durationMs: number | null;
+}
+
+export interface PendingToolCall {
+  agentId: string;
+  sessionId: string;
+  toolName: string;
+  callId: string | null;
+  arguments: string | null;
+  startedAt: string | null;
+}
+
+export interface ToolCallTrackerOptions {
+  /** Maximum length of the serialized arguments kept per call */
+  maxArgumentLength?: number;
+  /** Maximum number of unanswered calls kept per session before the oldest is dropped */
+  maxPendingPerSession?: number;
+}
+
+/**
+ * Pairs tool calls with their results across incrementally read session
+ * events, matching by call id and falling back to the oldest pending call
+ * of the same tool when a result carries no id.
+ */
+export class ToolCallTracker {
+  private readonly maxArgumentLength: number;
+  private readonly maxPendingPerSession: number;
+
+  // Unanswered calls in arrival order, keyed by `${agentId}\0${sessionId}`
+  private pending: Map<string, PendingToolCall[]> = new Map();
+
+  constructor(options: ToolCallTrackerOptions = {}) {
+    this.maxArgumentLength = options.maxArgumentLength ?? 500;
+    this.maxPendingPerSession = options.maxPendingPerSession ?? 200;
+  }
+
+  /**
+   * Feed newly read events of one session and return the calls they completed
+   */
+  ingest(agentId: string, sessionId: string, events: SessionEvent[]): ToolCallRecord[] {
+    const completed: ToolCallRecord[] = [];
+    const key = this.sessionKey(agentId, sessionId);
+
+    for (const event of events) {
+      const timestamp = toIsoTimestamp(event.timestamp);
+
+      for (const call of this.extractCalls(event)) {
+        this.addPending(key, {
+          agentId,
+          sessionId,
+          toolName: call.toolName,
+          callId: call.callId,
+          arguments: this.truncateArguments(call.arguments),
+          startedAt: timestamp
+        });
+      }
+
+      const result = this.extractResult(event);
+      if (result) {
+        const call = this.takePending(key, result.callId, result.toolName);
+        completed.push(this.complete(agentId, sessionId, call, result, timestamp));
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Get calls that have not received a result yet, optionally of one agent or one of its sessions
+   */
+  getPendingCalls(agentId?: string, sessionId?: string): PendingToolCall[] {
+    const calls: PendingToolCall[] = [];
+    for (const sessionCalls of this.pending.values()) {
+      for (const call of sessionCalls) {
+        if ((!agentId || call.agentId === agentId) && (!sessionId || call.sessionId === sessionId)) {
+          calls.push(call);
+        }
+      }
+    }
+    return calls;
+  }
+
+  /**
+   * Drop pending calls of a session, e.g. after its file was truncated
+   */
+  resetSession(agentId: string, sessionId: string): void {
+    this.pending.delete(this.sessionKey(agentId, sessionId));
+  }
+
+  /**
+   * Drop all pending calls
+   */
+  clear(): void {
+    this.pending.clear();
+  }
+
+  private sessionKey(agentId: string, sessionId: string): string {
+    return `${agentId}\0${sessionId}`;
+  }
+
+  private addPending(key: string, call: PendingToolCall): void {
+    const calls = this.pending.get(key) || [];
+    calls.push(call);
+    if (calls.length > this.maxPendingPerSession) {
+      calls.shift();
+    }
+    this.pending.set(key, calls);
+  }
+
+  private takePending(key: string, callId: string | null, toolName: string | null): PendingToolCall | null {
+    const calls = this.pending.get(key);
+    if (!calls) return null;
+
+    let index = -1;
+    if (callId) {
+      index = calls.findIndex(call => call.callId === callId);
+    }
+    if (index === -1 && toolName) {
+      // Only pair by name when one side carries no id to compare
+      index = calls.findIndex(call => call.toolName === toolName && (!callId || !call.callId));
+    }
+    if (index === -1) return null;
+
+    const [call] = calls.splice(index, 1);
+    if (calls.length === 0) {
+      this.pending.delete(key);
+    }
+    return call;
+  }
+
+  private complete(
+    agentId: string,
+    sessionId: string,
+    call: PendingToolCall | null,
+    result: ExtractedResult,
+    completedAt: string | null
+  ): ToolCallRecord {
+    const startedAt = call?.startedAt ?? null;
+    let durationMs: number | null = null;
+    if (startedAt && completedAt) {
+      durationMs = Math.max(0, Date.parse(completedAt) - Date.parse(startedAt));
+    }
+
+    return {
+      agentId,
+      sessionId,
+      toolName: call?.toolName || result.toolName || 'unknown',
+      callId: call?.callId ?? result.callId,
+      arguments: call?.arguments ?? null,
+      status: result.isError ? 'error' : 'success',
+      startedAt,
+      completedAt,
+      durationMs
+    };
+  }
+
+  /**
+   * Extract tool calls from a toolCall event or a message.tool_calls list
+   */
+  private extractCalls(event: SessionEvent): ExtractedCall[] {
+    const calls: ExtractedCall[] = [];
+
+    if (event.type === 'toolCall') {
+      const toolName = event.toolName || event.tool || event.name;
+      if (toolName) {
+        calls.push({
+          toolName,
+          callId: event.id || event.toolCallId || event.callId || null,
+          arguments: event.arguments ?? event.args ?? event.input
+        });
+      }
+    }
+
+    if (event.message?.tool_calls) {
+      for (const toolCall of event.message.tool_calls) {
+        const toolName = toolCall.name || toolCall.function?.name;
+        if (toolName) {
+          calls.push({
+            toolName,
+            callId: toolCall.id || null,
+            arguments: toolCall.function?.arguments ?? toolCall.arguments
+          });
+        }
+      }
+    }
+
+    return calls;
+  }
+
+  /**
+   * Extract a tool result from a tool_result event or a tool-role message
+   */
+  private extractResult(event: SessionEvent): ExtractedResult | null {
+    if (event.type === 'tool_result') {
+      return {
+        toolName: event.toolName || event.tool || event.name || null,
+        callId: event.toolCallId || event.tool_call_id || event.callId || null,
+        isError: event.isError === true || Boolean(event.error) || event.status === 'error'
+      };
+    }
+
+    const message = event.message;
+    if (message && (message.role === 'tool' || message.role === 'toolResult')) {
+      return {
+        toolName: message.toolName || message.name || null,
+        callId: message.toolCallId || message.tool_call_id || null,
+        isError: message.isError === true
+      };
+    }
+
+    return null;
+  }
+
+  private truncateArguments(args: unknown): string | null {
+    if (args === undefined || args === null) return null;
+
+    let text: string;
+    try {
+      text = typeof args === 'string' ? args : JSON.stringify(args);
+    } catch {
+      return null;
+    }
+
+    if (text.length > this.maxArgumentLength) {
+      return `${text.slice(0, this.maxArgumentLength)}…`;
+    }
+    return text;
+  }
+}
+
+interface ExtractedCall {
+  toolName: string;
+  callId: string | null;
+  arguments: unknown;
+}
+
+interface ExtractedResult {
+  toolName: string | null;
+  callId: string | null;
+  isError: boolean;
+}
+
+/**
+ * Normalize an ISO string or epoch-millisecond timestamp
+ */
+export function toIsoTimestamp(value: string | number | undefined): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  // Out-of-range numbers such as 1e17 make an Invalid Date, which toISOString throws on
+  const date = new Date(typeof value === 'number' ? value : Date.parse(value));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
@@ -0,0 +1,174 @@
+import { AgentIdentityResolver } from './AgentIdentity.js';
+import type { WorkspaceRun } from '../shared/types.js';
+
+export type WorkspaceRunChangeType = 'started' | 'updated' | 'ended';
+
+export interface WorkspaceRunChange {
+  type: WorkspaceRunChangeType;
+  run: WorkspaceRun;
+}
+
+/**
+ * Builds the workflowType → run → agent hierarchy from successive workspace scans.
+ * An agent ends when its directory disappears and a run ends with its last agent;
+ * the most recent ended runs are kept for display.
+ */
+export class WorkspaceRunTracker {
+  private runs: Map<string, WorkspaceRun> = new Map();
+
+  constructor(
+    private identity: AgentIdentityResolver = new AgentIdentityResolver(),
+    private maxEndedRuns: number = 50
+  ) {}
+
+  /**
+   * Reconcile with the agent directories currently present, keyed by session path with
+   * their creation time, and return the runs that started, changed or ended
+   */
+  update(sessions: Map<string, number>, now: number = Date.now()): WorkspaceRunChange[] {
+    const nowIso = new Date(now).toISOString();
+    const present = new Map<string, Set<string>>();
+    const started = new Set<string>();
+    const changed = new Set<string>();
+
+    for (const [path, createdAt] of sessions) {
+      const resolved = this.identity.fromWorkspaceSession(path);
+      if (!resolved?.runKey) continue;
+
+      const runKey = resolved.runKey;
+      const [workflowType, runId] = runKey.split('/');
+      const startedAt = new Date(Number.isFinite(createdAt) && createdAt > 0 ? createdAt : now).toISOString();
+      let run = this.runs.get(runKey);
+      if (!run) {
+        run = {
+          runKey,
+          workflowType,
+          runId,
+          status: 'active',
+          startedAt,
+          endedAt: null,
+          agents: [],
+          totalTokens: 0
+        };
+        this.runs.set(runKey, run);
+        started.add(runKey);
+      } else if (run.status === 'ended') {
+        run.status = 'active';
+        run.endedAt = null;
+        started.add(runKey);
+      }
+
+      const agent = run.agents.find(a => a.sessionId === path);
+      if (!agent) {
+        run.agents.push({
+          agentId: resolved.agentId,
+          agentName: resolved.agentName,
+          sessionId: path,
+          status: 'active',
+          startedAt,
+          endedAt: null,
+          totalTokens: 0
+        });
+        changed.add(runKey);
+      } else if (agent.status === 'ended') {
+        agent.status = 'active';
+        agent.endedAt = null;
+        changed.add(runKey);
+      }
+      if (startedAt < run.startedAt) {
+        run.startedAt = startedAt;
+      }
+
+      present.set(runKey, (present.get(runKey) ?? new Set()).add(path));
+    }
+
+    const ended = new Set<string>();
+    for (const run of this.runs.values()) {
+      if (run.status === 'ended') continue;
+
+      const remaining = present.get(run.runKey);
+      for (const agent of run.agents) {
+        if (agent.status === 'active' && !remaining?.has(agent.sessionId)) {
+          agent.status = 'ended';
+          agent.endedAt = nowIso;
+          changed.add(run.runKey);
+        }
+      }
+      if (run.agents.every(agent => agent.status === 'ended')) {
+        run.status = 'ended';
+        run.endedAt = nowIso;
+        ended.add(run.runKey);
+      }
+    }
+
+    this.pruneEndedRuns();
+
+    const changes: WorkspaceRunChange[] = [];
+    for (const runKey of new Set([...started, ...changed, ...ended])) {
+      const run = this.runs.get(runKey);
+      if (!run) continue;
+      const type = started.has(runKey) ? 'started' : ended.has(runKey) ? 'ended' : 'updated';
+      changes.push({ type, run: cloneRun(run) });
+    }
+    return changes;
+  }
+
+  /**
+   * Attribute tokens used by an agent to its most recently started active run.
+   * Returns the updated run, or null when the agent is in no active run.
+   */
+  recordTokens(agentId: string, tokens: number): WorkspaceRun | null {
+    if (tokens <= 0 || !Number.isFinite(tokens)) return null;
+
+    const run = this.findRun(agentId);
+    const agent = run?.agents.find(a => a.agentId === agentId && a.status === 'active');
+    if (!run || !agent) return null;
+
+    agent.totalTokens += tokens;
+    run.totalTokens += tokens;
+    return cloneRun(run);
+  }
+
+  /**
+   * The most recently started active run the agent is active in
+   */
+  findActiveRun(agentId: string): WorkspaceRun | null {
+    const run = this.findRun(agentId);
+    return run ? cloneRun(run) : null;
+  }
+
+  /**
+   * All tracked runs, newest first
+   */
+  getRuns(): WorkspaceRun[] {
+    return Array.from(this.runs.values())
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt) || a.runKey.localeCompare(b.runKey))
+      .map(cloneRun);
+  }
+
+  private findRun(agentId: string): WorkspaceRun | undefined {
+    let latest: WorkspaceRun | undefined;
+    for (const run of this.runs.values()) {
+      if (run.status !== 'active') continue;
+      if (!run.agents.some(agent => agent.agentId === agentId && agent.status === 'active')) continue;
+      if (!latest || run.startedAt > latest.startedAt) latest = run;
+    }
+    return latest;
+  }
+
+  private pruneEndedRuns(): void {
+    const endedRuns = Array.from(this.runs.values())
+      .filter(run => run.status === 'ended')
+      .sort((a, b) => (b.endedAt ?? '').localeCompare(a.endedAt ?? ''));
+    for (const run of endedRuns.slice(this.maxEndedRuns)) {
+      this.runs.delete(run.runKey);
+    }
+  }
+}
+
+/**
+ * Copy a run so events and API responses don't change as tracking continues
+ */
+function cloneRun(run: WorkspaceRun): WorkspaceRun {
+  return { ...run, agents: run.agents.map(agent => ({ ...agent })) };
+}
@@ -1,44 +1,105 @@
 import { WebSocketServer } from 'ws';
-import { AgentActivityStreamer } from './AgentActivityStreamer.js';
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { homedir } from 'node:os';
+import { AgentActivityStreamer, parseConnectOptions } from './AgentActivityStreamer.js';
+import type { AgentAliasConfig } from './AgentIdentity.js';
+import type { AccessToken } from './Auth.js';
+import type { RedactionOptions } from './Redactor.js';
+import type { BudgetConfig, BudgetNotifierOptions } from './BudgetMonitor.js';
+import type { PricingTable } from './CostCalculator.js';
+import type { StatusThresholds } from './DataCollector.js';
+import { EventStore } from './EventStore.js';
+import { HttpApi } from './HttpApi.js';
 
 const PORT = process.env.PORT || 3503;
+const OPENCLAW_DIR = process.env.OPENCLAW_DIR || join(homedir(), '.openclaw');
 
-// Create the activity streamer
-const streamer = new AgentActivityStreamer();
+// Persist emitted events and periodic snapshots for historical queries
+const eventStore = new EventStore({
+  directory: process.env.HISTORY_DIR || join(OPENCLAW_DIR, 'agent-activity-viz', 'history'),
+  retentionDays: Number(process.env.HISTORY_RETENTION_DAYS) || 7
+});
+
+// Optional JSON pricing table, e.g. {"moonshot/k2p5": {"input": 0.6, "output": 2.5}}
+const pricing = process.env.PRICING_FILE
+  ? JSON.parse(readFileSync(process.env.PRICING_FILE, 'utf-8')) as PricingTable
+  : undefined;
+
+// Optional budgets file: {"budgets": [{"scope": "global", "window": "day", "maxTokens": 5000000}],
+// "webhookUrl": "http://localhost:9000/alerts", "command": "notify-send \"$BUDGET_ALERT\""}
+const budgetSettings = process.env.BUDGETS_FILE
+  ? JSON.parse(readFileSync(process.env.BUDGETS_FILE, 'utf-8')) as { budgets?: BudgetConfig[] } & BudgetNotifierOptions
+  : {};
+
+// Optional status thresholds: {"default": {"stalledMs": 300000}, "agents": {"coder": {"activeMs": 600000}}}
+const statusSettings = process.env.STATUS_THRESHOLDS_FILE
+  ? JSON.parse(readFileSync(process.env.STATUS_THRESHOLDS_FILE, 'utf-8')) as {
+    default?: Partial<StatusThresholds>;
+    agents?: Record<string, Partial<StatusThresholds>>;
+  }
+  : {};
+
+// Optional agent aliases, e.g. {"developer": ["dev", "Developer Bot"]}, so workspace and
+// dashboard names that differ from the agents directory map onto the same agent
+const agentAliases = process.env.AGENT_ALIASES_FILE
+  ? JSON.parse(readFileSync(process.env.AGENT_ALIASES_FILE, 'utf-8')) as AgentAliasConfig
+  : undefined;
+
+// Optional access tokens, e.g. [{"token": "s3cret", "role": "admin", "name": "ops"}];
+// without them anyone who can reach the port has full access
+const accessTokens = process.env.ACCESS_TOKENS_FILE
+  ? JSON.parse(readFileSync(process.env.ACCESS_TOKENS_FILE, 'utf-8')) as AccessToken[]
+  : undefined;
+
+// Optional redaction settings on top of the built-in secret detectors, e.g.
+// {"patterns": ["corp-[0-9]{8}"], "denyFields": ["cookie"], "disabledDetectors": ["jwt"]}
+const redaction = process.env.REDACTION_FILE
+  ? JSON.parse(readFileSync(process.env.REDACTION_FILE, 'utf-8')) as RedactionOptions
+  : undefined;
+
+// ACTIVITY_MODE=poll forces fixed-interval rescans, e.g. on network filesystems
+const streamer = new AgentActivityStreamer(OPENCLAW_DIR, {
+  eventStore,
+  pricing,
+  budgets: budgetSettings.budgets,
+  budgetNotifier: { webhookUrl: budgetSettings.webhookUrl, command: budgetSettings.command },
+  statusThresholds: statusSettings.default,
+  agentStatusThresholds: statusSettings.agents,
+  agentAliases,
+  accessTokens,
+  redaction,
+  mode: process.env.ACTIVITY_MODE === 'poll' ? 'poll' : 'watch',
+  pollIntervalMs: Number(process.env.POLL_INTERVAL_MS) || 2000,
+  // e.g. CONTEXT_PRESSURE_THRESHOLDS=70,90,98
+  contextPressureThresholds: process.env.CONTEXT_PRESSURE_THRESHOLDS
+    ?.split(',')
+    .map(Number)
+    .filter(value => Number.isFinite(value) && value > 0)
+});
+
+// HTTP server for the REST API; WebSocket upgrades on the same port go to wss
+const api = new HttpApi(streamer);
+const server = createServer((req, res) => api.handleRequest(req, res));
 
 // Create WebSocket server
 const wss = new WebSocketServer({ 
-  port: PORT as number,
-  // Enable ping/pong for heartbeat
-  perMessageDeflate: false
+  server,
+  // Compress larger frames such as snapshots and batches for clients that negotiate
+  // permessage-deflate; WS_COMPRESSION=off saves the CPU on fast local links
+  perMessageDeflate: process.env.WS_COMPRESSION === 'off' ? false : { threshold: 1024 }
 });
 
-console.log(`Agent Activity Viz Server running on port ${PORT}`);
+server.listen(Number(PORT), () => {
+  console.log(`Agent Activity Viz Server running on port ${PORT} (${streamer.getActivityMode()} mode)`);
+});
 
 // Handle new connections
-wss.on('connection', (ws) => {
-  const clientId = streamer.addClient(ws);
+wss.on('connection', (ws, request) => {
+  const clientId = streamer.addClient(ws, parseConnectOptions(request.url));
   console.log(`Client connected: ${clientId} (total: ${streamer.getClientCount()})`);
 
-  ws.on('message', (data) => {
-    try {
-      const message = JSON.parse(data.toString());
-      console.log(`Received from ${clientId}:`, message);
-      
-      // Handle client messages if needed
-      if (message.type === 'ping') {
-        ws.send(JSON.stringify({
-          timestamp: new Date().toISOString(),
-          agentId: 'system',
-          eventType: 'heartbeat',
-          payload: { type: 'pong' }
-        }));
-      }
-    } catch {
-      console.log(`Received non-JSON message from ${clientId}:`, data.toString());
-    }
-  });
-
   ws.on('close', () => {
     console.log(`Client disconnected: ${clientId} (total: ${streamer.getClientCount()})`);
   });
@@ -48,24 +109,23 @@ wss.on('connection', (ws) => {
   });
 });
 
-// Start the activity polling and heartbeat
+// Start activity detection and heartbeat
 streamer.start();
 
 // Handle server shutdown gracefully
-process.on('SIGINT', () => {
+function shutdown(): void {
   console.log('\nShutting down server...');
   streamer.stop();
-  wss.close(() => {
+  // wss does not own the HTTP server, so its clients must be closed explicitly
+  for (const ws of wss.clients) {
+    ws.terminate();
+  }
+  wss.close();
+  server.close(() => {
     console.log('Server closed');
     process.exit(0);
   });
-});
+}
 
-process.on('SIGTERM', () => {
-  console.log('\nShutting down server...');
-  streamer.stop();
-  wss.close(() => {
-    console.log('Server closed');
-    process.exit(0);
-  });
-});
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
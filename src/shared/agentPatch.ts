@@ -0,0 +1,42 @@
+import type { AgentState } from './types.js';
+
+/**
+ * Field-level changes that turn the agent state a client acknowledged
+ * (`baseVersion`) into the state at `version`
+ */
+export interface AgentStatePatch {
+  version: number;
+  baseVersion: number;
+  /** Top-level fields that differ from the base, with their new values */
+  changes: Partial<AgentState>;
+  /** Fields the base has that the new state lacks */
+  removed: string[];
+}
+
+/**
+ * Top-level fields of `next` that differ from `base`; arrays and nested objects
+ * are compared by value and sent whole when they change
+ */
+export function diffAgentState(base: AgentState, next: AgentState): Pick<AgentStatePatch, 'changes' | 'removed'> {
+  const baseFields = base as unknown as Record<string, unknown>;
+  const nextFields = next as unknown as Record<string, unknown>;
+  const changes: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(nextFields)) {
+    if (JSON.stringify(value) !== JSON.stringify(baseFields[field])) {
+      changes[field] = value;
+    }
+  }
+  const removed = Object.keys(baseFields).filter(field => !(field in nextFields));
+  return { changes: changes as Partial<AgentState>, removed };
+}
+
+/**
+ * Rebuild the full state a patch describes from its base
+ */
+export function applyAgentPatch(base: AgentState, patch: Pick<AgentStatePatch, 'changes' | 'removed'>): AgentState {
+  const next: Record<string, unknown> = { ...base, ...patch.changes };
+  for (const field of patch.removed) {
+    delete next[field];
+  }
+  return next as unknown as AgentState;
+}
@@ -0,0 +1,246 @@
+import type { AgentStatePatch } from './agentPatch.js';
+import type { SubscriptionFilter } from './subscription.js';
+import type {
+  AgentAnomaly,
+  AgentState,
+  AgentStatus,
+  BudgetAlert,
+  DataCollectorSnapshot,
+  Role,
+  ToolCallStatus,
+  WorkspaceRun
+} from './types.js';
+
+/**
+ * Wire protocol shared by the streamer and the dashboard. Bump the version for
+ * any change an older peer would misread; adding optional fields is not one.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/** Most events a history query returns, over WebSocket or REST */
+export const MAX_HISTORY_LIMIT = 5000;
+
+/** WebSocket close code for missing or invalid credentials, mirroring HTTP 401 in the private range */
+export const CLOSE_UNAUTHORIZED = 4401;
+/** WebSocket close code for a client that cannot keep up with the stream */
+export const CLOSE_SLOW_CONSUMER = 4408;
+/** WebSocket close code for a client speaking a protocol version the server doesn't, mirroring HTTP 426 */
+export const CLOSE_PROTOCOL_MISMATCH = 4426;
+
+/** Agent state carried in full, or as a patch for clients that asked for deltas */
+export interface AgentStatePayload {
+  agent?: AgentState;
+  /** Version of `agent` for clients that receive patches */
+  stateVersion?: number;
+  /** Sent instead of `agent` once the client has acknowledged a base version */
+  agentPatch?: AgentStatePatch;
+}
+
+export interface AgentLifecyclePayload extends AgentStatePayload {
+  previousState?: AgentStatus | null;
+  currentState?: AgentStatus;
+  /** Workspace session path, for agents seen in a workspace */
+  sessionId?: string;
+  workspace?: string | null;
+  agentName?: string;
+}
+
+export interface ToolCalledPayload {
+  sessionId: string;
+  toolName: string;
+  callId: string | null;
+  arguments: string | null;
+  status: ToolCallStatus;
+  startedAt: string | null;
+  durationMs: number | null;
+}
+
+export interface ModelSwitchedPayload {
+  previousModel: string;
+  currentModel: string;
+}
+
+export interface TokenUpdatePayload {
+  previousTokens: number;
+  currentTokens: number;
+  delta: number;
+  inputDelta: number;
+  outputDelta: number;
+}
+
+export interface ContextPressurePayload {
+  model: string;
+  previousPct: number;
+  contextPct: number;
+  threshold: number;
+  contextWindow: number | null;
+}
+
+export interface CostUpdatePayload {
+  previousCost: number;
+  currentCost: number;
+  delta: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Fleet-wide running total */
+  totalCost: number;
+}
+
+export interface BudgetAlertPayload extends BudgetAlert {
+  /** Workspace run of a workspace budget, where subscription filters look for it */
+  workspace?: string;
+}
+
+export type AgentAnomalyPayload = Pick<AgentAnomaly, 'kind' | 'sessionId' | 'message' | 'evidence'>;
+
+export interface WorkspaceRunPayload {
+  workspace: string;
+  run: WorkspaceRun;
+}
+
+export interface SnapshotPayload {
+  protocolVersion: number;
+  clientId: string;
+  connectedClients: number;
+  lastSeq: number;
+  /** Server lifetime `lastSeq` belongs to; resume cursors must carry it */
+  epoch: string;
+  snapshot: DataCollectorSnapshot;
+  workspaceRuns: WorkspaceRun[];
+  /** Version of the snapshot's agent states for clients that receive patches */
+  stateVersion?: number;
+}
+
+export interface SubscriptionUpdatedPayload {
+  filter: SubscriptionFilter;
+}
+
+export interface ResyncRequiredPayload {
+  reason: 'gap_too_large' | 'server_restarted';
+  requestedSeq: number;
+  oldestSeq: number;
+  lastSeq: number;
+}
+
+export interface EventQuery {
+  /** Inclusive lower bound, ISO string or epoch milliseconds */
+  from?: string | number;
+  /** Inclusive upper bound, ISO string or epoch milliseconds */
+  to?: string | number;
+  agentId?: string;
+  eventTypes?: AgentEventType[];
+  /** Maximum number of results; the most recent ones are kept */
+  limit?: number;
+}
+
+export interface HistoryResultPayload {
+  query: EventQuery;
+  /** False when there is no event store and nothing can be returned */
+  persistent: boolean;
+  events: AgentEvent[];
+}
+
+export interface AuthenticatedPayload {
+  role: Role;
+}
+
+export interface CommandResultPayload {
+  command: string;
+  ok: boolean;
+  error?: string;
+}
+
+export interface BatchPayload {
+  events: AgentEvent[];
+}
+
+export interface ProtocolErrorPayload {
+  error: string;
+}
+
+export interface HeartbeatPayload {
+  connectedClients?: number;
+  uptime?: number;
+  /** Set on replies to a client ping */
+  type?: 'pong';
+}
+
+/**
+ * Payload shape of every event type
+ */
+export interface EventPayloads {
+  agent_started: AgentLifecyclePayload;
+  agent_ended: AgentLifecyclePayload;
+  agent_state_changed: AgentLifecyclePayload;
+  agent_updated: AgentStatePayload;
+  tool_called: ToolCalledPayload;
+  model_switched: ModelSwitchedPayload;
+  token_update: TokenUpdatePayload;
+  context_pressure: ContextPressurePayload;
+  cost_update: CostUpdatePayload;
+  budget_alert: BudgetAlertPayload;
+  agent_anomaly: AgentAnomalyPayload;
+  workspace_run_started: WorkspaceRunPayload;
+  workspace_run_updated: WorkspaceRunPayload;
+  workspace_run_ended: WorkspaceRunPayload;
+  snapshot: SnapshotPayload;
+  subscription_updated: SubscriptionUpdatedPayload;
+  resync_required: ResyncRequiredPayload;
+  history_result: HistoryResultPayload;
+  authenticated: AuthenticatedPayload;
+  command_result: CommandResultPayload;
+  protocol_error: ProtocolErrorPayload;
+  batch: BatchPayload;
+  heartbeat: HeartbeatPayload;
+}
+
+export type AgentEventType = keyof EventPayloads;
+
+/** Events whose payload may carry an agent's full state or a patch of it */
+export type AgentStateEventType = 'agent_started' | 'agent_ended' | 'agent_state_changed' | 'agent_updated';
+
+const AGENT_STATE_EVENT_TYPES = new Set<AgentEventType>(['agent_started', 'agent_ended', 'agent_state_changed', 'agent_updated']);
+
+interface EventEnvelope<T extends AgentEventType> {
+  timestamp: string;
+  agentId: string;
+  eventType: T;
+  payload: EventPayloads[T];
+  /** Sequence id assigned when the event is broadcast; absent on per-client and heartbeat messages */
+  seq?: number;
+}
+
+/**
+ * A server message, discriminated by `eventType`. `AgentEvent<'token_update'>`
+ * narrows to one type.
+ */
+export type AgentEvent<T extends AgentEventType = AgentEventType> = { [K in T]: EventEnvelope<K> }[T];
+
+export type ClientMessage =
+  | { type: 'ping' }
+  | { type: 'get_snapshot' }
+  | { type: 'subscribe'; filter: SubscriptionFilter }
+  | { type: 'unsubscribe'; filter?: SubscriptionFilter }
+  | { type: 'resume'; lastSeq: number; epoch?: string }
+  | { type: 'query_history'; query?: EventQuery }
+  | { type: 'auth'; token: string }
+  | { type: 'resync' }
+  | { type: 'clear_cache' }
+  | { type: 'ack'; version: number };
+
+export type ClientMessageType = ClientMessage['type'];
+
+/**
+ * Narrow to the events that carry agent states
+ */
+export function carriesAgentState(event: AgentEvent): event is AgentEvent<AgentStateEventType> {
+  return AGENT_STATE_EVENT_TYPES.has(event.eventType);
+}
+
+/**
+ * Read a payload field without narrowing the event first, e.g. for filters
+ * that look at whichever events carry a `workspace`
+ */
+export function payloadField(event: AgentEvent, field: string): unknown {
+  return (event.payload as unknown as Record<string, unknown>)[field];
+}
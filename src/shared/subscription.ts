@@ -0,0 +1,186 @@
+import { carriesAgentState, payloadField, type AgentEvent, type AgentEventType } from './protocol.js';
+import type { AgentState, WorkspaceRun } from './types.js';
+
+/**
+ * Per-client event filter. Values within a dimension are OR-ed, dimensions
+ * are AND-ed, and an empty or missing dimension matches everything.
+ */
+export interface SubscriptionFilter {
+  agentIds?: string[];
+  eventTypes?: AgentEventType[];
+  workspaces?: string[];
+  models?: string[];
+}
+
+/**
+ * What the streamer knows about an agent beyond a single event's payload
+ */
+export interface AgentContext {
+  workspace?: string;
+  model?: string;
+}
+
+const DIMENSIONS = ['agentIds', 'eventTypes', 'workspaces', 'models'] as const;
+
+// Protocol messages every client needs whatever it subscribed to
+const CONTROL_EVENT_TYPES = new Set<AgentEventType>([
+  'snapshot',
+  'heartbeat',
+  'subscription_updated',
+  'command_result',
+  'protocol_error',
+  'resync_required',
+  'history_result',
+  'authenticated'
+]);
+
+/**
+ * Add the values of a subscribe request to an existing filter
+ */
+export function mergeFilter(current: SubscriptionFilter, addition: SubscriptionFilter): SubscriptionFilter {
+  const merged: SubscriptionFilter = { ...current };
+  for (const dimension of DIMENSIONS) {
+    const values = addition[dimension];
+    if (!Array.isArray(values) || values.length === 0) continue;
+    const existing = (current[dimension] ?? []) as string[];
+    (merged[dimension] as string[]) = Array.from(new Set([...existing, ...values.map(String)]));
+  }
+  return merged;
+}
+
+/**
+ * Remove the values of an unsubscribe request; no removal clears the filter
+ */
+export function removeFromFilter(current: SubscriptionFilter, removal?: SubscriptionFilter): SubscriptionFilter {
+  if (!removal) {
+    return {};
+  }
+
+  const remaining: SubscriptionFilter = { ...current };
+  for (const dimension of DIMENSIONS) {
+    const values = removal[dimension];
+    if (!Array.isArray(values) || !current[dimension]) continue;
+    const kept = (current[dimension] as string[]).filter(value => !values.includes(value as never));
+    if (kept.length > 0) {
+      (remaining[dimension] as string[]) = kept;
+    } else {
+      delete remaining[dimension];
+    }
+  }
+  return remaining;
+}
+
+const QUERY_PARAMS: Record<typeof DIMENSIONS[number], string> = {
+  agentIds: 'agent',
+  eventTypes: 'event',
+  workspaces: 'workspace',
+  models: 'model'
+};
+
+/**
+ * Read a filter from URL query parameters, e.g. `?agent=agent:dev&model=k2p5`.
+ * Each parameter may be repeated or comma-separated.
+ */
+export function filterFromSearchParams(params: URLSearchParams): SubscriptionFilter {
+  const filter: SubscriptionFilter = {};
+  for (const dimension of DIMENSIONS) {
+    const values = params.getAll(QUERY_PARAMS[dimension]).flatMap(v => v.split(',')).filter(Boolean);
+    if (values.length > 0) {
+      (filter[dimension] as string[]) = values;
+    }
+  }
+  return filter;
+}
+
+/**
+ * Write a filter as URL query parameters, the inverse of filterFromSearchParams()
+ */
+export function filterToSearchParams(filter: SubscriptionFilter, params: URLSearchParams = new URLSearchParams()): URLSearchParams {
+  for (const dimension of DIMENSIONS) {
+    const values = filter[dimension];
+    if (values?.length) {
+      params.set(QUERY_PARAMS[dimension], values.join(','));
+    }
+  }
+  return params;
+}
+
+/**
+ * Check whether a filter restricts anything at all
+ */
+export function isEmptyFilter(filter: SubscriptionFilter): boolean {
+  return DIMENSIONS.every(dimension => !filter[dimension]?.length);
+}
+
+/**
+ * Check whether an event should be delivered to a client with the given filter.
+ * Control events (heartbeats, snapshots) are always delivered; system data events
+ * such as run changes have no agent but are still matched on the other dimensions.
+ */
+export function matchesFilter(event: AgentEvent, filter: SubscriptionFilter, context: AgentContext = {}): boolean {
+  if (CONTROL_EVENT_TYPES.has(event.eventType) || isEmptyFilter(filter)) {
+    return true;
+  }
+
+  if (filter.eventTypes?.length && !filter.eventTypes.includes(event.eventType)) {
+    return false;
+  }
+
+  const agent = carriesAgentState(event) ? event.payload.agent : undefined;
+  return matchesAgentFields(filter, {
+    agentId: event.agentId === 'system' ? undefined : event.agentId,
+    workspace: stringField(payloadField(event, 'workspace')) ?? context.workspace,
+    model: stringField(payloadField(event, 'currentModel'))
+      ?? stringField(payloadField(event, 'model'))
+      ?? agent?.currentModel
+      ?? context.model
+  });
+}
+
+/**
+ * Check whether an agent passes the agent, workspace and model dimensions
+ */
+export function matchesAgent(filter: SubscriptionFilter, agent: AgentState, context: AgentContext = {}): boolean {
+  return matchesAgentFields(filter, {
+    agentId: agent.agentId,
+    workspace: context.workspace,
+    model: agent.currentModel
+  });
+}
+
+/**
+ * Check whether a workspace run passes the filter, the same way its run events do
+ */
+export function matchesRun(filter: SubscriptionFilter, run: WorkspaceRun): boolean {
+  return matchesAgentFields(filter, { workspace: run.runKey });
+}
+
+function matchesAgentFields(
+  filter: SubscriptionFilter,
+  fields: { agentId?: string; workspace?: string; model?: string }
+): boolean {
+  // Events without an agent aren't held back by an agent filter
+  if (filter.agentIds?.length && fields.agentId && !filter.agentIds.includes(fields.agentId)) {
+    return false;
+  }
+  if (filter.workspaces?.length && !filter.workspaces.some(w => matchesWorkspace(w, fields.workspace))) {
+    return false;
+  }
+  if (filter.models?.length && !(fields.model && filter.models.includes(fields.model))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * A workspace filter matches the workspace itself or anything nested below it,
+ * so `feature-dev` covers every `feature-dev/<runId>`
+ */
+function matchesWorkspace(filterValue: string, workspace?: string): boolean {
+  if (!workspace) return false;
+  return workspace === filterValue || workspace.startsWith(`${filterValue}/`);
+}
+
+function stringField(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
@@ -0,0 +1,240 @@
+/**
+ * Data shapes the server sends and the dashboard renders, over the WebSocket
+ * stream and the REST API alike
+ */
+
+export interface AgentSession {
+  sessionId: string;
+  agentId: string;
+  agentName: string;
+  model: string;
+  totalTokens: number;
+  contextPct: number;
+  lastActivity: string;
+  updatedAt: number;
+  type: string;
+  label?: string;
+  // Dashboard data.json uses 'agent' field
+  agent?: string;
+}
+
+/**
+ * - stalled: an active session whose JSONL has not been written for a while
+ * - errored: the latest session event reported an error
+ * - waiting_for_tool: a tool call is still waiting for its result
+ */
+export type AgentStatus = 'active' | 'idle' | 'ended' | 'stalled' | 'errored' | 'waiting_for_tool';
+
+export interface AgentState {
+  agentId: string;
+  agentName: string;
+  status: AgentStatus;
+  currentModel: string;
+  totalTokens: number;
+  /** Input tokens summed across all of the agent's sessions */
+  inputTokens: number;
+  /** Output tokens summed across all of the agent's sessions */
+  outputTokens: number;
+  /** USD spent across all of the agent's sessions; unpriced models count as 0 */
+  cost: number;
+  contextPct: number;
+  lastActivity: string;
+  sessions: AgentSession[];
+  toolsUsed: string[];
+  skills: string[];
+}
+
+export interface DataCollectorSnapshot {
+  timestamp: string;
+  agents: AgentState[];
+  totalSessions: number;
+  totalTokens: number;
+  costs: CostSummary;
+}
+
+/** One agent as `/api/agents/:id` returns it */
+export interface AgentDetails extends AgentState {
+  /** Other names that resolve to the agent: directories, workspace sessions and configured aliases */
+  aliases: string[];
+}
+
+export interface AgentSessionInfo {
+  sessionId: string;
+  updatedAt: number;
+  model: string;
+  totalTokens: number;
+  label?: string;
+  skills: string[];
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface SessionCost {
+  agentId: string;
+  sessionId: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface ModelCost {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface AgentCost {
+  agentId: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface CostSummary {
+  currency: 'USD';
+  totalCost: number;
+  byAgent: AgentCost[];
+  byModel: ModelCost[];
+  bySession: SessionCost[];
+  /** Models seen in sessions with no known price; their tokens count as free */
+  unpricedModels: string[];
+}
+
+export type ToolCallStatus = 'success' | 'error';
+
+export type AnomalyKind = 'repeated_tool_call' | 'oscillating_tool_sequence' | 'long_silence';
+
+export interface AnomalyCall {
+  toolName: string;
+  arguments: string | null;
+  status: ToolCallStatus;
+  completedAt: string | null;
+}
+
+export interface AgentAnomaly {
+  agentId: string;
+  sessionId: string | null;
+  kind: AnomalyKind;
+  message: string;
+  detectedAt: string;
+  evidence: {
+    /** Most recent calls of the session, oldest first */
+    recentCalls: AnomalyCall[];
+    /** Number of consecutive identical calls, or full cycles of an oscillation */
+    repetitions?: number;
+    /** Tool names of one cycle of an oscillation */
+    cycle?: string[];
+    lastActivity?: string;
+  };
+}
+
+export type BudgetScope = 'agent' | 'workspace' | 'global';
+
+export type BudgetWindow = 'hour' | 'day';
+
+export type BudgetAlertLevel = 'warning' | 'exceeded';
+
+export interface BudgetAlert {
+  budgetId: string;
+  scope: BudgetScope;
+  /** Agent id or workspace the usage belongs to; null for global budgets */
+  target: string | null;
+  window: BudgetWindow;
+  maxTokens: number;
+  usedTokens: number;
+  usedPct: number;
+  level: BudgetAlertLevel;
+  timestamp: string;
+}
+
+export type Role = 'viewer' | 'admin';
+
+export type WorkspaceRunStatus = 'active' | 'ended';
+
+export interface WorkspaceRunAgent {
+  /** Canonical agent id, shared with the agent's other sources */
+  agentId: string;
+  agentName: string;
+  /** `workflowType/runId/agentName`, unique across runs */
+  sessionId: string;
+  status: WorkspaceRunStatus;
+  startedAt: string;
+  endedAt: string | null;
+  /** Tokens the agent used while this run was its most recent active one */
+  totalTokens: number;
+}
+
+export interface WorkspaceRun {
+  /** `workflowType/runId` */
+  runKey: string;
+  workflowType: string;
+  runId: string;
+  status: WorkspaceRunStatus;
+  startedAt: string;
+  endedAt: string | null;
+  agents: WorkspaceRunAgent[];
+  totalTokens: number;
+}
+
+export type TokenHistoryWindow = '15m' | '1h' | '24h';
+
+export interface TokenRatePoint {
+  /** Start of the bucket */
+  timestamp: string;
+  /** Rates in tokens per minute over the bucket */
+  input: number;
+  output: number;
+  total: number;
+}
+
+export interface TokenHistorySeries {
+  window: TokenHistoryWindow;
+  bucketMs: number;
+  from: string;
+  to: string;
+  aggregate: TokenRatePoint[];
+  /** Per-agent series, only for agents with usage in the window */
+  agents: Record<string, TokenRatePoint[]>;
+}
+
+export interface TimelineMessage {
+  kind: 'message';
+  timestamp: string | null;
+  role: string;
+  preview: string;
+}
+
+export interface TimelineToolCall {
+  kind: 'tool_call';
+  timestamp: string | null;
+  toolName: string;
+  callId: string | null;
+  arguments: string | null;
+  status: 'pending' | 'success' | 'error';
+  startedAt: string | null;
+  completedAt: string | null;
+  durationMs: number | null;
+}
+
+export interface TimelineModelSwitch {
+  kind: 'model_switch';
+  timestamp: string | null;
+  previousModel: string | null;
+  model: string;
+}
+
+export type TimelineEntry = TimelineMessage | TimelineToolCall | TimelineModelSwitch;
+
+export interface SessionTimeline {
+  agentId: string;
+  sessionId: string;
+  startedAt: string | null;
+  endedAt: string | null;
+  /** Index of the first entry in `entries`; pass it as `before` to page further back */
+  offset: number;
+  /** Entries recorded for the session, including those outside this page */
+  totalEntries: number;
+  entries: TimelineEntry[];
+}
@@ -0,0 +1,242 @@
+import {
+  MAX_HISTORY_LIMIT,
+  type AgentEvent,
+  type AgentEventType,
+  type ClientMessage,
+  type ClientMessageType
+} from './protocol.js';
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+/** Returns a description of what is wrong with the value at `path`, or null if it is fine */
+type Check = (value: unknown, path: string) => string | null;
+
+const expect = (description: string, test: (value: unknown) => boolean): Check =>
+  (value, path) => test(value) ? null : `${path}: expected ${description}`;
+
+const isString = expect('string', value => typeof value === 'string');
+const isNumber = expect('number', value => typeof value === 'number' && Number.isFinite(value));
+const isBoolean = expect('boolean', value => typeof value === 'boolean');
+const isObject = expect('object', value => typeof value === 'object' && value !== null && !Array.isArray(value));
+const isArray = expect('array', Array.isArray);
+
+// Largest epoch milliseconds a Date can hold
+const MAX_DATE_MS = 8.64e15;
+
+/** An ISO string or epoch milliseconds that a Date can represent */
+const isTimestamp = expect('ISO timestamp or epoch milliseconds', value =>
+  typeof value === 'string'
+    ? !Number.isNaN(Date.parse(value))
+    : typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_DATE_MS);
+
+const isLimit = expect(`integer from 1 to ${MAX_HISTORY_LIMIT}`, value =>
+  Number.isInteger(value) && (value as number) > 0 && (value as number) <= MAX_HISTORY_LIMIT);
+
+const optional = (check: Check): Check => (value, path) => value === undefined ? null : check(value, path);
+const nullable = (check: Check): Check => (value, path) => value === null ? null : check(value, path);
+
+const oneOf = (...values: string[]): Check =>
+  expect(`one of ${values.join(', ')}`, value => values.includes(value as string));
+
+const arrayOf = (check: Check): Check => (value, path) =>
+  isArray(value, path) ?? firstError((value as unknown[]).map((item, index) => () => check(item, `${path}[${index}]`)));
+
+/**
+ * Check the listed fields of an object; fields not listed are allowed, so peers can add optional ones
+ */
+const shape = (fields: Record<string, Check>): Check => (value, path) =>
+  isObject(value, path) ?? firstError(Object.entries(fields).map(([field, check]) =>
+    () => check((value as Record<string, unknown>)[field], `${path}.${field}`)
+  ));
+
+function firstError(checks: (() => string | null)[]): string | null {
+  for (const check of checks) {
+    const error = check();
+    if (error) return error;
+  }
+  return null;
+}
+
+const AGENT_STATUS = oneOf('active', 'idle', 'ended', 'stalled', 'errored', 'waiting_for_tool');
+
+const AGENT_STATE = shape({
+  agentId: isString,
+  agentName: isString,
+  status: AGENT_STATUS,
+  currentModel: isString,
+  totalTokens: isNumber,
+  inputTokens: isNumber,
+  outputTokens: isNumber,
+  cost: isNumber,
+  contextPct: isNumber,
+  lastActivity: isString,
+  sessions: isArray,
+  toolsUsed: arrayOf(isString),
+  skills: arrayOf(isString)
+});
+
+const AGENT_STATE_FIELDS: Record<string, Check> = {
+  agent: optional(AGENT_STATE),
+  stateVersion: optional(isNumber),
+  agentPatch: optional(shape({ version: isNumber, baseVersion: isNumber, changes: isObject, removed: arrayOf(isString) }))
+};
+
+const AGENT_LIFECYCLE = {
+  ...AGENT_STATE_FIELDS,
+  previousState: optional(nullable(AGENT_STATUS)),
+  currentState: optional(AGENT_STATUS),
+  sessionId: optional(isString),
+  workspace: optional(nullable(isString)),
+  agentName: optional(isString)
+};
+
+const WORKSPACE_RUN = {
+  workspace: isString,
+  run: shape({ runKey: isString, workflowType: isString, runId: isString, status: oneOf('active', 'ended'), agents: isArray })
+};
+
+const FILTER = shape({
+  agentIds: optional(arrayOf(isString)),
+  eventTypes: optional(arrayOf(isString)),
+  workspaces: optional(arrayOf(isString)),
+  models: optional(arrayOf(isString))
+});
+
+const EVENT_QUERY = shape({
+  from: optional(isTimestamp),
+  to: optional(isTimestamp),
+  agentId: optional(isString),
+  eventTypes: optional(arrayOf(isString)),
+  limit: optional(isLimit)
+});
+
+// Events nested in batches and history results are checked like top-level ones
+const isEvent: Check = (value, path) => checkEvent(value, path);
+
+const PAYLOAD_SCHEMAS: Record<AgentEventType, Record<string, Check>> = {
+  agent_started: AGENT_LIFECYCLE,
+  agent_ended: AGENT_LIFECYCLE,
+  agent_state_changed: AGENT_LIFECYCLE,
+  agent_updated: AGENT_STATE_FIELDS,
+  tool_called: {
+    sessionId: isString,
+    toolName: isString,
+    callId: nullable(isString),
+    arguments: nullable(isString),
+    status: oneOf('success', 'error'),
+    startedAt: nullable(isString),
+    durationMs: nullable(isNumber)
+  },
+  model_switched: { previousModel: isString, currentModel: isString },
+  token_update: { previousTokens: isNumber, currentTokens: isNumber, delta: isNumber, inputDelta: isNumber, outputDelta: isNumber },
+  context_pressure: {
+    model: isString,
+    previousPct: isNumber,
+    contextPct: isNumber,
+    threshold: isNumber,
+    contextWindow: nullable(isNumber)
+  },
+  cost_update: {
+    previousCost: isNumber,
+    currentCost: isNumber,
+    delta: isNumber,
+    inputTokens: isNumber,
+    outputTokens: isNumber,
+    totalCost: isNumber
+  },
+  budget_alert: {
+    budgetId: isString,
+    scope: isString,
+    target: nullable(isString),
+    window: isString,
+    maxTokens: isNumber,
+    usedTokens: isNumber,
+    usedPct: isNumber,
+    level: isString,
+    workspace: optional(isString)
+  },
+  agent_anomaly: { kind: isString, sessionId: nullable(isString), message: isString, evidence: isObject },
+  workspace_run_started: WORKSPACE_RUN,
+  workspace_run_updated: WORKSPACE_RUN,
+  workspace_run_ended: WORKSPACE_RUN,
+  snapshot: {
+    protocolVersion: isNumber,
+    clientId: isString,
+    connectedClients: isNumber,
+    lastSeq: isNumber,
+    epoch: isString,
+    snapshot: shape({ timestamp: isString, agents: arrayOf(AGENT_STATE), totalTokens: isNumber }),
+    workspaceRuns: isArray,
+    stateVersion: optional(isNumber)
+  },
+  subscription_updated: { filter: FILTER },
+  resync_required: { reason: oneOf('gap_too_large', 'server_restarted'), requestedSeq: isNumber, oldestSeq: isNumber, lastSeq: isNumber },
+  history_result: { query: isObject, persistent: isBoolean, events: arrayOf(isEvent) },
+  authenticated: { role: oneOf('viewer', 'admin') },
+  command_result: { command: isString, ok: isBoolean, error: optional(isString) },
+  protocol_error: { error: isString },
+  batch: { events: arrayOf(isEvent) },
+  heartbeat: { connectedClients: optional(isNumber), uptime: optional(isNumber), type: optional(oneOf('pong')) }
+};
+
+const ENVELOPE = shape({ timestamp: isString, agentId: isString, eventType: isString, seq: optional(isNumber) });
+
+function checkEvent(value: unknown, path: string): string | null {
+  const envelopeError = ENVELOPE(value, path);
+  if (envelopeError) return envelopeError;
+
+  const { eventType, payload } = value as { eventType: string; payload: unknown };
+  if (!Object.prototype.hasOwnProperty.call(PAYLOAD_SCHEMAS, eventType)) {
+    return `${path}.eventType: unknown event type ${eventType}`;
+  }
+  return shape(PAYLOAD_SCHEMAS[eventType as AgentEventType])(payload, `${eventType}.payload`);
+}
+
+const CLIENT_MESSAGE_SCHEMAS: Record<ClientMessageType, Record<string, Check>> = {
+  ping: {},
+  get_snapshot: {},
+  subscribe: { filter: FILTER },
+  unsubscribe: { filter: optional(FILTER) },
+  resume: { lastSeq: isNumber, epoch: optional(isString) },
+  query_history: { query: optional(EVENT_QUERY) },
+  auth: { token: isString },
+  resync: {},
+  clear_cache: {},
+  ack: { version: isNumber }
+};
+
+/**
+ * Check that a value is a well-formed server event
+ */
+export function validateAgentEvent(value: unknown): ValidationResult<AgentEvent> {
+  const error = checkEvent(value, 'event');
+  return error ? { ok: false, error } : { ok: true, value: value as AgentEvent };
+}
+
+/**
+ * Check that a value is a well-formed client message
+ */
+export function validateClientMessage(value: unknown): ValidationResult<ClientMessage> {
+  const error = shape({ type: isString })(value, 'message');
+  if (error) return { ok: false, error };
+
+  const { type } = value as { type: string };
+  if (!Object.prototype.hasOwnProperty.call(CLIENT_MESSAGE_SCHEMAS, type)) {
+    return { ok: false, error: `message.type: unknown message type ${type}` };
+  }
+  const payloadError = shape(CLIENT_MESSAGE_SCHEMAS[type as ClientMessageType])(value, type);
+  return payloadError ? { ok: false, error: payloadError } : { ok: true, value: value as ClientMessage };
+}
+
+/**
+ * Parse and validate a raw frame in either direction
+ */
+export function parseMessage<T>(raw: string, validate: (value: unknown) => ValidationResult<T>): ValidationResult<T> {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: 'not valid JSON' };
+  }
+  return validate(value);
+}
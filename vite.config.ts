@@ -11,6 +11,9 @@ export default defineConfig({
   server: {
     port: 3000,
     proxy: {
+      '/api': {
+        target: 'http://localhost:3503',
+      },
       '/ws': {
         target: 'ws://localhost:3503',
         ws: true,